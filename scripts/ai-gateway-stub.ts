@@ -0,0 +1,229 @@
+// Deterministic local stand-in for the AI gateway, for running the edge
+// functions offline:
+//
+//   deno run --allow-net --allow-env scripts/ai-gateway-stub.ts
+//   AI_GATEWAY_URL=http://localhost:8787/v1 supabase functions serve
+//
+// Responses depend only on the request body, so repeated runs index and rank
+// the same fixtures identically.
+const PORT = Number(Deno.env.get("STUB_PORT") || 8787);
+
+type ContentPart = { type: string; text?: string; image_url?: { url: string } };
+
+interface ChatRequest {
+  model?: string;
+  messages: { role: string; content: string | ContentPart[] }[];
+  stream?: boolean;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function completion(content: string): Response {
+  return json({
+    id: "stub-completion",
+    object: "chat.completion",
+    choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+  });
+}
+
+// The same completion as Server-Sent Events, one chunk per word
+function streamedCompletion(content: string): Response {
+  const chunks = content.match(/\S+\s*|\s+/g) || [];
+  const events = chunks.map((chunk) =>
+    `data: ${JSON.stringify({ id: "stub-completion", object: "chat.completion.chunk", choices: [{ index: 0, delta: { content: chunk } }] })}\n\n`
+  );
+  return new Response([...events, "data: [DONE]\n\n"].join(""), {
+    headers: { "Content-Type": "text/event-stream" },
+  });
+}
+
+// Cheap stable hash so stub output varies per input but never between runs.
+function hash(text: string): number {
+  let value = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 16777619);
+  }
+  return value >>> 0;
+}
+
+function describeFrames(images: ContentPart[]): string {
+  const objects = ["person", "car", "text_overlay", "screen", "chair"];
+  return JSON.stringify(images.map((image, index) => {
+    const seed = hash(image.image_url?.url || "");
+    const object = objects[seed % objects.length];
+    return {
+      index,
+      description: `Stub frame ${index} showing a ${object.replace("_", " ")}`,
+      ocr_text: seed % 3 === 0 ? `SLIDE ${seed % 100}` : "",
+      detected_objects: { [object]: 1 + (seed % 3) },
+      confidence: 0.8,
+    };
+  }));
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+/g) || [];
+}
+
+// Ranks the numbered segments in a search ranking prompt by the share of
+// query words each one contains.
+function rankSegments(prompt: string): string {
+  const query = prompt.match(/User Query: "([^"]*)"/)?.[1] || "";
+  const queryWords = [...new Set(tokenize(query))];
+  const blocks = prompt.split("Analyze semantic relevance")[0].split(/\n\[(\d+)\] /).slice(1);
+
+  const rankings = [];
+  for (let i = 0; i < blocks.length; i += 2) {
+    const words = new Set(tokenize(blocks[i + 1]));
+    const matched = queryWords.filter((w) => words.has(w)).length;
+    const score = queryWords.length ? matched / queryWords.length : 0;
+    rankings.push({ index: Number(blocks[i]), relevance_score: Math.round(score * 100) / 100, reason: `Matched ${matched} query words` });
+  }
+
+  rankings.sort((a, b) => b.relevance_score - a.relevance_score || a.index - b.index);
+  return JSON.stringify(rankings);
+}
+
+// Answers a video question by quoting the first analyzed segment, in the
+// prose-then-trailer format video-qa asks for: citing that segment by its
+// label with a few of its words, or for library questions by video number.
+function answerQuestion(prompt: string, question: string): string {
+  const library = prompt.includes('{"video": 1');
+  const first = prompt.match(/^(?:(S\d+) )?\[(\d{2}:\d{2}:\d{2})\] (.*)$/m);
+  if (!first) {
+    return `The analyzed content does not answer "${question}".\n\n{"citations": []}`;
+  }
+  const [, label, timestamp, content] = first;
+  if (library) {
+    const trailer = `{"citations": [{"video": 1, "timestamp": "${timestamp}"}]}`;
+    return `Stub answer to "${question}": at ${timestamp}, ${content.trim()}\n\n${trailer}`;
+  }
+  const quote = content.trim().replace(/^(?:Spoken|On-screen text): "/, "").split(/\s+/).slice(0, 5).join(" ").replace(/"/g, "");
+  const trailer = JSON.stringify({ citations: [{ segment: label, quote }] });
+  return `Stub answer to "${question}": at ${timestamp}, ${content.trim()} [1]\n\n${trailer}`;
+}
+
+function handleChat(request: ChatRequest): Response {
+  const respond = request.stream ? streamedCompletion : completion;
+  const system = request.messages[0]?.role === "system" ? String(request.messages[0].content) : "";
+  const last = request.messages[request.messages.length - 1];
+  const parts = typeof last?.content === "string" ? [] : last?.content || [];
+  const images = parts.filter((part) => part.type === "image_url");
+  const text = typeof last?.content === "string" ? last.content : parts.map((part) => part.text || "").join("\n");
+
+  if (images.length > 0) {
+    return respond(describeFrames(images));
+  }
+  if (text.includes("semantic search ranking system")) {
+    return respond(rankSegments(text));
+  }
+  if (system.includes("Analyzed Video Content")) {
+    return respond(answerQuestion(system, text));
+  }
+  return respond("[]");
+}
+
+// Hashed bag-of-words vectors: texts sharing words get similar embeddings.
+function embed(text: string, dimensions: number): number[] {
+  const vector = new Array(dimensions).fill(0);
+  for (const word of tokenize(text)) {
+    vector[hash(word) % dimensions] += 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map((v) => v / norm);
+}
+
+// Stand-in for a CLIP-style image model: byte and byte-pair histograms of the
+// JPEG scan data. Copies of the same frame embed identically and re-encodes
+// stay close, which is enough to exercise query-by-frame end to end.
+const IMAGE_DIMENSIONS = 512;
+
+function embedImage(dataUrl: string): number[] {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(",") + 1));
+  // Skip the headers (quantization and Huffman tables) up to start-of-scan
+  const scanStart = binary.indexOf("\xFF\xDA");
+  const scan = binary.slice(scanStart === -1 ? 0 : scanStart + 2);
+
+  const vector = new Array(IMAGE_DIMENSIONS).fill(0);
+  for (let i = 0; i < scan.length; i++) {
+    const byte = scan.charCodeAt(i);
+    vector[byte] += 1;
+    if (i > 0) {
+      vector[256 + ((scan.charCodeAt(i - 1) * 31 + byte) % 256)] += 1;
+    }
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map((v) => v / norm);
+}
+
+function handleEmbeddings(request: { input: string | string[]; dimensions?: number }): Response {
+  const inputs = Array.isArray(request.input) ? request.input : [request.input];
+  const dimensions = request.dimensions || 1536;
+  return json({
+    object: "list",
+    data: inputs.map((input, index) => ({
+      object: "embedding",
+      index,
+      embedding: input.startsWith("data:image/") ? embedImage(input) : embed(input, dimensions),
+    })),
+  });
+}
+
+const VOCABULARY = [
+  "welcome", "everyone", "today", "we", "review", "the", "budget", "for", "next",
+  "quarter", "and", "look", "at", "our", "roadmap", "questions", "please",
+];
+
+// Emits one word every half second of 16 kHz mono PCM audio.
+async function handleTranscription(req: Request): Promise<Response> {
+  const form = await req.formData();
+  const file = form.get("file");
+  if (!(file instanceof File)) {
+    return json({ error: "Missing file" }, 400);
+  }
+
+  const durationSeconds = Math.max(0, (file.size - 44) / 32000);
+  const words = [];
+  for (let start = 0; start + 0.4 <= durationSeconds; start += 0.5) {
+    const index = words.length;
+    words.push({
+      word: VOCABULARY[hash(String(index)) % VOCABULARY.length],
+      start,
+      end: start + 0.4,
+      probability: 0.9,
+    });
+  }
+
+  return json({
+    text: words.map((w) => w.word).join(" "),
+    duration: durationSeconds,
+    words,
+  });
+}
+
+export async function handleGatewayRequest(req: Request): Promise<Response> {
+  const { pathname } = new URL(req.url);
+
+  if (req.method === "POST" && pathname === "/v1/chat/completions") {
+    return handleChat(await req.json());
+  }
+  if (req.method === "POST" && pathname === "/v1/embeddings") {
+    return handleEmbeddings(await req.json());
+  }
+  if (req.method === "POST" && pathname === "/v1/audio/transcriptions") {
+    return handleTranscription(req);
+  }
+
+  return json({ error: `No stub for ${req.method} ${pathname}` }, 404);
+}
+
+if (import.meta.main) {
+  Deno.serve({ port: PORT }, handleGatewayRequest);
+  console.log(`AI gateway stub listening on http://localhost:${PORT}/v1`);
+}
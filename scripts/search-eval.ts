@@ -0,0 +1,132 @@
+// Offline relevance evaluation for search-videos. Runs the real search logic
+// (query parsing, hybrid retrieval, fusion, batched reranking) over a fixture
+// library, with the deterministic AI gateway stub standing in for the models,
+// and scores each labelled query with nDCG@10, MRR and recall@10:
+//
+//   deno run --allow-net --allow-env --allow-read --allow-write scripts/search-eval.ts
+//
+// Options:
+//   --threshold <n>     largest allowed drop of an aggregate metric below the
+//                       baseline before the run fails (default 0.02)
+//   --update-baseline   record this run's scores as the new baseline
+//
+// Exits 1 when an aggregate metric regressed past the threshold, so a ranking
+// change can be checked before it ships. Fixtures, judgements and the baseline
+// live in scripts/search-eval/.
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { handleGatewayRequest } from "./ai-gateway-stub.ts";
+import { embedTexts } from "../supabase/functions/_shared/embeddings.ts";
+import { runSearch } from "../supabase/functions/search-videos/search.ts";
+import { FixtureDatabase, FixtureLibrary } from "./search-eval/fixture-db.ts";
+import { evaluateRanking, Judgements, meanMetrics, METRIC_NAMES, QueryMetrics } from "./search-eval/metrics.ts";
+
+interface LabelledQuery {
+  id: string;
+  query: string;
+  videoId?: string;
+  relevant: Judgements;
+}
+
+interface Baseline {
+  aggregate: QueryMetrics;
+  queries: Record<string, QueryMetrics>;
+}
+
+const FIXTURES = new URL("./search-eval/", import.meta.url);
+const BASELINE_PATH = new URL("baseline.json", FIXTURES);
+
+function option(name: string): string | undefined {
+  const index = Deno.args.indexOf(name);
+  return index === -1 ? undefined : Deno.args[index + 1];
+}
+
+async function readJson<T>(url: URL): Promise<T> {
+  return JSON.parse(await Deno.readTextFile(url));
+}
+
+async function readBaseline(): Promise<Baseline | null> {
+  try {
+    return await readJson<Baseline>(BASELINE_PATH);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null;
+    throw error;
+  }
+}
+
+function format(value: number): string {
+  return value.toFixed(3);
+}
+
+function formatDelta(value: number, baseline?: number): string {
+  if (baseline === undefined) return format(value);
+  const delta = value - baseline;
+  const sign = delta > 0 ? "+" : delta < 0 ? "-" : " ";
+  return `${format(value)} (${sign}${Math.abs(delta).toFixed(3)})`;
+}
+
+function printRow(label: string, metrics: QueryMetrics, baseline?: QueryMetrics) {
+  const cells = METRIC_NAMES.map((name) => formatDelta(metrics[name], baseline?.[name]).padEnd(16));
+  console.log(`${label.padEnd(28)} ${cells.join(" ")}`);
+}
+
+async function main(): Promise<number> {
+  const threshold = Number(option("--threshold") ?? 0.02);
+  const updateBaseline = Deno.args.includes("--update-baseline");
+
+  // Every model call goes to the in-process stub, whatever the environment says
+  const server = Deno.serve({ port: 0, onListen: () => {} }, handleGatewayRequest);
+  const gateway = `http://localhost:${server.addr.port}/v1`;
+  Deno.env.set("AI_GATEWAY_URL", gateway);
+  Deno.env.set("EMBEDDING_URL", gateway);
+  if (!Deno.env.get("LOVABLE_API_KEY")) Deno.env.set("LOVABLE_API_KEY", "search-eval");
+
+  try {
+    const library = await readJson<FixtureLibrary>(new URL("library.json", FIXTURES));
+    const queries = await readJson<LabelledQuery[]>(new URL("judgements.json", FIXTURES));
+    const baseline = await readBaseline();
+
+    const embeddings = await embedTexts(library.segments.map(FixtureDatabase.embeddingText));
+    const supabase = new FixtureDatabase(library, embeddings) as unknown as SupabaseClient;
+
+    console.log(`Evaluating ${queries.length} queries over ${library.segments.length} segments\n`);
+    console.log(`${"query".padEnd(28)} ${METRIC_NAMES.map((name) => name.padEnd(16)).join(" ")}`);
+
+    const scores: Record<string, QueryMetrics> = {};
+    for (const labelled of queries) {
+      const response = await runSearch(supabase, { query: labelled.query, videoId: labelled.videoId, pageSize: 10 });
+      if (response.message) console.log(`  ${labelled.id}: ${response.message}`);
+
+      scores[labelled.id] = evaluateRanking(response.results.map((result) => result.id), labelled.relevant);
+      printRow(labelled.id, scores[labelled.id], baseline?.queries[labelled.id]);
+    }
+
+    const aggregate = meanMetrics(Object.values(scores));
+    console.log("");
+    printRow("mean", aggregate, baseline?.aggregate);
+
+    if (updateBaseline) {
+      const rounded = (_key: string, value: unknown) => (typeof value === "number" ? Number(value.toFixed(4)) : value);
+      await Deno.writeTextFile(BASELINE_PATH, JSON.stringify({ aggregate, queries: scores }, rounded, 2) + "\n");
+      console.log(`\nBaseline written to ${BASELINE_PATH.pathname}`);
+      return 0;
+    }
+
+    if (!baseline) {
+      console.log("\nNo baseline recorded yet; run with --update-baseline to create one");
+      return 0;
+    }
+
+    const regressions = METRIC_NAMES.filter((name) => aggregate[name] < baseline.aggregate[name] - threshold);
+    if (regressions.length > 0) {
+      console.error(`\nRegression past ${threshold} in: ${regressions.join(", ")}`);
+      return 1;
+    }
+
+    console.log(`\nNo aggregate metric dropped more than ${threshold} below the baseline`);
+    return 0;
+  } finally {
+    await server.shutdown();
+  }
+}
+
+Deno.exit(await main());
@@ -0,0 +1,439 @@
+// In-memory stand-in for the parts of Supabase that search-videos reads: the
+// match_video_segments, search_video_segments_fts, filter_video_segments and
+// filter_segment_facets RPCs over a fixture library, and the tables of the
+// ranking store. It mirrors the SQL closely enough to compare rankings
+// between runs, not to reproduce Postgres scores exactly:
+//
+// - full text uses a light english-like stemmer and stop word list, and
+//   ts_rank_cd is approximated by summing the best field weight (description
+//   1.0, transcript 0.4, OCR 0.2) of each matched lexeme, normalized as
+//   rank / (rank + 1) like normalization flag 32
+// - segment_matches_filter is ported node for node
+import { FilterNode } from "../../supabase/functions/search-videos/query-language.ts";
+
+export interface FixtureVideo {
+  id: string;
+  title: string;
+  storage_path: string;
+  status?: string;
+}
+
+export interface FixtureSegment {
+  id: string;
+  video_id: string;
+  timestamp_seconds: number;
+  description: string | null;
+  transcript: string | null;
+  ocr_text: string | null;
+  detected_objects: Record<string, number>;
+}
+
+export interface FixtureLibrary {
+  videos: FixtureVideo[];
+  segments: FixtureSegment[];
+}
+
+interface IndexedSegment extends FixtureSegment {
+  video: FixtureVideo;
+  embedding: number[];
+  fields: Record<"description" | "transcript" | "ocr" | "video", Lexeme[]>;
+}
+
+interface Lexeme {
+  word: string;
+  position: number;
+}
+
+type TsQuery =
+  | { type: "word"; word: string; prefix: boolean }
+  | { type: "and" | "or" | "phrase"; left: TsQuery; right: TsQuery }
+  | { type: "not"; child: TsQuery };
+
+interface RpcResult {
+  data: unknown;
+  error: { message: string } | null;
+}
+
+const FIELD_WEIGHTS = { description: 1, transcript: 0.4, ocr: 0.2 } as const;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "in", "is", "it",
+  "of", "on", "or", "that", "the", "this", "to", "was", "with",
+]);
+
+function stem(word: string): string {
+  const lower = word.toLowerCase();
+  if (lower.length <= 4) return lower;
+  return lower.replace(/(?:ing|ed|es|s)$/, "");
+}
+
+function lexemes(text: string | null): Lexeme[] {
+  const words = (text || "").match(/[\p{L}\p{N}]+/gu) || [];
+  return words
+    .map((word, position) => ({ word: word.toLowerCase(), position }))
+    .filter((lexeme) => !STOP_WORDS.has(lexeme.word))
+    .map((lexeme) => ({ ...lexeme, word: stem(lexeme.word) }));
+}
+
+function timestampDisplay(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${Math.floor(seconds % 60).toString().padStart(2, "0")}`;
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / (Math.sqrt(normA * normB) || 1);
+}
+
+// Parses the to_tsquery expressions built by lexical.ts. Precedence follows
+// Postgres: ! binds tightest, then <->, &, |
+function parseTsQuery(expression: string): TsQuery {
+  const tokens = expression.match(/<->|[()&|!]|[^\s()&|!<]+/g) || [];
+  let index = 0;
+
+  const parseOr = (): TsQuery => {
+    let left = parseAnd();
+    while (tokens[index] === "|") {
+      index++;
+      left = { type: "or", left, right: parseAnd() };
+    }
+    return left;
+  };
+  const parseAnd = (): TsQuery => {
+    let left = parsePhrase();
+    while (tokens[index] === "&") {
+      index++;
+      left = { type: "and", left, right: parsePhrase() };
+    }
+    return left;
+  };
+  const parsePhrase = (): TsQuery => {
+    let left = parseNot();
+    while (tokens[index] === "<->") {
+      index++;
+      left = { type: "phrase", left, right: parseNot() };
+    }
+    return left;
+  };
+  const parseNot = (): TsQuery => {
+    const token = tokens[index++];
+    if (token === "!") return { type: "not", child: parseNot() };
+    if (token === "(") {
+      const inner = parseOr();
+      index++;
+      return inner;
+    }
+    const prefix = token.endsWith(":*");
+    const raw = prefix ? token.slice(0, -2) : token;
+    // Postgres drops stop words from the query; an empty word matches anything
+    if (STOP_WORDS.has(raw.toLowerCase())) return { type: "word", word: "", prefix: false };
+    return { type: "word", word: prefix ? raw.toLowerCase() : stem(raw), prefix };
+  };
+
+  return parseOr();
+}
+
+// Positions at which a query matches in a document; empty when it does not.
+// Negations and non-word phrase operands only report whether they match.
+function matchPositions(query: TsQuery, document: Lexeme[]): number[] {
+  switch (query.type) {
+    case "word":
+      if (!query.word) return [-1];
+      return document
+        .filter((lexeme) => (query.prefix ? lexeme.word.startsWith(query.word) : lexeme.word === query.word))
+        .map((lexeme) => lexeme.position);
+    case "phrase": {
+      const left = matchPositions(query.left, document);
+      const right = new Set(matchPositions(query.right, document));
+      return left.filter((position) => right.has(position + 1)).map((position) => position + 1);
+    }
+    case "and": {
+      const left = matchPositions(query.left, document);
+      const right = matchPositions(query.right, document);
+      return left.length > 0 && right.length > 0 ? [...left, ...right] : [];
+    }
+    case "or":
+      return [...matchPositions(query.left, document), ...matchPositions(query.right, document)];
+    case "not":
+      return matchPositions(query.child, document).length > 0 ? [] : [-1];
+  }
+}
+
+function matches(query: TsQuery, document: Lexeme[]): boolean {
+  return matchPositions(query, document).length > 0;
+}
+
+function positiveWords(query: TsQuery): TsQuery[] {
+  if (query.type === "word") return query.word ? [query] : [];
+  if (query.type === "not") return [];
+  return [...positiveWords(query.left), ...positiveWords(query.right)];
+}
+
+function searchDocument(segment: IndexedSegment): Lexeme[] {
+  // Offset the fields like the || concatenation of tsvectors does, so
+  // phrases never span two fields
+  const { description, transcript, ocr } = segment.fields;
+  const shift = (lexemeList: Lexeme[], by: number) => lexemeList.map((l) => ({ ...l, position: l.position + by }));
+  return [...description, ...shift(transcript, 100000), ...shift(ocr, 200000)];
+}
+
+function ftsRank(query: TsQuery, segment: IndexedSegment): number {
+  let rank = 0;
+  for (const word of positiveWords(query)) {
+    const weights = (Object.keys(FIELD_WEIGHTS) as (keyof typeof FIELD_WEIGHTS)[])
+      .filter((field) => matches(word, segment.fields[field]))
+      .map((field) => FIELD_WEIGHTS[field]);
+    rank += Math.max(0, ...weights);
+  }
+  return rank / (rank + 1);
+}
+
+function matchesFilter(segment: IndexedSegment, filter: FilterNode | null): boolean {
+  if (!filter) return true;
+
+  switch (filter.type) {
+    case "and":
+      return filter.children.every((child) => matchesFilter(segment, child));
+    case "or":
+      return filter.children.some((child) => matchesFilter(segment, child));
+    case "not":
+      return !matchesFilter(segment, filter.child);
+    case "match": {
+      // prefix: to_tsquery('value:*'); otherwise phraseto_tsquery('value')
+      const words = lexemes(filter.value).map((lexeme) => lexeme.word);
+      if (words.length === 0) return false;
+      const query = filter.prefix
+        ? { type: "word" as const, word: filter.value.toLowerCase(), prefix: true }
+        : words
+            .map((word): TsQuery => ({ type: "word", word, prefix: false }))
+            .reduce((left, right) => ({ type: "phrase", left, right }));
+      const document = filter.field === "any" ? searchDocument(segment) : segment.fields[filter.field];
+      return matches(query, document);
+    }
+    case "object": {
+      const value = segment.detected_objects[filter.name];
+      const count = typeof value === "number" ? value : 0;
+      switch (filter.comparator) {
+        case ">": return count > filter.count;
+        case "<=": return count <= filter.count;
+        case "<": return count < filter.count;
+        case "=": return count === filter.count;
+        default: return count >= filter.count;
+      }
+    }
+    case "after":
+      return segment.timestamp_seconds >= filter.seconds;
+    case "before":
+      return segment.timestamp_seconds <= filter.seconds;
+    case "videos":
+      return filter.ids.includes(segment.video_id);
+  }
+}
+
+interface FacetRow {
+  facet: "object" | "video" | "time";
+  value: string | null;
+  video_id: string | null;
+  bucket_start: number | null;
+  count: number;
+}
+
+// The rows filter_segment_facets groups the matched segments into
+function facetRows(segments: IndexedSegment[], bucketStarts: number[]): FacetRow[] {
+  const rows = new Map<string, FacetRow>();
+  const add = (key: string, row: Omit<FacetRow, "count">) => {
+    const entry = rows.get(key);
+    if (entry) entry.count++;
+    else rows.set(key, { ...row, count: 1 });
+  };
+
+  for (const segment of segments) {
+    for (const [name, count] of Object.entries(segment.detected_objects)) {
+      if (typeof count === "number" && count > 0) {
+        add(`object:${name}`, { facet: "object", value: name, video_id: null, bucket_start: null });
+      }
+    }
+    add(`video:${segment.video_id}`, { facet: "video", value: segment.video.title, video_id: segment.video_id, bucket_start: null });
+
+    const starts = bucketStarts.filter((start) => start <= segment.timestamp_seconds);
+    if (starts.length > 0) {
+      const start = Math.max(...starts);
+      add(`time:${start}`, { facet: "time", value: null, video_id: null, bucket_start: start });
+    }
+  }
+  return [...rows.values()];
+}
+
+type Row = Record<string, unknown>;
+
+interface FixtureTable {
+  // Columns an upsert matches existing rows on
+  key: string[];
+  rows: Row[];
+}
+
+// The few query builder calls the ranking store and the index version lookup
+// make, over an in-memory table: select, eq, lt, single, maybeSingle, upsert
+// and delete. Awaiting the builder runs the query.
+class FixtureQuery implements PromiseLike<RpcResult> {
+  private filters: ((row: Row) => boolean)[] = [];
+  private deleting = false;
+
+  constructor(private table: FixtureTable | undefined, private name: string) {}
+
+  select(_columns: string): this {
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  lt(column: string, value: number): this {
+    this.filters.push((row) => Number(row[column]) < value);
+    return this;
+  }
+
+  delete(): this {
+    this.deleting = true;
+    return this;
+  }
+
+  upsert(row: Row): Promise<RpcResult> {
+    if (!this.table) return Promise.resolve(this.missing());
+    const { key, rows } = this.table;
+    const index = rows.findIndex((existing) => key.every((column) => existing[column] === row[column]));
+    if (index === -1) rows.push({ ...row });
+    else rows[index] = { ...row };
+    return Promise.resolve({ data: null, error: null });
+  }
+
+  maybeSingle(): Promise<RpcResult> {
+    const result = this.run();
+    return Promise.resolve({ ...result, data: (result.data as Row[] | null)?.[0] ?? null });
+  }
+
+  single(): Promise<RpcResult> {
+    return this.maybeSingle().then((result) =>
+      result.data || result.error ? result : { data: null, error: { message: `No row in ${this.name}` } }
+    );
+  }
+
+  then<T1 = RpcResult, T2 = never>(
+    onfulfilled?: ((value: RpcResult) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve(this.run()).then(onfulfilled, onrejected);
+  }
+
+  private run(): RpcResult {
+    if (!this.table) return this.missing();
+    const matched = this.table.rows.filter((row) => this.filters.every((filter) => filter(row)));
+    if (!this.deleting) return { data: matched, error: null };
+
+    this.table.rows = this.table.rows.filter((row) => !matched.includes(row));
+    return { data: null, error: null };
+  }
+
+  private missing(): RpcResult {
+    return { data: null, error: { message: `No fixture for table ${this.name}` } };
+  }
+}
+
+export class FixtureDatabase {
+  private segments: IndexedSegment[];
+  // The fixture library never changes, so the index stays at one version
+  private tables: Record<string, FixtureTable> = {
+    search_index_state: { key: [], rows: [{ version: 1 }] },
+    search_rankings: { key: ["ranking_key", "batch"], rows: [] },
+  };
+
+  constructor(library: FixtureLibrary, embeddings: number[][]) {
+    const videos = new Map(library.videos.map((video) => [video.id, video]));
+    this.segments = library.segments.map((segment, index) => {
+      const video = videos.get(segment.video_id);
+      if (!video) throw new Error(`Segment ${segment.id} refers to unknown video ${segment.video_id}`);
+      return {
+        ...segment,
+        video,
+        embedding: embeddings[index],
+        fields: {
+          description: lexemes(segment.description),
+          transcript: lexemes(segment.transcript),
+          ocr: lexemes(segment.ocr_text),
+          video: lexemes(video.title),
+        },
+      };
+    });
+  }
+
+  // The text the analysis pipeline embeds for a segment
+  static embeddingText(segment: FixtureSegment): string {
+    return `${segment.description || ""} ${segment.transcript || ""} ${segment.ocr_text || ""}`.trim();
+  }
+
+  // Tables the ranking store keeps batch rankings in, see rankings.ts
+  from(name: string): FixtureQuery {
+    return new FixtureQuery(this.tables[name], name);
+  }
+
+  rpc(name: string, args: Record<string, unknown>): Promise<RpcResult> {
+    const limit = Number(args.match_count ?? 50);
+    const scoped = this.segments.filter(
+      (segment) =>
+        (!args.filter_video_id || segment.video_id === args.filter_video_id) &&
+        (segment.video.status || "ready") === (args.filter_status ?? "ready") &&
+        matchesFilter(segment, (args.filter as FilterNode | null) ?? null)
+    );
+
+    switch (name) {
+      case "match_video_segments": {
+        const queryEmbedding = args.query_embedding as number[];
+        const rows = scoped
+          .map((segment) => ({ ...this.row(segment), similarity: cosine(queryEmbedding, segment.embedding) }))
+          .sort((a, b) => b.similarity - a.similarity);
+        return Promise.resolve({ data: rows.slice(0, limit), error: null });
+      }
+      case "search_video_segments_fts": {
+        const query = parseTsQuery(String(args.search_query));
+        const rows = scoped
+          .filter((segment) => matches(query, searchDocument(segment)))
+          .map((segment) => ({ ...this.row(segment), rank: ftsRank(query, segment) }))
+          .sort((a, b) => b.rank - a.rank);
+        return Promise.resolve({ data: rows.slice(0, limit), error: null });
+      }
+      case "filter_video_segments": {
+        const offset = Number(args.match_offset ?? 0);
+        const rows = scoped.slice(offset, offset + limit).map((segment) => ({ ...this.row(segment), total_count: scoped.length }));
+        return Promise.resolve({ data: rows, error: null });
+      }
+      case "filter_segment_facets":
+        return Promise.resolve({ data: facetRows(scoped, args.bucket_starts as number[]), error: null });
+      default:
+        return Promise.resolve({ data: null, error: { message: `No fixture for RPC ${name}` } });
+    }
+  }
+
+  private row(segment: IndexedSegment) {
+    return {
+      id: segment.id,
+      video_id: segment.video_id,
+      video_title: segment.video.title,
+      video_path: segment.video.storage_path,
+      timestamp_seconds: segment.timestamp_seconds,
+      timestamp_display: timestampDisplay(segment.timestamp_seconds),
+      description: segment.description,
+      transcript: segment.transcript,
+      ocr_text: segment.ocr_text,
+      detected_objects: segment.detected_objects,
+    };
+  }
+}
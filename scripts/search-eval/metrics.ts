@@ -0,0 +1,53 @@
+// Ranking metrics over graded judgements: each relevant segment id maps to a
+// grade from 1 (somewhat relevant) to 3 (exactly what was asked for).
+export const CUTOFF = 10;
+
+export type Judgements = Record<string, number>;
+
+export interface QueryMetrics {
+  ndcg: number;
+  mrr: number;
+  recall: number;
+}
+
+export const METRIC_NAMES: (keyof QueryMetrics)[] = ["ndcg", "mrr", "recall"];
+
+function dcg(grades: number[]): number {
+  return grades.reduce((sum, grade, index) => sum + (2 ** grade - 1) / Math.log2(index + 2), 0);
+}
+
+// nDCG@10: graded gain, discounted by position, relative to the ideal order
+export function ndcgAtCutoff(ranked: string[], judgements: Judgements): number {
+  const gains = ranked.slice(0, CUTOFF).map((id) => judgements[id] || 0);
+  const ideal = Object.values(judgements).sort((a, b) => b - a).slice(0, CUTOFF);
+  const idealDcg = dcg(ideal);
+  return idealDcg === 0 ? 0 : dcg(gains) / idealDcg;
+}
+
+// Reciprocal rank of the first relevant result, 0 when none is returned
+export function reciprocalRank(ranked: string[], judgements: Judgements): number {
+  const index = ranked.findIndex((id) => (judgements[id] || 0) > 0);
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+// Recall@10: share of the relevant segments found in the first page
+export function recallAtCutoff(ranked: string[], judgements: Judgements): number {
+  const relevant = Object.keys(judgements).filter((id) => judgements[id] > 0);
+  if (relevant.length === 0) return 0;
+  const top = new Set(ranked.slice(0, CUTOFF));
+  return relevant.filter((id) => top.has(id)).length / relevant.length;
+}
+
+export function evaluateRanking(ranked: string[], judgements: Judgements): QueryMetrics {
+  return {
+    ndcg: ndcgAtCutoff(ranked, judgements),
+    mrr: reciprocalRank(ranked, judgements),
+    recall: recallAtCutoff(ranked, judgements),
+  };
+}
+
+export function meanMetrics(all: QueryMetrics[]): QueryMetrics {
+  const mean = (name: keyof QueryMetrics) =>
+    all.length === 0 ? 0 : all.reduce((sum, metrics) => sum + metrics[name], 0) / all.length;
+  return { ndcg: mean("ndcg"), mrr: mean("mrr"), recall: mean("recall") };
+}
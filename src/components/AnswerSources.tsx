@@ -0,0 +1,53 @@
+import { useState } from "react";
+import { ChevronDown, ChevronRight, Layers } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { VideoSegment } from "@/lib/api";
+
+interface AnswerSourcesProps {
+  segmentIds: string[];
+  // Every analyzed segment of the video, to tell a narrowed context apart
+  // from the whole video and to label the segments used
+  segments: VideoSegment[];
+  onTimestampClick: (timestamp: string) => void;
+}
+
+// The segments an answer was built from. Long videos are answered from the
+// parts retrieved for the question, listed here so they can be checked.
+export function AnswerSources({ segmentIds, segments, onTimestampClick }: AnswerSourcesProps) {
+  const [open, setOpen] = useState(false);
+
+  const used = new Set(segmentIds);
+  const sources = segments.filter((segment) => used.has(segment.id));
+  if (segmentIds.length === 0) return null;
+
+  if (segments.length > 0 && sources.length === segments.length) {
+    return (
+      <p className="flex items-center gap-1 mt-2 text-xs text-muted-foreground">
+        <Layers className="w-3 h-3" />
+        Answered from the whole video
+      </p>
+    );
+  }
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mt-2">
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors">
+        {open ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        <Layers className="w-3 h-3" />
+        Answered from {segmentIds.length} of {segments.length || "?"} moments
+      </CollapsibleTrigger>
+      <CollapsibleContent className="flex flex-wrap gap-1 mt-2">
+        {sources.map((segment) => (
+          <button
+            key={segment.id}
+            onClick={() => onTimestampClick(segment.timestamp_display)}
+            title={segment.description || undefined}
+            className="px-1.5 py-0.5 rounded bg-background/60 hover:bg-background text-xs font-mono text-muted-foreground transition-colors"
+          >
+            {segment.timestamp_display}
+          </button>
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
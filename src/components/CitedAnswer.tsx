@@ -0,0 +1,102 @@
+import { AlertTriangle, Clock } from "lucide-react";
+import { QACitation, VideoSegment } from "@/lib/api";
+import { cn } from "@/lib/utils";
+
+interface CitedAnswerProps<C extends QACitation> {
+  answer: string;
+  citations: C[];
+  // The video's analyzed segments, to show each quote where it was found;
+  // without them the quote is shown on its own
+  segments?: VideoSegment[];
+  // Names the video a citation comes from, for answers across videos
+  source?: (citation: C) => string;
+  onCitationClick: (citation: C) => void;
+}
+
+const EVIDENCE_CONTEXT = 40;
+
+// The quote in its surrounding text, trimmed to a few words either side
+function EvidenceSnippet({ citation, segment }: { citation: QACitation; segment?: VideoSegment }) {
+  const text = citation.evidence && segment ? segment[citation.evidence.field] : null;
+  if (!citation.evidence || !text) {
+    return <span className="italic">“{citation.quote}”</span>;
+  }
+
+  const { start, end } = citation.evidence;
+  const from = Math.max(0, start - EVIDENCE_CONTEXT);
+  const to = Math.min(text.length, end + EVIDENCE_CONTEXT);
+  return (
+    <span>
+      {from > 0 && "…"}
+      {text.slice(from, start)}
+      <mark className="bg-primary/20 text-foreground rounded-sm px-0.5">{text.slice(start, end)}</mark>
+      {text.slice(end, to)}
+      {to < text.length && "…"}
+    </span>
+  );
+}
+
+// An answer with numbered citation markers linked to the segments they cite,
+// followed by the evidence quoted from each. Citations whose quote could not
+// be found in the segment are flagged.
+export function CitedAnswer<C extends QACitation>({
+  answer,
+  citations,
+  segments = [],
+  source,
+  onCitationClick,
+}: CitedAnswerProps<C>) {
+  const byNumber = new Map(citations.map((citation) => [citation.number, citation]));
+  const segmentsById = new Map(segments.map((segment) => [segment.id, segment]));
+
+  return (
+    <>
+      <p className="text-sm whitespace-pre-wrap">
+        {answer.split(/(\[\d+\])/).map((part, index) => {
+          const citation = byNumber.get(Number(part.match(/^\[(\d+)\]$/)?.[1]));
+          if (!citation) return part;
+          return (
+            <button
+              key={index}
+              onClick={() => onCitationClick(citation)}
+              title={citation.verified ? `Go to ${citation.timestamp_display}` : "Quote not found in this moment"}
+              className={cn(
+                "align-super text-[0.65rem] font-mono px-0.5 rounded transition-colors",
+                citation.verified ? "text-primary hover:bg-primary/20" : "text-yellow-500 hover:bg-yellow-500/20"
+              )}
+            >
+              [{citation.number}]
+            </button>
+          );
+        })}
+      </p>
+
+      {citations.length > 0 && (
+        <ol className="space-y-1.5 mt-3 pt-3 border-t border-border/20">
+          {citations.map((citation) => (
+            <li key={citation.number}>
+              <button
+                onClick={() => onCitationClick(citation)}
+                className="flex items-start gap-1.5 w-full text-left text-xs text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <span className="font-mono">[{citation.number}]</span>
+                {source && <span className="truncate max-w-[40%] flex-shrink-0">{source(citation)}</span>}
+                <span className="flex items-center gap-1 font-mono text-primary flex-shrink-0">
+                  <Clock className="w-3 h-3" />
+                  {citation.timestamp_display}
+                </span>
+                <EvidenceSnippet citation={citation} segment={segmentsById.get(citation.segment_id)} />
+              </button>
+              {!citation.verified && (
+                <p className="flex items-center gap-1 ml-6 mt-0.5 text-xs text-yellow-500">
+                  <AlertTriangle className="w-3 h-3" />
+                  Quote not found in this moment
+                </p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </>
+  );
+}
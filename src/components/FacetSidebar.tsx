@@ -0,0 +1,90 @@
+import { Tag, Film, Clock } from "lucide-react";
+import { SearchFacets } from "@/lib/api";
+import { hasFacetTerm } from "@/lib/query-terms";
+import { cn } from "@/lib/utils";
+
+interface FacetSidebarProps {
+  facets: SearchFacets;
+  query: string;
+  onToggleTerm: (term: string) => void;
+}
+
+// Facet values become query-syntax terms, so refining a search is visible
+// (and editable) in the search box itself
+function objectTerm(name: string) {
+  return /^[\p{L}\p{N}_-]+$/u.test(name) ? `object:${name}` : `object:"${name.replace(/"/g, "")}"`;
+}
+
+function videoTerm(title: string) {
+  return `video:"${title.replace(/"/g, "")}"`;
+}
+
+function timeTerm(start: number, end: number | null) {
+  const clock = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+  return end === null ? `after:${clock(start)}` : `after:${clock(start)} before:${clock(end)}`;
+}
+
+const MAX_FACET_VALUES = 12;
+
+// Most frequent first; facets merged from several pages arrive unsorted
+function topValues<T extends { value: string; count: number }>(values: T[]): T[] {
+  return [...values].sort((a, b) => b.count - a.count || a.value.localeCompare(b.value)).slice(0, MAX_FACET_VALUES);
+}
+
+export function FacetSidebar({ facets, query, onToggleTerm }: FacetSidebarProps) {
+  const groups = [
+    {
+      title: "Objects",
+      icon: Tag,
+      entries: topValues(facets.objects).map((facet) => ({ key: facet.value, label: facet.value, count: facet.count, term: objectTerm(facet.value) })),
+    },
+    {
+      title: "Videos",
+      icon: Film,
+      entries: topValues(facets.videos).map((facet) => ({ key: facet.video_id, label: facet.value, count: facet.count, term: videoTerm(facet.value) })),
+    },
+    {
+      title: "Time",
+      icon: Clock,
+      entries: facets.time.map((facet) => ({
+        key: facet.label,
+        label: facet.label,
+        count: facet.count,
+        term: timeTerm(facet.start_seconds, facet.end_seconds),
+      })),
+    },
+  ];
+
+  return (
+    <aside className="w-44 flex-shrink-0 space-y-4 overflow-y-auto scrollbar-thin pr-1">
+      {groups.map(({ title, icon: Icon, entries }) =>
+        entries.length > 0 ? (
+          <div key={title} className="space-y-1">
+            <h5 className="flex items-center gap-1.5 text-xs font-medium uppercase tracking-wide text-muted-foreground px-2">
+              <Icon className="w-3 h-3" />
+              {title}
+            </h5>
+            {entries.map((entry) => {
+              const isActive = hasFacetTerm(query, entry.term);
+              return (
+                <button
+                  key={entry.key}
+                  onClick={() => onToggleTerm(entry.term)}
+                  title={isActive ? `Remove ${entry.term}` : `Add ${entry.term}`}
+                  className={cn(
+                    "w-full flex items-center justify-between gap-2 px-2 py-1 rounded-md text-sm text-left transition-colors",
+                    "hover:bg-muted/50",
+                    isActive && "bg-primary/10 text-primary"
+                  )}
+                >
+                  <span className="truncate">{entry.label}</span>
+                  <span className="text-xs font-mono text-muted-foreground">{entry.count}</span>
+                </button>
+              );
+            })}
+          </div>
+        ) : null
+      )}
+    </aside>
+  );
+}
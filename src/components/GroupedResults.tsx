@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { ChevronDown, ChevronRight, Clock, Film } from "lucide-react";
+import { ResultRange, TimeRange, VideoGroup } from "@/lib/api";
+
+interface GroupedResultsProps {
+  groups: VideoGroup[];
+  onRangeClick: (videoId: string, timestamp: number, range?: TimeRange) => void;
+}
+
+export function GroupedResults({ groups, onRangeClick }: GroupedResultsProps) {
+  // The best-scoring video starts expanded
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set(groups.slice(0, 1).map((g) => g.video_id)));
+
+  const toggle = (videoId: string) => {
+    const next = new Set(expanded);
+    if (next.has(videoId)) next.delete(videoId);
+    else next.add(videoId);
+    setExpanded(next);
+  };
+
+  const handleRangeClick = (group: VideoGroup, range: ResultRange) => {
+    const span = range.end_seconds > range.start_seconds ? { start: range.start_seconds, end: range.end_seconds } : undefined;
+    onRangeClick(group.video_id, range.start_seconds, span);
+  };
+
+  return (
+    <div className="space-y-3">
+      {groups.map((group) => {
+        const isOpen = expanded.has(group.video_id);
+        return (
+          <div key={group.video_id} className="rounded-xl border border-border/50 bg-card/50">
+            <button
+              onClick={() => toggle(group.video_id)}
+              className="w-full flex items-center gap-3 p-4 text-left hover:bg-muted/30 rounded-xl transition-colors"
+            >
+              {isOpen ? (
+                <ChevronDown className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+              ) : (
+                <ChevronRight className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+              )}
+              <Film className="w-4 h-4 text-primary flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <h4 className="font-medium text-foreground truncate">{group.video_title}</h4>
+                <p className="text-xs text-muted-foreground">
+                  {group.hit_count} {group.hit_count === 1 ? "hit" : "hits"} in {group.ranges.length}{" "}
+                  {group.ranges.length === 1 ? "range" : "ranges"}
+                </p>
+              </div>
+              <span className="text-xs text-muted-foreground font-mono">
+                {(group.relevance_score * 100).toFixed(0)}%
+              </span>
+            </button>
+
+            {isOpen && (
+              <div className="px-4 pb-4 space-y-2 animate-fade-in">
+                {group.ranges.map((range) => (
+                  <div
+                    key={range.start_seconds}
+                    onClick={() => handleRangeClick(group, range)}
+                    className="search-result-card"
+                  >
+                    <div className="flex items-start gap-3">
+                      <div className="flex-shrink-0 px-2 h-8 rounded-lg bg-muted flex items-center justify-center font-mono text-xs text-primary">
+                        <Clock className="w-3 h-3 mr-1" />
+                        {range.start_display}
+                        {range.end_seconds > range.start_seconds && `–${range.end_display}`}
+                      </div>
+                      <div className="flex-1 min-w-0 space-y-1">
+                        {range.results.map((result) => (
+                          <p key={result.id} className="text-sm text-muted-foreground line-clamp-1">
+                            {result.description || result.transcript}
+                          </p>
+                        ))}
+                      </div>
+                      <span className="text-xs text-muted-foreground font-mono">
+                        {(range.relevance_score * 100).toFixed(0)}%
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
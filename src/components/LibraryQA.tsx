@@ -0,0 +1,269 @@
+import { useState, useRef, useEffect } from "react";
+import { Send, Loader2, Library, Bot, User, Square, ChevronDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CitedAnswer } from "@/components/CitedAnswer";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { askLibraryQuestion, LibraryCitation, Video } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+interface Message {
+  role: "user" | "assistant";
+  content: string;
+  // Checked citations behind the answer's [n] markers
+  citations?: LibraryCitation[];
+  // Cut short with the stop button
+  stopped?: boolean;
+}
+
+interface LibraryQAProps {
+  open: boolean;
+  onClose: () => void;
+  // Ready videos, to pick which ones a question is asked of
+  videos: Video[];
+  onCitationClick: (videoId: string, timestamp: number) => void;
+}
+
+// Questions asked across the whole library or a chosen set of videos. Answers
+// cite the segments they draw on; clicking a citation opens its video there.
+export function LibraryQA({ open, onClose, videos, onCitationClick }: LibraryQAProps) {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [input, setInput] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  // Videos questions are limited to; empty asks the whole library
+  const [scope, setScope] = useState<string[]>([]);
+  const [streamingAnswer, setStreamingAnswer] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [messages, streamingAnswer, open]);
+
+  // Deleted or reprocessing videos drop out of the scope
+  const scopedIds = scope.filter((id) => videos.some((video) => video.id === id));
+
+  const toggleScope = (videoId: string) => {
+    setScope(scopedIds.includes(videoId) ? scopedIds.filter((id) => id !== videoId) : [...scopedIds, videoId]);
+  };
+
+  const handleSubmit = async () => {
+    if (!input.trim() || isLoading) return;
+
+    const question = input.trim();
+    setInput("");
+    setMessages((prev) => [...prev, { role: "user", content: question }]);
+    setIsLoading(true);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let streamed = "";
+
+    try {
+      const { answer, citations } = await askLibraryQuestion(question, scopedIds, {
+        signal: controller.signal,
+        onToken: (text) => {
+          streamed += text;
+          setStreamingAnswer(streamed);
+        },
+      });
+      setMessages((prev) => [...prev, { role: "assistant", content: answer, citations }]);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // Stopped: keep what was written so far
+        if (streamed) {
+          setMessages((prev) => [...prev, { role: "assistant", content: streamed, stopped: true }]);
+        }
+        return;
+      }
+      toast({
+        title: "Failed to get answer",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+      setMessages((prev) => [
+        ...prev,
+        { role: "assistant", content: "Sorry, I couldn't process your question. Please try again." },
+      ]);
+    } finally {
+      abortRef.current = null;
+      setIsLoading(false);
+      setStreamingAnswer(null);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  const handleCitationClick = (citation: LibraryCitation) => {
+    onCitationClick(citation.video_id, citation.timestamp_seconds);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl h-[80vh] glass-strong border-border/50 overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-xl">
+            <Library className="w-5 h-5 text-primary" />
+            Ask Your Library
+          </DialogTitle>
+        </DialogHeader>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="w-fit gap-2" disabled={isLoading}>
+              {scopedIds.length === 0
+                ? "All videos"
+                : `${scopedIds.length} ${scopedIds.length === 1 ? "video" : "videos"}`}
+              <ChevronDown className="w-3 h-3" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-72 p-2">
+            <div className="flex items-center justify-between px-2 py-1">
+              <h4 className="text-sm font-medium">Ask across</h4>
+              {scopedIds.length > 0 && (
+                <button
+                  onClick={() => setScope([])}
+                  className="text-xs text-muted-foreground hover:text-foreground"
+                >
+                  All videos
+                </button>
+              )}
+            </div>
+            {videos.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No videos ready yet</p>
+            ) : (
+              <div className="space-y-1 max-h-80 overflow-y-auto scrollbar-thin">
+                {videos.map((video) => (
+                  <label
+                    key={video.id}
+                    className="flex items-center gap-2 px-2 py-1.5 rounded-md hover:bg-muted/50 cursor-pointer"
+                  >
+                    <Checkbox
+                      checked={scopedIds.includes(video.id)}
+                      onCheckedChange={() => toggleScope(video.id)}
+                    />
+                    <span className="text-sm truncate">{video.title}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </PopoverContent>
+        </Popover>
+
+        {/* Messages */}
+        <div ref={scrollRef} className="flex-1 overflow-y-auto scrollbar-thin space-y-4 pr-1">
+          {messages.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Bot className="w-12 h-12 mx-auto mb-4 opacity-30" />
+              <p className="text-sm">Ask a question that spans your videos</p>
+              <p className="text-xs mt-2 opacity-70">
+                Example: "Which meetings mentioned the Q3 budget?"
+              </p>
+            </div>
+          ) : (
+            messages.map((msg, idx) => (
+              <div
+                key={idx}
+                className={cn(
+                  "flex gap-3 animate-fade-in",
+                  msg.role === "user" && "flex-row-reverse"
+                )}
+              >
+                <div
+                  className={cn(
+                    "w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0",
+                    msg.role === "user" ? "bg-primary" : "bg-muted"
+                  )}
+                >
+                  {msg.role === "user" ? (
+                    <User className="w-4 h-4 text-primary-foreground" />
+                  ) : (
+                    <Bot className="w-4 h-4 text-muted-foreground" />
+                  )}
+                </div>
+                <div
+                  className={cn(
+                    "max-w-[80%] rounded-2xl p-3",
+                    msg.role === "user"
+                      ? "bg-primary text-primary-foreground"
+                      : "bg-muted"
+                  )}
+                >
+                  {msg.citations && msg.citations.length > 0 ? (
+                    <CitedAnswer
+                      answer={msg.content}
+                      citations={msg.citations}
+                      source={(citation) => citation.video_title}
+                      onCitationClick={handleCitationClick}
+                    />
+                  ) : (
+                    <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
+                  )}
+                  {msg.stopped && <p className="text-xs text-muted-foreground italic mt-2">Stopped</p>}
+                </div>
+              </div>
+            ))
+          )}
+
+          {isLoading && (
+            <div className="flex gap-3 animate-fade-in">
+              <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center">
+                <Bot className="w-4 h-4 text-muted-foreground" />
+              </div>
+              {streamingAnswer ? (
+                <div className="max-w-[80%] bg-muted rounded-2xl p-3">
+                  <p className="text-sm whitespace-pre-wrap">
+                    {streamingAnswer}
+                    <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-muted-foreground/60 animate-pulse" />
+                  </p>
+                </div>
+              ) : (
+                <div className="bg-muted rounded-2xl p-3">
+                  <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Input */}
+        <div className="flex gap-2">
+          <Input
+            placeholder="Ask a question about your videos..."
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            disabled={isLoading}
+            className="bg-input border-border"
+          />
+          {isLoading ? (
+            <Button variant="outline" size="icon" onClick={() => abortRef.current?.abort()} title="Stop answering">
+              <Square className="w-4 h-4" />
+            </Button>
+          ) : (
+            <Button
+              variant="glow"
+              size="icon"
+              onClick={handleSubmit}
+              disabled={!input.trim()}
+            >
+              <Send className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
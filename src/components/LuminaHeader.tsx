@@ -1,12 +1,50 @@
-import { Search, Upload, Sparkles } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { Search, Upload, Sparkles, Bell, Library } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { SearchCacheMenu } from "@/components/SearchCacheMenu";
+import { getUnreadNotifications, markNotificationsRead, SearchNotification } from "@/lib/api";
 
 interface LuminaHeaderProps {
   onUploadClick: () => void;
   onSearchClick: () => void;
+  onAskClick: () => void;
+  onNotificationClick?: (videoId: string, timestamp: number) => void;
 }
 
-export function LuminaHeader({ onUploadClick, onSearchClick }: LuminaHeaderProps) {
+const NOTIFICATION_POLL_MS = 30000;
+
+export function LuminaHeader({ onUploadClick, onSearchClick, onAskClick, onNotificationClick }: LuminaHeaderProps) {
+  const [notifications, setNotifications] = useState<SearchNotification[]>([]);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      setNotifications(await getUnreadNotifications());
+    } catch (error) {
+      console.error("Failed to load notifications:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadNotifications();
+    const interval = setInterval(loadNotifications, NOTIFICATION_POLL_MS);
+    return () => clearInterval(interval);
+  }, [loadNotifications]);
+
+  const markRead = async (ids: string[]) => {
+    setNotifications(notifications.filter((n) => !ids.includes(n.id)));
+    try {
+      await markNotificationsRead(ids);
+    } catch (error) {
+      console.error("Failed to mark notifications read:", error);
+    }
+  };
+
+  const handleNotificationClick = (notification: SearchNotification) => {
+    markRead([notification.id]);
+    onNotificationClick?.(notification.video_id, Number(notification.top_timestamp_seconds));
+  };
+
   return (
     <header className="fixed top-0 left-0 right-0 z-50 glass-strong">
       <div className="container mx-auto px-6 py-4">
@@ -27,6 +65,52 @@ export function LuminaHeader({ onUploadClick, onSearchClick }: LuminaHeaderProps
 
           {/* Actions */}
           <div className="flex items-center gap-3">
+            <SearchCacheMenu />
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="glass" size="icon" className="relative" title="Watchlist notifications">
+                  <Bell className="w-4 h-4" />
+                  {notifications.length > 0 && (
+                    <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-primary text-primary-foreground text-xs flex items-center justify-center">
+                      {notifications.length > 99 ? "99+" : notifications.length}
+                    </span>
+                  )}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-80 p-2">
+                <div className="flex items-center justify-between px-2 py-1">
+                  <h4 className="text-sm font-medium">Watchlist matches</h4>
+                  {notifications.length > 0 && (
+                    <button
+                      onClick={() => markRead(notifications.map((n) => n.id))}
+                      className="text-xs text-muted-foreground hover:text-foreground"
+                    >
+                      Mark all read
+                    </button>
+                  )}
+                </div>
+                {notifications.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">No new matches</p>
+                ) : (
+                  <div className="space-y-1 max-h-80 overflow-y-auto scrollbar-thin">
+                    {notifications.map((notification) => (
+                      <button
+                        key={notification.id}
+                        onClick={() => handleNotificationClick(notification)}
+                        className="w-full text-left px-2 py-1.5 rounded-md hover:bg-muted/50"
+                      >
+                        <p className="text-sm truncate">
+                          <span className="font-medium">{notification.saved_search_name}</span>
+                          {" "}matched {notification.match_count}{" "}
+                          {notification.match_count === 1 ? "moment" : "moments"}
+                        </p>
+                        <p className="text-xs text-muted-foreground truncate">in {notification.video_title}</p>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </PopoverContent>
+            </Popover>
             <Button 
               variant="glass" 
               size="default" 
@@ -36,6 +120,15 @@ export function LuminaHeader({ onUploadClick, onSearchClick }: LuminaHeaderProps
               <Search className="w-4 h-4" />
               <span className="hidden sm:inline">Search</span>
             </Button>
+            <Button 
+              variant="glass" 
+              size="default" 
+              onClick={onAskClick}
+              className="gap-2"
+            >
+              <Library className="w-4 h-4" />
+              <span className="hidden sm:inline">Ask</span>
+            </Button>
             <Button 
               variant="glow" 
               size="default" 
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { Loader2, Quote, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { searchPhrase, PhraseMatch } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+
+interface PhraseSearchProps {
+  videoId?: string;
+  onMatchClick: (match: PhraseMatch) => void;
+}
+
+// Exact words spoken, timed to the word: unlike a moment search, nothing is
+// paraphrased or ranked, so every occurrence is listed in video order
+export function PhraseSearch({ videoId, onMatchClick }: PhraseSearchProps) {
+  const [phrase, setPhrase] = useState("");
+  const [matches, setMatches] = useState<PhraseMatch[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const { toast } = useToast();
+
+  const handleSearch = async () => {
+    if (!phrase.trim()) {
+      toast({
+        title: "Enter a phrase",
+        description: "Type the exact words that were spoken",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSearching(true);
+    try {
+      const response = await searchPhrase(phrase.trim(), videoId);
+      setMatches(response.matches);
+      setTruncated(response.truncated);
+
+      if (response.matches.length === 0) {
+        toast({
+          title: "Phrase not found",
+          description: "Nobody says these exact words in the analyzed videos",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Search failed",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col gap-4">
+      <div className="flex gap-2 py-2">
+        <div className="relative flex-1">
+          <Quote className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Exact words spoken, e.g. we never signed that contract"
+            value={phrase}
+            onChange={(e) => setPhrase(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+            className="pl-10 bg-input border-border"
+          />
+        </div>
+        <Button variant="glow" onClick={handleSearch} disabled={isSearching}>
+          {isSearching ? <Loader2 className="w-4 h-4 animate-spin" /> : "Find phrase"}
+        </Button>
+      </div>
+
+      {/* Occurrences */}
+      <div className="flex-1 overflow-y-auto scrollbar-thin space-y-3 py-2">
+        {matches.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {truncated
+              ? `First ${matches.length} occurrences`
+              : `${matches.length} ${matches.length === 1 ? "occurrence" : "occurrences"}`}
+          </p>
+        )}
+
+        {matches.length > 0 ? (
+          matches.map((match) => (
+            <div
+              key={`${match.video_id}-${match.start_seconds}`}
+              onClick={() => onMatchClick(match)}
+              className="search-result-card"
+            >
+              <div className="flex items-start gap-4">
+                <div
+                  className="flex-shrink-0 px-2 h-12 rounded-lg bg-muted flex items-center justify-center font-mono text-sm text-primary"
+                  title={`${match.start_display}–${match.end_display}`}
+                >
+                  <Clock className="w-3 h-3 mr-1" />
+                  {match.start_display}
+                </div>
+
+                <div className="flex-1 min-w-0 space-y-2">
+                  <h4 className="font-medium text-foreground truncate">{match.video_title}</h4>
+                  <p className="text-sm text-muted-foreground">
+                    {match.context_before && <>…{match.context_before} </>}
+                    <mark className="bg-primary/20 text-foreground rounded-sm px-0.5">{match.spoken}</mark>
+                    {match.context_after && <> {match.context_after}…</>}
+                  </p>
+                </div>
+              </div>
+            </div>
+          ))
+        ) : (
+          <div className="text-center py-12 text-muted-foreground">
+            <p>Find exactly where words were spoken</p>
+            <p className="text-sm mt-1">Matches ignore case and punctuation, nothing else</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { History, Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { deleteConversation, getConversations, QAConversation } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+interface QAThreadsMenuProps {
+  videoId: string;
+  activeId: string | null;
+  disabled?: boolean;
+  onResume: (conversation: QAConversation) => void;
+  onDeleted: (conversationId: string) => void;
+}
+
+// Past Q&A threads of a video: resume one to keep asking follow-ups, or delete it
+export function QAThreadsMenu({ videoId, activeId, disabled, onResume, onDeleted }: QAThreadsMenuProps) {
+  const [conversations, setConversations] = useState<QAConversation[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+
+  const fail = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const loadConversations = async () => {
+    setIsLoading(true);
+    try {
+      setConversations(await getConversations(videoId));
+    } catch (error) {
+      fail("Failed to load conversations", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async (conversation: QAConversation) => {
+    try {
+      await deleteConversation(conversation.id);
+      setConversations(conversations.filter((c) => c.id !== conversation.id));
+      onDeleted(conversation.id);
+    } catch (error) {
+      fail("Failed to delete conversation", error);
+    }
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (isOpen) loadConversations();
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" disabled={disabled} title="Past conversations">
+          <History className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-2">
+        {isLoading && conversations.length === 0 ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : conversations.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No conversations yet</p>
+        ) : (
+          <div className="space-y-1 max-h-80 overflow-y-auto scrollbar-thin">
+            {conversations.map((conversation) => (
+              <div
+                key={conversation.id}
+                className={cn(
+                  "flex items-center gap-1 rounded-md hover:bg-muted/50 pr-1",
+                  conversation.id === activeId && "bg-muted"
+                )}
+              >
+                <button
+                  onClick={() => {
+                    setOpen(false);
+                    onResume(conversation);
+                  }}
+                  className="flex-1 min-w-0 text-left px-2 py-1.5"
+                >
+                  <p className="text-sm truncate">{conversation.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(conversation.updated_at).toLocaleString()}
+                  </p>
+                </button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                  onClick={() => handleDelete(conversation)}
+                  title="Delete"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { Bookmark, BookmarkPlus, Bell, BellOff, Pencil, Trash2, Check, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  deleteSavedSearch,
+  getSavedSearches,
+  renameSavedSearch,
+  saveSearch,
+  setSavedSearchWatch,
+  SavedSearch,
+} from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+interface SavedSearchesMenuProps {
+  query: string;
+  onRun: (savedSearch: SavedSearch) => void;
+}
+
+export function SavedSearchesMenu({ query, onRun }: SavedSearchesMenuProps) {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [listOpen, setListOpen] = useState(false);
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [watch, setWatch] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const { toast } = useToast();
+
+  const fail = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const loadSavedSearches = async () => {
+    setIsLoading(true);
+    try {
+      setSavedSearches(await getSavedSearches());
+    } catch (error) {
+      fail("Failed to load saved searches", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      await saveSearch(name.trim() || query.trim(), query.trim(), {}, watch);
+      toast({
+        title: "Search saved",
+        description: watch ? "You'll be notified when new uploads match" : undefined,
+      });
+      setSaveOpen(false);
+      setName("");
+      setWatch(false);
+    } catch (error) {
+      fail("Failed to save search", error);
+    }
+  };
+
+  const handleRename = async (savedSearch: SavedSearch) => {
+    const newName = renameValue.trim();
+    setRenamingId(null);
+    if (!newName || newName === savedSearch.name) return;
+
+    try {
+      await renameSavedSearch(savedSearch.id, newName);
+      setSavedSearches(savedSearches.map((s) => (s.id === savedSearch.id ? { ...s, name: newName } : s)));
+    } catch (error) {
+      fail("Failed to rename saved search", error);
+    }
+  };
+
+  const handleWatchToggle = async (savedSearch: SavedSearch) => {
+    try {
+      await setSavedSearchWatch(savedSearch.id, !savedSearch.watch);
+      setSavedSearches(savedSearches.map((s) => (s.id === savedSearch.id ? { ...s, watch: !s.watch } : s)));
+    } catch (error) {
+      fail("Failed to update saved search", error);
+    }
+  };
+
+  const handleDelete = async (savedSearch: SavedSearch) => {
+    try {
+      await deleteSavedSearch(savedSearch.id);
+      setSavedSearches(savedSearches.filter((s) => s.id !== savedSearch.id));
+    } catch (error) {
+      fail("Failed to delete saved search", error);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      {/* Save the current query */}
+      <Popover open={saveOpen} onOpenChange={setSaveOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon" disabled={!query.trim()} title="Save this search">
+            <BookmarkPlus className="w-4 h-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="space-y-3">
+          <Input
+            placeholder={query.trim() || "Name"}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSave()}
+            className="bg-input"
+          />
+          <div className="flex items-center gap-2">
+            <Switch id="watch-search" checked={watch} onCheckedChange={setWatch} />
+            <Label htmlFor="watch-search" className="text-sm text-muted-foreground">
+              Notify me about new uploads
+            </Label>
+          </div>
+          <Button variant="glow" size="sm" className="w-full" onClick={handleSave}>
+            Save search
+          </Button>
+        </PopoverContent>
+      </Popover>
+
+      {/* Saved searches */}
+      <Popover
+        open={listOpen}
+        onOpenChange={(open) => {
+          setListOpen(open);
+          if (open) loadSavedSearches();
+        }}
+      >
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon" title="Saved searches">
+            <Bookmark className="w-4 h-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 p-2">
+          {isLoading && savedSearches.length === 0 ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : savedSearches.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No saved searches yet</p>
+          ) : (
+            <div className="space-y-1 max-h-80 overflow-y-auto scrollbar-thin">
+              {savedSearches.map((savedSearch) => (
+                <div key={savedSearch.id} className="group flex items-center gap-1 rounded-md hover:bg-muted/50 pr-1">
+                  {renamingId === savedSearch.id ? (
+                    <div className="flex-1 flex items-center gap-1 p-1">
+                      <Input
+                        autoFocus
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") handleRename(savedSearch);
+                          if (e.key === "Escape") setRenamingId(null);
+                        }}
+                        className="h-8 bg-input"
+                      />
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleRename(savedSearch)}>
+                        <Check className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => {
+                        setListOpen(false);
+                        onRun(savedSearch);
+                      }}
+                      className="flex-1 min-w-0 text-left px-2 py-1.5"
+                    >
+                      <p className="text-sm truncate">{savedSearch.name}</p>
+                      <p className="text-xs font-mono text-muted-foreground truncate">{savedSearch.query}</p>
+                    </button>
+                  )}
+
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className={cn("h-7 w-7", savedSearch.watch ? "text-primary" : "text-muted-foreground")}
+                    onClick={() => handleWatchToggle(savedSearch)}
+                    title={savedSearch.watch ? "Stop watching new uploads" : "Watch new uploads"}
+                  >
+                    {savedSearch.watch ? <Bell className="w-3.5 h-3.5" /> : <BellOff className="w-3.5 h-3.5" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-muted-foreground"
+                    onClick={() => {
+                      setRenamingId(savedSearch.id);
+                      setRenameValue(savedSearch.name);
+                    }}
+                    title="Rename"
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                    onClick={() => handleDelete(savedSearch)}
+                    title="Delete"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
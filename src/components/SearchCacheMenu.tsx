@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { Database, Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { clearSearchCache, getSearchCacheStats, SearchCacheStats } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+
+// Admin controls for the server-side search cache: usage and invalidation
+export function SearchCacheMenu() {
+  const [stats, setStats] = useState<SearchCacheStats | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+  const { toast } = useToast();
+
+  const loadStats = async () => {
+    try {
+      setStats(await getSearchCacheStats());
+    } catch (error) {
+      console.error("Failed to load search cache stats:", error);
+    }
+  };
+
+  const handleClear = async () => {
+    setIsClearing(true);
+    try {
+      const removed = await clearSearchCache();
+      toast({
+        title: "Search cache cleared",
+        description: `${removed} cached ${removed === 1 ? "search" : "searches"} removed`,
+      });
+      await loadStats();
+    } catch (error) {
+      toast({
+        title: "Failed to clear search cache",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  return (
+    <Popover onOpenChange={(open) => open && loadStats()}>
+      <PopoverTrigger asChild>
+        <Button variant="glass" size="icon" title="Search cache">
+          <Database className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 space-y-3">
+        <p className="text-sm font-medium">Search cache</p>
+        {stats ? (
+          <dl className="grid grid-cols-[1fr_auto] gap-y-1 text-sm">
+            <dt className="text-muted-foreground">Index version</dt>
+            <dd className="font-mono">{stats.index_version}</dd>
+            <dt className="text-muted-foreground">Cached searches</dt>
+            <dd className="font-mono">{stats.entries}</dd>
+            <dt className="text-muted-foreground">Hits</dt>
+            <dd className="font-mono">{stats.hits}</dd>
+          </dl>
+        ) : (
+          <div className="flex justify-center py-2">
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Entries expire on their own when analyzed segments change. Clear the cache after changing the ranking
+          model or prompts.
+        </p>
+        <Button variant="outline" size="sm" className="w-full" onClick={handleClear} disabled={isClearing}>
+          {isClearing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+          Clear cache
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,29 +1,105 @@
-import { useState } from "react";
-import { Search, Filter, Loader2, Clock, Eye, FileText, Tag } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Search, Loader2, Clock, Eye, FileText, Tag, ScanText, ImagePlus, ScanSearch, X, Zap } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { searchVideos, SearchResult, SearchFilters } from "@/lib/api";
+import { SequenceSearch } from "@/components/SequenceSearch";
+import { PhraseSearch } from "@/components/PhraseSearch";
+import { FacetSidebar } from "@/components/FacetSidebar";
+import { GroupedResults } from "@/components/GroupedResults";
+import { SavedSearchesMenu } from "@/components/SavedSearchesMenu";
+import { WhyThisResult } from "@/components/WhyThisResult";
+import {
+  runSavedSearch,
+  searchByFrame,
+  searchByImage,
+  searchVideos,
+  SearchResult,
+  SearchFacets,
+  VideoGroup,
+  ResultRange,
+  SavedSearch,
+  SearchResponse,
+  SearchProgress,
+  HighlightedField,
+  SearchQueryError,
+  QuerySyntaxError,
+  SequenceMatch,
+  PhraseMatch,
+  TimeRange,
+} from "@/lib/api";
+import { toggleFacetTerm } from "@/lib/query-terms";
 import { useToast } from "@/hooks/use-toast";
+import { useFlipReorder } from "@/hooks/use-flip-reorder";
 import { cn } from "@/lib/utils";
 
 interface SearchPanelProps {
   open: boolean;
   onClose: () => void;
   videoId?: string;
-  onResultClick: (videoId: string, timestamp: number) => void;
+  onResultClick: (videoId: string, timestamp: number, range?: TimeRange) => void;
+  // A moment to search visually similar frames for, set from the player
+  frameQuery?: FrameQuery;
 }
 
-export function SearchPanel({ open, onClose, videoId, onResultClick }: SearchPanelProps) {
+export interface FrameQuery {
+  videoId: string;
+  timestampSeconds: number;
+  label: string;
+}
+
+// Query-by-frame input; visual searches always cover the whole library
+type VisualQuery = { kind: "image"; file: File; previewUrl: string } | ({ kind: "frame" } & FrameQuery);
+
+type SearchMode = "moments" | "sequence" | "phrase";
+
+const MODE_LABELS: Record<SearchMode, string> = {
+  moments: "Moments",
+  sequence: "Sequence",
+  phrase: "Exact words",
+};
+
+// Display options that apply to every kind of search; toggling one re-runs
+// the current search
+interface ResultOptions {
+  grouped: boolean;
+  explain: boolean;
+}
+
+export function SearchPanel({ open, onClose, videoId, onResultClick, frameQuery }: SearchPanelProps) {
+  const [mode, setMode] = useState<SearchMode>("moments");
   const [query, setQuery] = useState("");
   const [results, setResults] = useState<SearchResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
-  const [showFilters, setShowFilters] = useState(false);
-  const [filters, setFilters] = useState<SearchFilters>({});
+  // Interim results are showing while the reranker works through the rest
+  const [isRanking, setIsRanking] = useState(false);
+  const [facets, setFacets] = useState<SearchFacets | undefined>(undefined);
+  const [groupByVideo, setGroupByVideo] = useState(false);
+  const [explainResults, setExplainResults] = useState(false);
+  const [groups, setGroups] = useState<VideoGroup[]>([]);
+  const [syntaxErrors, setSyntaxErrors] = useState<QuerySyntaxError[]>([]);
+  const [visualQuery, setVisualQuery] = useState<VisualQuery | null>(null);
+  // Results passing minScore in all; ranked searches only know a lower bound
+  // until every candidate is ranked
+  const [total, setTotal] = useState({ count: 0, lowerBound: false });
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [searchId, setSearchId] = useState(0);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const resultsRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Fetches a further page of the current search; replaced by every new search
+  const fetchPageRef = useRef<(cursor: string) => Promise<SearchResponse>>();
   const { toast } = useToast();
+  const registerResult = useFlipReorder<HTMLDivElement>(results.map((result) => result.id));
 
-  const handleSearch = async () => {
-    if (!query.trim()) {
+  const currentOptions: ResultOptions = { grouped: groupByVideo, explain: explainResults };
+
+  const handleSearch = async (searchQuery = query, options = currentOptions, savedSearch?: SavedSearch) => {
+    if (!searchQuery.trim()) {
       toast({
         title: "Enter a search query",
         description: "Type what you're looking for in the video",
@@ -32,18 +108,66 @@ export function SearchPanel({ open, onClose, videoId, onResultClick }: SearchPan
       return;
     }
 
+    clearVisualQuery();
+    await runQuery((cursor, onProgress) => {
+      const searchOptions = { group: options.grouped, explain: options.explain, cursor, onProgress };
+      return savedSearch
+        ? runSavedSearch(savedSearch, videoId, searchOptions)
+        : searchVideos(searchQuery.trim(), videoId, undefined, searchOptions);
+    });
+  };
+
+  const handleVisualSearch = async (visual: VisualQuery, options = currentOptions) => {
+    await runQuery((cursor) => {
+      const searchOptions = { group: options.grouped, explain: options.explain, cursor };
+      return visual.kind === "image"
+        ? searchByImage(visual.file, undefined, searchOptions)
+        : searchByFrame(visual.videoId, visual.timestampSeconds, undefined, searchOptions);
+    });
+  };
+
+  // Runs the first page of a search. Text searches stream: their interim
+  // results replace the list as they arrive and reorder in place, so the
+  // previous results stay up until the first of them.
+  const runQuery = async (
+    search: (cursor?: string, onProgress?: (progress: SearchProgress) => void) => Promise<SearchResponse>
+  ) => {
+    fetchPageRef.current = search;
     setIsSearching(true);
+    setSyntaxErrors([]);
+    setNextCursor(null);
+
+    const handleProgress = (progress: SearchProgress) => {
+      if (fetchPageRef.current !== search) return;
+      setIsRanking(true);
+      setResults(progress.results);
+      setGroups([]);
+      setCachedAt(null);
+      if (progress.facets) setFacets(progress.facets);
+    };
+
     try {
-      const searchResults = await searchVideos(query.trim(), videoId, filters);
-      setResults(searchResults);
-      
-      if (searchResults.length === 0) {
+      const response = await search(undefined, handleProgress);
+      if (fetchPageRef.current !== search) return;
+      setResults(response.results);
+      setGroups(response.groups || []);
+      setFacets(response.facets);
+      setTotal({ count: response.total, lowerBound: response.totalIsLowerBound });
+      setNextCursor(response.nextCursor);
+      setCachedAt(response.cached && response.cachedAt ? response.cachedAt : null);
+      setSearchId((id) => id + 1);
+
+      if (response.results.length === 0) {
         toast({
           title: "No results found",
           description: "Try different keywords or remove filters",
         });
       }
     } catch (error) {
+      if (error instanceof SearchQueryError) {
+        setSyntaxErrors(error.syntaxErrors);
+        return;
+      }
       toast({
         title: "Search failed",
         description: error instanceof Error ? error.message : "An error occurred",
@@ -51,23 +175,142 @@ export function SearchPanel({ open, onClose, videoId, onResultClick }: SearchPan
       });
     } finally {
       setIsSearching(false);
+      setIsRanking(false);
     }
   };
 
+  const handleLoadMore = async () => {
+    const fetchPage = fetchPageRef.current;
+    if (!fetchPage || !nextCursor || isLoadingMore || isSearching) return;
+
+    setIsLoadingMore(true);
+    try {
+      const response = await fetchPage(nextCursor);
+      // A new search started while this page was loading
+      if (fetchPageRef.current !== fetchPage) return;
+
+      const seen = new Set(results.map((result) => result.id));
+      setResults([...results, ...response.results.filter((result) => !seen.has(result.id))]);
+      setGroups(mergeGroups(groups, response.groups || []));
+      setTotal({ count: response.total, lowerBound: response.totalIsLowerBound });
+      setNextCursor(response.nextCursor);
+    } catch (error) {
+      setNextCursor(null);
+      toast({
+        title: "Failed to load more results",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Infinite scroll: load the next page once the end of the list comes near.
+  // The observer reports the sentinel straight away, so a page that does not
+  // fill the panel pulls in the next one too.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || isLoadingMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) handleLoadMore();
+      },
+      { root: resultsRef.current, rootMargin: "200px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  });
+
+  const clearVisualQuery = () => {
+    if (visualQuery?.kind === "image") URL.revokeObjectURL(visualQuery.previewUrl);
+    setVisualQuery(null);
+  };
+
+  const startVisualSearch = (visual: VisualQuery) => {
+    clearVisualQuery();
+    setVisualQuery(visual);
+    setQuery("");
+    handleVisualSearch(visual);
+  };
+
+  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) {
+      startVisualSearch({ kind: "image", file, previewUrl: URL.createObjectURL(file) });
+    }
+  };
+
+  // "Find similar frames" in the player opens the panel with a frame query.
+  // Only a new frame query starts a search, so the effect reads the rest of
+  // the panel's state through a ref.
+  const frameQueryRef = useRef<(query: FrameQuery) => void>();
+  frameQueryRef.current = (query) => {
+    if (!open) return;
+    setMode("moments");
+    startVisualSearch({ kind: "frame", ...query });
+  };
+
+  useEffect(() => {
+    if (frameQuery) frameQueryRef.current?.(frameQuery);
+  }, [frameQuery]);
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter") {
       handleSearch();
     }
   };
 
+  const handleRunSaved = (savedSearch: SavedSearch) => {
+    setQuery(savedSearch.query);
+    setSyntaxErrors([]);
+    handleSearch(savedSearch.query, currentOptions, savedSearch);
+  };
+
+  const handleOptionsChange = (options: ResultOptions) => {
+    setGroupByVideo(options.grouped);
+    setExplainResults(options.explain);
+    if (visualQuery) {
+      handleVisualSearch(visualQuery, options);
+    } else if (query.trim() && results.length > 0) {
+      handleSearch(query, options);
+    }
+  };
+
+  // Clicking a facet adds its term to the query, or removes it if present
+  const handleToggleTerm = (term: string) => {
+    const refined = toggleFacetTerm(query, term);
+    setQuery(refined);
+    setSyntaxErrors([]);
+    handleSearch(refined);
+  };
+
   const handleResultClick = (result: SearchResult) => {
     onResultClick(result.video_id, result.timestamp_seconds);
     onClose();
   };
 
+  const handleRangeClick = (videoId: string, timestamp: number, range?: TimeRange) => {
+    onResultClick(videoId, timestamp, range);
+    onClose();
+  };
+
+  const handleMatchClick = (match: SequenceMatch) => {
+    onResultClick(match.video_id, match.start_seconds, { start: match.start_seconds, end: match.end_seconds });
+    onClose();
+  };
+
+  // Seek to the first spoken word, not to the start of its segment
+  const handlePhraseClick = (match: PhraseMatch) => {
+    onResultClick(match.video_id, match.start_seconds, { start: match.start_seconds, end: match.end_seconds });
+    onClose();
+  };
+
   return (
     <Dialog open={open} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-2xl max-h-[85vh] glass-strong border-border/50 overflow-hidden flex flex-col">
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] glass-strong border-border/50 overflow-hidden flex flex-col">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2 text-xl">
             <Search className="w-5 h-5 text-primary" />
@@ -75,132 +318,366 @@ export function SearchPanel({ open, onClose, videoId, onResultClick }: SearchPan
           </DialogTitle>
         </DialogHeader>
 
-        <div className="space-y-4 py-2">
-          {/* Search Input */}
-          <div className="flex gap-2">
-            <div className="relative flex-1">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-              <Input
-                placeholder="Search for moments, objects, spoken words..."
-                value={query}
-                onChange={(e) => setQuery(e.target.value)}
-                onKeyDown={handleKeyDown}
-                className="pl-10 bg-input border-border"
-              />
-            </div>
-            <Button
-              variant="outline"
-              size="icon"
-              onClick={() => setShowFilters(!showFilters)}
-              className={cn(showFilters && "border-primary text-primary")}
-            >
-              <Filter className="w-4 h-4" />
-            </Button>
-            <Button variant="glow" onClick={handleSearch} disabled={isSearching}>
-              {isSearching ? (
-                <Loader2 className="w-4 h-4 animate-spin" />
-              ) : (
-                "Search"
-              )}
-            </Button>
+        <div className="flex items-center justify-between">
+          <div className="flex gap-1 p-1 rounded-lg bg-muted w-fit">
+            {(["moments", "sequence", "phrase"] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                className={cn(
+                  "px-3 py-1 rounded-md text-sm text-muted-foreground transition-colors",
+                  mode === option && "bg-background text-foreground shadow-sm"
+                )}
+              >
+                {MODE_LABELS[option]}
+              </button>
+            ))}
           </div>
 
-          {/* Filters */}
-          {showFilters && (
-            <div className="p-4 rounded-xl bg-muted/50 space-y-3 animate-fade-in">
-              <h4 className="text-sm font-medium text-muted-foreground">Object Detection Filter</h4>
-              <div className="flex gap-3">
-                <Input
-                  placeholder="Object name (e.g., person, car)"
-                  value={filters.objectName || ""}
-                  onChange={(e) => setFilters({ ...filters, objectName: e.target.value })}
-                  className="flex-1 bg-input"
+          {mode === "moments" && (
+            <div className="flex items-center gap-3">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="group-by-video"
+                  checked={groupByVideo}
+                  onCheckedChange={(grouped) => handleOptionsChange({ ...currentOptions, grouped })}
                 />
-                <Input
-                  type="number"
-                  placeholder="Min count"
-                  value={filters.minCount || ""}
-                  onChange={(e) => setFilters({ ...filters, minCount: parseInt(e.target.value) || undefined })}
-                  className="w-24 bg-input"
+                <Label htmlFor="group-by-video" className="text-sm text-muted-foreground">
+                  Group by video
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="explain-results"
+                  checked={explainResults}
+                  onCheckedChange={(explain) => handleOptionsChange({ ...currentOptions, explain })}
                 />
+                <Label htmlFor="explain-results" className="text-sm text-muted-foreground">
+                  Explain
+                </Label>
               </div>
+              <SavedSearchesMenu query={query} onRun={handleRunSaved} />
             </div>
           )}
         </div>
 
-        {/* Results */}
-        <div className="flex-1 overflow-y-auto scrollbar-thin space-y-3 py-2">
-          {results.length > 0 ? (
-            results.map((result) => (
-              <div
-                key={`${result.id}-${result.timestamp_seconds}`}
-                onClick={() => handleResultClick(result)}
-                className="search-result-card"
-              >
-                <div className="flex items-start gap-4">
-                  {/* Timestamp */}
-                  <div className="flex-shrink-0 w-20 h-12 rounded-lg bg-muted flex items-center justify-center font-mono text-sm text-primary">
-                    <Clock className="w-3 h-3 mr-1" />
-                    {result.timestamp_display}
-                  </div>
+        {mode === "sequence" ? (
+          <SequenceSearch videoId={videoId} onMatchClick={handleMatchClick} />
+        ) : mode === "phrase" ? (
+          <PhraseSearch videoId={videoId} onMatchClick={handlePhraseClick} />
+        ) : (
+          <>
+            <div className="space-y-4 py-2">
+              {/* Search Input */}
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    placeholder='Search moments, or use object:person>=2 ocr:"exit" after:1:30'
+                    value={query}
+                    onChange={(e) => {
+                      setQuery(e.target.value);
+                      setSyntaxErrors([]);
+                    }}
+                    onKeyDown={handleKeyDown}
+                    className={cn("pl-10 bg-input border-border", syntaxErrors.length > 0 && "border-destructive")}
+                  />
+                </div>
+                <input
+                  ref={imageInputRef}
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={handleImageSelect}
+                />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => imageInputRef.current?.click()}
+                  title="Search with an image"
+                >
+                  <ImagePlus className="w-4 h-4" />
+                </Button>
+                <Button variant="glow" onClick={() => handleSearch()} disabled={isSearching}>
+                  {isSearching ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    "Search"
+                  )}
+                </Button>
+              </div>
 
-                  {/* Content */}
-                  <div className="flex-1 min-w-0 space-y-2">
-                    <div className="flex items-center justify-between">
-                      <h4 className="font-medium text-foreground truncate">
-                        {result.video_title}
-                      </h4>
-                      <div className="flex items-center gap-1.5">
-                        <div 
-                          className="confidence-bar w-16"
-                          style={{ opacity: result.relevance_score }}
-                        />
-                        <span className="text-xs text-muted-foreground font-mono">
-                          {(result.relevance_score * 100).toFixed(0)}%
-                        </span>
-                      </div>
+              {/* Active query-by-frame input */}
+              {visualQuery && (
+                <div className="flex items-center gap-3 p-2 rounded-xl bg-muted/50 animate-fade-in">
+                  {visualQuery.kind === "image" ? (
+                    <img src={visualQuery.previewUrl} alt="" className="w-16 h-10 rounded object-cover" />
+                  ) : (
+                    <div className="w-16 h-10 rounded bg-muted flex items-center justify-center">
+                      <ScanSearch className="w-4 h-4 text-primary" />
                     </div>
+                  )}
+                  <p className="flex-1 min-w-0 text-sm text-muted-foreground truncate">
+                    Frames similar to {visualQuery.kind === "image" ? visualQuery.file.name : visualQuery.label}
+                  </p>
+                  <Button variant="ghost" size="icon" onClick={clearVisualQuery} title="Clear">
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
 
-                    {result.description && (
-                      <p className="text-sm text-muted-foreground line-clamp-2 flex items-start gap-1.5">
-                        <Eye className="w-3 h-3 mt-1 flex-shrink-0" />
-                        {result.description}
-                      </p>
-                    )}
+              {/* Syntax errors, highlighted in the query they were found in */}
+              {syntaxErrors.length > 0 && (
+                <div className="p-3 rounded-xl bg-destructive/10 space-y-2 animate-fade-in">
+                  <p className="font-mono text-sm whitespace-pre-wrap break-all">
+                    {highlightErrors(query.trim(), syntaxErrors)}
+                  </p>
+                  <ul className="text-xs text-destructive space-y-0.5">
+                    {syntaxErrors.map((syntaxError, index) => (
+                      <li key={index}>
+                        Column {syntaxError.start + 1}: {syntaxError.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
 
-                    {result.transcript && (
-                      <p className="text-sm text-muted-foreground line-clamp-1 flex items-start gap-1.5">
-                        <FileText className="w-3 h-3 mt-1 flex-shrink-0" />
-                        "{result.transcript}"
-                      </p>
+            <div className="flex-1 min-h-0 flex gap-4">
+              {results.length > 0 && facets && (
+                <FacetSidebar facets={facets} query={query} onToggleTerm={handleToggleTerm} />
+              )}
+
+              {/* Results */}
+              <div ref={resultsRef} className="flex-1 overflow-y-auto scrollbar-thin space-y-3 py-2">
+                {results.length > 0 && (
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span>
+                      {nextCursor
+                        ? `Showing ${results.length} of ${total.lowerBound ? "at least " : ""}${total.count} results`
+                        : `${results.length} ${results.length === 1 ? "result" : "results"}`}
+                    </span>
+                    {isRanking && (
+                      <span className="flex items-center gap-1 text-primary">
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                        Ranking…
+                      </span>
+                    )}
+                    {cachedAt && (
+                      <span
+                        className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-primary/10 text-primary"
+                        title={`Ranked ${new Date(cachedAt).toLocaleString()}`}
+                      >
+                        <Zap className="w-3 h-3" />
+                        Cached
+                      </span>
                     )}
+                  </div>
+                )}
+
+                {groupByVideo && groups.length > 0 ? (
+                  <GroupedResults
+                    key={searchId}
+                    groups={groups}
+                    onRangeClick={handleRangeClick}
+                  />
+                ) : results.length > 0 ? (
+                  results.map((result) => (
+                    <div
+                      key={`${result.id}-${result.timestamp_seconds}`}
+                      ref={registerResult(result.id)}
+                      onClick={() => handleResultClick(result)}
+                      className="search-result-card"
+                    >
+                      <div className="flex items-start gap-4">
+                        {/* Timestamp */}
+                        <div className="flex-shrink-0 w-20 h-12 rounded-lg bg-muted flex items-center justify-center font-mono text-sm text-primary">
+                          <Clock className="w-3 h-3 mr-1" />
+                          {result.timestamp_display}
+                        </div>
+
+                        {/* Content */}
+                        <div className="flex-1 min-w-0 space-y-2">
+                          <div className="flex items-center justify-between">
+                            <h4 className="font-medium text-foreground truncate">
+                              {result.video_title}
+                            </h4>
+                            <div className="flex items-center gap-1.5">
+                              {result.retrievers?.map((retriever) => (
+                                <span
+                                  key={retriever}
+                                  className="px-1.5 py-0.5 rounded bg-muted text-muted-foreground text-[10px] uppercase tracking-wide"
+                                  title={`Found by ${retriever} retrieval`}
+                                >
+                                  {retriever}
+                                </span>
+                              ))}
+                              <div 
+                                className="confidence-bar w-16"
+                                style={{ opacity: result.relevance_score }}
+                              />
+                              <span className="text-xs text-muted-foreground font-mono">
+                                {(result.relevance_score * 100).toFixed(0)}%
+                              </span>
+                            </div>
+                          </div>
+
+                          {result.description && (
+                            <p className="text-sm text-muted-foreground line-clamp-2 flex items-start gap-1.5">
+                              <Eye className="w-3 h-3 mt-1 flex-shrink-0" />
+                              <span>{fieldText(result, "description")}</span>
+                            </p>
+                          )}
 
-                    {result.detected_objects && Object.keys(result.detected_objects).length > 0 && (
-                      <div className="flex items-center gap-1.5 flex-wrap">
-                        <Tag className="w-3 h-3 text-muted-foreground" />
-                        {Object.entries(result.detected_objects).map(([obj, count]) => (
-                          <span
-                            key={obj}
-                            className="px-2 py-0.5 rounded-full bg-primary/10 text-primary text-xs"
-                          >
-                            {obj}: {count}
-                          </span>
-                        ))}
+                          {result.transcript && (
+                            <p className="text-sm text-muted-foreground line-clamp-1 flex items-start gap-1.5">
+                              <FileText className="w-3 h-3 mt-1 flex-shrink-0" />
+                              <span>"{fieldText(result, "transcript")}"</span>
+                            </p>
+                          )}
+
+                          {/* OCR text is only worth showing when the match is in it */}
+                          {result.highlights?.ocr_text && (
+                            <p className="text-sm text-muted-foreground line-clamp-1 flex items-start gap-1.5">
+                              <ScanText className="w-3 h-3 mt-1 flex-shrink-0" />
+                              <span>{fieldText(result, "ocr_text")}</span>
+                            </p>
+                          )}
+
+                          {result.detected_objects && Object.keys(result.detected_objects).length > 0 && (
+                            <div className="flex items-center gap-1.5 flex-wrap">
+                              <Tag className="w-3 h-3 text-muted-foreground" />
+                              {Object.entries(result.detected_objects).map(([obj, count]) => (
+                                <span
+                                  key={obj}
+                                  className="px-2 py-0.5 rounded-full bg-primary/10 text-primary text-xs"
+                                >
+                                  {obj}: {count}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+
+                          {result.explanation && <WhyThisResult explanation={result.explanation} />}
+                        </div>
                       </div>
-                    )}
+                    </div>
+                  ))
+                ) : (
+                  <div className="text-center py-12 text-muted-foreground">
+                    <Search className="w-12 h-12 mx-auto mb-4 opacity-30" />
+                    <p>Search for moments inside your videos</p>
+                    <p className="text-sm mt-1">Use natural language to find specific scenes, objects, or spoken words</p>
+                    <p className="text-xs mt-3 font-mono">
+                      object:person&gt;=2 · ocr:"exit" · transcript:budget · video:"Keynote" · after:00:01:30 · before:5m
+                    </p>
+                    <p className="text-xs mt-1">Combine terms with OR, NOT or parentheses</p>
                   </div>
-                </div>
+                )}
+
+                {nextCursor && results.length > 0 && (
+                  <div ref={sentinelRef} className="flex justify-center py-4">
+                    <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                  </div>
+                )}
               </div>
-            ))
-          ) : (
-            <div className="text-center py-12 text-muted-foreground">
-              <Search className="w-12 h-12 mx-auto mb-4 opacity-30" />
-              <p>Search for moments inside your videos</p>
-              <p className="text-sm mt-1">Use natural language to find specific scenes, objects, or spoken words</p>
             </div>
-          )}
-        </div>
+          </>
+        )}
       </DialogContent>
     </Dialog>
   );
 }
+
+// Probabilistic OR, as the server combines hit scores
+function combineScores(a: number, b: number): number {
+  return Math.round((1 - (1 - a) * (1 - b)) * 100) / 100;
+}
+
+// Folds the groups of a further page into the ones already shown; a video's
+// ranges stay in timestamp order, ranges split by the page boundary join up,
+// and its score combines like the server's
+function mergeGroups(existing: VideoGroup[], incoming: VideoGroup[]): VideoGroup[] {
+  const merged = existing.map((group) => ({ ...group }));
+  for (const group of incoming) {
+    const current = merged.find((g) => g.video_id === group.video_id);
+    if (!current) {
+      merged.push(group);
+      continue;
+    }
+    current.ranges = joinRanges([...current.ranges, ...group.ranges]);
+    current.hit_count += group.hit_count;
+    current.relevance_score = combineScores(current.relevance_score, group.relevance_score);
+  }
+  return merged;
+}
+
+// Joins a range onto the one before it when it starts at the segment right
+// after that range's last one
+function joinRanges(ranges: ResultRange[]): ResultRange[] {
+  const joined: ResultRange[] = [];
+  for (const range of [...ranges].sort((a, b) => a.start_seconds - b.start_seconds)) {
+    const previous = joined[joined.length - 1];
+    if (previous && previous.next_segment_id === range.results[0]?.id) {
+      joined[joined.length - 1] = {
+        ...previous,
+        end_seconds: range.end_seconds,
+        end_display: range.end_display,
+        next_segment_id: range.next_segment_id,
+        relevance_score: combineScores(previous.relevance_score, range.relevance_score),
+        results: [...previous.results, ...range.results],
+      };
+    } else {
+      joined.push(range);
+    }
+  }
+  return joined;
+}
+
+// The highlighted snippet of a field when it matched, else the whole field
+function fieldText(result: SearchResult, field: HighlightedField) {
+  const highlight = result.highlights?.[field];
+  if (!highlight) return result[field];
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  for (const range of highlight.ranges) {
+    if (range.start > position) parts.push(highlight.snippet.slice(position, range.start));
+    parts.push(
+      <mark key={range.start} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+        {highlight.snippet.slice(range.start, range.end)}
+      </mark>
+    );
+    position = range.end;
+  }
+  parts.push(highlight.snippet.slice(position));
+  return parts;
+}
+
+// Splits the query into plain and underlined runs; the offsets refer to the
+// trimmed query that was sent to the server
+function highlightErrors(query: string, errors: QuerySyntaxError[]) {
+  const marked = new Array(query.length + 1).fill(false);
+  for (const { start, end } of errors) {
+    // Zero-width spans (e.g. at the end of the query) still get one marked cell
+    for (let i = start; i < Math.max(end, start + 1); i++) marked[i] = true;
+  }
+
+  const text = query + " ";
+  const runs: { text: string; error: boolean }[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = runs[runs.length - 1];
+    if (last && last.error === marked[i]) last.text += text[i];
+    else runs.push({ text: text[i], error: marked[i] });
+  }
+
+  return runs.map((run, index) =>
+    run.error ? (
+      <span key={index} className="text-destructive underline decoration-wavy decoration-destructive">
+        {run.text}
+      </span>
+    ) : (
+      <span key={index}>{run.text}</span>
+    )
+  );
+}
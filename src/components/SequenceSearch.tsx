@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { Plus, X, Loader2, ArrowRight, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { searchSequence, SequenceMatch, SearchQueryError, QuerySyntaxError } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+interface SequenceSearchProps {
+  videoId?: string;
+  onMatchClick: (match: SequenceMatch) => void;
+}
+
+interface StepDraft {
+  query: string;
+  maxGapSeconds: string;
+}
+
+const MAX_STEPS = 5;
+const DEFAULT_GAP = "30";
+
+export function SequenceSearch({ videoId, onMatchClick }: SequenceSearchProps) {
+  const [steps, setSteps] = useState<StepDraft[]>([
+    { query: "", maxGapSeconds: DEFAULT_GAP },
+    { query: "", maxGapSeconds: DEFAULT_GAP },
+  ]);
+  const [matches, setMatches] = useState<SequenceMatch[]>([]);
+  const [syntaxErrors, setSyntaxErrors] = useState<QuerySyntaxError[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const { toast } = useToast();
+
+  const updateStep = (index: number, update: Partial<StepDraft>) => {
+    setSteps(steps.map((step, i) => (i === index ? { ...step, ...update } : step)));
+    setSyntaxErrors([]);
+  };
+
+  const handleSearch = async () => {
+    if (steps.some((step) => !step.query.trim())) {
+      toast({
+        title: "Fill in every step",
+        description: "Each step needs something to look for",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSearching(true);
+    setSyntaxErrors([]);
+    try {
+      const found = await searchSequence(
+        steps.map((step, index) => ({
+          query: step.query.trim(),
+          maxGapSeconds: index > 0 ? Number(step.maxGapSeconds) || undefined : undefined,
+        })),
+        videoId
+      );
+      setMatches(found);
+
+      if (found.length === 0) {
+        toast({
+          title: "No sequence found",
+          description: "Try wider gaps or broader steps",
+        });
+      }
+    } catch (error) {
+      if (error instanceof SearchQueryError) {
+        setSyntaxErrors(error.syntaxErrors);
+        return;
+      }
+      toast({
+        title: "Search failed",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col gap-4">
+      {/* Step editor */}
+      <div className="space-y-2">
+        {steps.map((step, index) => {
+          const stepErrors = syntaxErrors.filter((syntaxError) => syntaxError.step === index);
+          return (
+            <div key={index} className="space-y-1">
+              <div className="flex items-center gap-2">
+                {index === 0 ? (
+                  <span className="w-28 text-sm text-muted-foreground">First</span>
+                ) : (
+                  <div className="w-28 flex items-center gap-1 text-sm text-muted-foreground">
+                    within
+                    <Input
+                      type="number"
+                      min={1}
+                      value={step.maxGapSeconds}
+                      onChange={(e) => updateStep(index, { maxGapSeconds: e.target.value })}
+                      className="h-8 w-14 px-2 bg-input"
+                    />
+                    s
+                  </div>
+                )}
+                <Input
+                  placeholder={index === 0 ? "a person enters" : "a car appears"}
+                  value={step.query}
+                  onChange={(e) => updateStep(index, { query: e.target.value })}
+                  onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+                  className={cn("flex-1 bg-input border-border", stepErrors.length > 0 && "border-destructive")}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setSteps(steps.filter((_, i) => i !== index))}
+                  disabled={steps.length <= 2}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+              {stepErrors.map((syntaxError, errorIndex) => (
+                <p key={errorIndex} className="ml-[7.5rem] text-xs text-destructive">
+                  Column {syntaxError.start + 1}: {syntaxError.message}
+                </p>
+              ))}
+            </div>
+          );
+        })}
+
+        <div className="flex justify-between">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setSteps([...steps, { query: "", maxGapSeconds: DEFAULT_GAP }])}
+            disabled={steps.length >= MAX_STEPS}
+          >
+            <Plus className="w-4 h-4" />
+            Add step
+          </Button>
+          <Button variant="glow" onClick={handleSearch} disabled={isSearching}>
+            {isSearching ? <Loader2 className="w-4 h-4 animate-spin" /> : "Find sequence"}
+          </Button>
+        </div>
+      </div>
+
+      {/* Matches */}
+      <div className="flex-1 overflow-y-auto scrollbar-thin space-y-3 py-2">
+        {matches.length > 0 ? (
+          matches.map((match) => (
+            <div
+              key={`${match.video_id}-${match.start_seconds}`}
+              onClick={() => onMatchClick(match)}
+              className="search-result-card"
+            >
+              <div className="flex items-start gap-4">
+                <div className="flex-shrink-0 px-2 h-12 rounded-lg bg-muted flex items-center justify-center font-mono text-sm text-primary">
+                  <Clock className="w-3 h-3 mr-1" />
+                  {match.steps[0].timestamp_display}–{match.steps[match.steps.length - 1].timestamp_display}
+                </div>
+
+                <div className="flex-1 min-w-0 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h4 className="font-medium text-foreground truncate">{match.video_title}</h4>
+                    <span className="text-xs text-muted-foreground font-mono">
+                      {(match.relevance_score * 100).toFixed(0)}%
+                    </span>
+                  </div>
+
+                  <div className="flex items-center gap-1.5 flex-wrap text-xs">
+                    {match.steps.map((step, index) => (
+                      <span key={step.segment_id} className="flex items-center gap-1.5">
+                        {index > 0 && <ArrowRight className="w-3 h-3 text-muted-foreground" />}
+                        <span className="px-2 py-0.5 rounded-full bg-primary/10 text-primary" title={step.description || undefined}>
+                          {step.timestamp_display} · {step.query}
+                        </span>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))
+        ) : (
+          <div className="text-center py-12 text-muted-foreground">
+            <p>Find moments that happen in order</p>
+            <p className="text-sm mt-1">Each step can use the same syntax as a regular search</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,16 @@
 import { Clock, Eye, FileText, Tag } from "lucide-react";
-import { VideoSegment } from "@/lib/api";
+import { TimeRange, VideoSegment } from "@/lib/api";
 import { cn } from "@/lib/utils";
 
 interface TimelineProps {
   segments: VideoSegment[];
   currentTime: number;
   onSegmentClick: (timestamp: number) => void;
+  // Span to emphasise, e.g. a sequence search match
+  highlightRange?: TimeRange;
 }
 
-export function Timeline({ segments, currentTime, onSegmentClick }: TimelineProps) {
+export function Timeline({ segments, currentTime, onSegmentClick, highlightRange }: TimelineProps) {
   if (segments.length === 0) {
     return (
       <div className="text-center py-8 text-muted-foreground">
@@ -26,6 +28,17 @@ export function Timeline({ segments, currentTime, onSegmentClick }: TimelineProp
       
       {/* Visual timeline bar */}
       <div className="relative h-2 bg-muted rounded-full overflow-hidden">
+        {/* Highlighted span */}
+        {highlightRange && (
+          <div
+            className="absolute top-0 h-full bg-accent/40 rounded-full"
+            style={{
+              left: `${(highlightRange.start / maxTime) * 100}%`,
+              width: `${Math.max(((highlightRange.end - highlightRange.start) / maxTime) * 100, 1)}%`,
+            }}
+          />
+        )}
+
         {/* Current time indicator */}
         <div 
           className="absolute top-0 left-0 h-full bg-primary rounded-full transition-all duration-300"
@@ -48,6 +61,10 @@ export function Timeline({ segments, currentTime, onSegmentClick }: TimelineProp
       <div className="space-y-2 max-h-[300px] overflow-y-auto scrollbar-thin">
         {segments.map((seg) => {
           const isActive = Math.abs(currentTime - Number(seg.timestamp_seconds)) < 5;
+          const isHighlighted =
+            !!highlightRange &&
+            Number(seg.timestamp_seconds) >= highlightRange.start &&
+            Number(seg.timestamp_seconds) <= highlightRange.end;
           
           return (
             <button
@@ -56,6 +73,7 @@ export function Timeline({ segments, currentTime, onSegmentClick }: TimelineProp
               className={cn(
                 "w-full text-left p-3 rounded-xl transition-all duration-200",
                 "hover:bg-muted/50 group",
+                isHighlighted && "bg-accent/10 border border-accent/30",
                 isActive && "bg-primary/10 border border-primary/30"
               )}
             >
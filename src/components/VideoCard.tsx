@@ -1,14 +1,28 @@
 import { Film, Clock, Loader2, CheckCircle, AlertCircle, Play } from "lucide-react";
-import { Video } from "@/lib/api";
+import { Progress } from "@/components/ui/progress";
+import { AnalysisJob, AnalysisStage, Video } from "@/lib/api";
 import { cn } from "@/lib/utils";
 
 interface VideoCardProps {
   video: Video;
+  job?: AnalysisJob;
   onClick: () => void;
   isSelected?: boolean;
 }
 
-export function VideoCard({ video, onClick, isSelected }: VideoCardProps) {
+const stageLabels: Record<AnalysisStage, string> = {
+  queued: "Queued",
+  downloading: "Downloading",
+  sampling_frames: "Sampling frames",
+  describing_frames: "Describing frames",
+  transcribing: "Transcribing",
+  embedding: "Embedding",
+  indexing: "Indexing",
+  completed: "Finishing",
+  failed: "Failed",
+};
+
+export function VideoCard({ video, job, onClick, isSelected }: VideoCardProps) {
   const statusConfig = {
     processing: {
       icon: Loader2,
@@ -29,6 +43,15 @@ export function VideoCard({ video, onClick, isSelected }: VideoCardProps) {
 
   const status = statusConfig[video.status as keyof typeof statusConfig] || statusConfig.processing;
   const StatusIcon = status.icon;
+  const isProcessing = video.status === "processing";
+
+  const statusLabel = () => {
+    if (!isProcessing || !job) return status.label;
+    if (job.status === "pending" && job.attempts > 0) {
+      return `Retrying (${job.attempts + 1}/${job.max_attempts})`;
+    }
+    return stageLabels[job.stage] || status.label;
+  };
 
   const formatDuration = (seconds: number | null) => {
     if (!seconds) return "--:--";
@@ -80,9 +103,24 @@ export function VideoCard({ video, onClick, isSelected }: VideoCardProps) {
           </span>
           <div className="flex items-center gap-1.5">
             <StatusIcon className={cn("w-4 h-4", status.className)} />
-            <span className="text-muted-foreground">{status.label}</span>
+            <span className="text-muted-foreground">{statusLabel()}</span>
           </div>
         </div>
+
+        {isProcessing && job && (
+          <div className="flex items-center gap-2">
+            <Progress value={job.progress_percent} className="h-1.5 flex-1" />
+            <span className="text-xs text-muted-foreground font-mono w-9 text-right">
+              {job.progress_percent}%
+            </span>
+          </div>
+        )}
+
+        {video.status === "failed" && video.failure_reason && (
+          <p className="text-xs text-destructive line-clamp-2" title={video.failure_reason}>
+            {video.failure_reason}
+          </p>
+        )}
       </div>
 
       {/* Selected indicator */}
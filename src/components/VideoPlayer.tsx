@@ -1,5 +1,5 @@
 import { useRef, useEffect, useState } from "react";
-import { Play, Pause, Volume2, VolumeX, Maximize, SkipBack, SkipForward } from "lucide-react";
+import { Play, Pause, Volume2, VolumeX, Maximize, SkipBack, SkipForward, ScanSearch } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
 import { cn } from "@/lib/utils";
@@ -9,9 +9,11 @@ interface VideoPlayerProps {
   title: string;
   seekToTime?: number;
   onTimeUpdate?: (time: number) => void;
+  // Search the library for frames that look like the one on screen
+  onFindSimilar?: (time: number) => void;
 }
 
-export function VideoPlayer({ src, title, seekToTime, onTimeUpdate }: VideoPlayerProps) {
+export function VideoPlayer({ src, title, seekToTime, onTimeUpdate, onFindSimilar }: VideoPlayerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
@@ -182,6 +184,19 @@ export function VideoPlayer({ src, title, seekToTime, onTimeUpdate }: VideoPlaye
             </div>
 
             <div className="flex items-center gap-2">
+              {onFindSimilar && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => {
+                    videoRef.current?.pause();
+                    onFindSimilar(currentTime);
+                  }}
+                  title="Find similar frames"
+                >
+                  <ScanSearch className="w-4 h-4" />
+                </Button>
+              )}
               <Button variant="ghost" size="icon" onClick={toggleMute}>
                 {isMuted ? (
                   <VolumeX className="w-4 h-4" />
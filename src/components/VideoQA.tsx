@@ -1,8 +1,11 @@
 import { useState, useRef, useEffect } from "react";
-import { Send, Loader2, MessageSquare, Clock, Bot, User } from "lucide-react";
+import { Send, Loader2, MessageSquare, Clock, Bot, User, SquarePen, Square } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { askVideoQuestion } from "@/lib/api";
+import { QAThreadsMenu } from "@/components/QAThreadsMenu";
+import { AnswerSources } from "@/components/AnswerSources";
+import { CitedAnswer } from "@/components/CitedAnswer";
+import { askVideoQuestion, getConversationTurns, QACitation, QAConversation, VideoSegment } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 
@@ -10,18 +13,32 @@ interface Message {
   role: "user" | "assistant";
   content: string;
   timestamps?: string[];
+  // Checked citations behind the answer's [n] markers; none for answers
+  // saved before citations, which only list timestamps
+  citations?: QACitation[];
+  // Segments the answer was built from
+  contextSegmentIds?: string[];
+  // Cut short with the stop button; not saved to the thread
+  stopped?: boolean;
 }
 
 interface VideoQAProps {
   videoId: string;
   videoTitle: string;
+  // The video's analyzed segments, to show which ones an answer used
+  segments: VideoSegment[];
   onTimestampClick: (timestamp: string) => void;
 }
 
-export function VideoQA({ videoId, videoTitle, onTimestampClick }: VideoQAProps) {
+export function VideoQA({ videoId, videoTitle, segments, onTimestampClick }: VideoQAProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  // The thread follow-ups are asked in; null until the first answer
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  // The answer so far while it streams in
+  const [streamingAnswer, setStreamingAnswer] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
@@ -29,11 +46,16 @@ export function VideoQA({ videoId, videoTitle, onTimestampClick }: VideoQAProps)
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [messages]);
+  }, [messages, streamingAnswer]);
 
   useEffect(() => {
-    // Reset messages when video changes
+    // Reset messages when video changes, dropping an answer still streaming
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsLoading(false);
+    setStreamingAnswer(null);
     setMessages([]);
+    setConversationId(null);
   }, [videoId]);
 
   const handleSubmit = async () => {
@@ -44,13 +66,42 @@ export function VideoQA({ videoId, videoTitle, onTimestampClick }: VideoQAProps)
     setMessages((prev) => [...prev, { role: "user", content: userMessage }]);
     setIsLoading(true);
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let streamed = "";
+
     try {
-      const { answer, relevant_timestamps } = await askVideoQuestion(videoId, userMessage);
+      const { answer, citations, relevant_timestamps, conversationId: threadId, context_segment_ids } = await askVideoQuestion(
+        videoId,
+        userMessage,
+        conversationId ?? undefined,
+        {
+          signal: controller.signal,
+          onToken: (text) => {
+            streamed += text;
+            setStreamingAnswer(streamed);
+          },
+        }
+      );
+      setConversationId(threadId);
       setMessages((prev) => [
         ...prev,
-        { role: "assistant", content: answer, timestamps: relevant_timestamps },
+        {
+          role: "assistant",
+          content: answer,
+          citations,
+          timestamps: relevant_timestamps,
+          contextSegmentIds: context_segment_ids,
+        },
       ]);
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Stopped: keep what was written so far
+        if (streamed && abortRef.current === controller) {
+          setMessages((prev) => [...prev, { role: "assistant", content: streamed, stopped: true }]);
+        }
+        return;
+      }
       toast({
         title: "Failed to get answer",
         description: error instanceof Error ? error.message : "An error occurred",
@@ -60,11 +111,52 @@ export function VideoQA({ videoId, videoTitle, onTimestampClick }: VideoQAProps)
         ...prev,
         { role: "assistant", content: "Sorry, I couldn't process your question. Please try again." },
       ]);
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsLoading(false);
+        setStreamingAnswer(null);
+      }
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleResume = async (conversation: QAConversation) => {
+    setIsLoading(true);
+    try {
+      const turns = await getConversationTurns(conversation.id);
+      setMessages(
+        turns.flatMap((turn): Message[] => [
+          { role: "user", content: turn.question },
+          {
+            role: "assistant",
+            content: turn.answer,
+            citations: turn.citations,
+            timestamps: turn.relevant_timestamps,
+            contextSegmentIds: turn.context_segment_ids,
+          },
+        ])
+      );
+      setConversationId(conversation.id);
+    } catch (error) {
+      toast({
+        title: "Failed to load conversation",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleNewConversation = () => {
+    setMessages([]);
+    setConversationId(null);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -88,7 +180,23 @@ export function VideoQA({ videoId, videoTitle, onTimestampClick }: VideoQAProps)
       <div className="p-4 border-b border-border/50">
         <div className="flex items-center gap-2">
           <MessageSquare className="w-5 h-5 text-primary" />
-          <h3 className="font-semibold">Ask about this video</h3>
+          <h3 className="font-semibold flex-1">Ask about this video</h3>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={handleNewConversation}
+            disabled={isLoading || messages.length === 0}
+            title="New conversation"
+          >
+            <SquarePen className="w-4 h-4" />
+          </Button>
+          <QAThreadsMenu
+            videoId={videoId}
+            activeId={conversationId}
+            disabled={isLoading}
+            onResume={handleResume}
+            onDeleted={(id) => id === conversationId && handleNewConversation()}
+          />
         </div>
         <p className="text-sm text-muted-foreground mt-1 truncate">{videoTitle}</p>
       </div>
@@ -132,10 +240,20 @@ export function VideoQA({ videoId, videoTitle, onTimestampClick }: VideoQAProps)
                     : "bg-muted"
                 )}
               >
-                <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
-                
-                {/* Timestamp buttons */}
-                {msg.timestamps && msg.timestamps.length > 0 && (
+                {msg.citations && msg.citations.length > 0 ? (
+                  <CitedAnswer
+                    answer={msg.content}
+                    citations={msg.citations}
+                    segments={segments}
+                    onCitationClick={(citation) => onTimestampClick(citation.timestamp_display)}
+                  />
+                ) : (
+                  <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
+                )}
+                {msg.stopped && <p className="text-xs text-muted-foreground italic mt-2">Stopped</p>}
+
+                {/* Timestamp buttons, for answers saved before citations */}
+                {!msg.citations?.length && msg.timestamps && msg.timestamps.length > 0 && (
                   <div className="flex flex-wrap gap-2 mt-3 pt-3 border-t border-border/20">
                     {msg.timestamps.map((ts, tsIdx) => (
                       <button
@@ -149,6 +267,14 @@ export function VideoQA({ videoId, videoTitle, onTimestampClick }: VideoQAProps)
                     ))}
                   </div>
                 )}
+
+                {msg.contextSegmentIds && (
+                  <AnswerSources
+                    segmentIds={msg.contextSegmentIds}
+                    segments={segments}
+                    onTimestampClick={onTimestampClick}
+                  />
+                )}
               </div>
             </div>
           ))
@@ -159,9 +285,18 @@ export function VideoQA({ videoId, videoTitle, onTimestampClick }: VideoQAProps)
             <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center">
               <Bot className="w-4 h-4 text-muted-foreground" />
             </div>
-            <div className="bg-muted rounded-2xl p-3">
-              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
-            </div>
+            {streamingAnswer ? (
+              <div className="max-w-[80%] bg-muted rounded-2xl p-3">
+                <p className="text-sm whitespace-pre-wrap">
+                  {streamingAnswer}
+                  <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-muted-foreground/60 animate-pulse" />
+                </p>
+              </div>
+            ) : (
+              <div className="bg-muted rounded-2xl p-3">
+                <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -177,18 +312,20 @@ export function VideoQA({ videoId, videoTitle, onTimestampClick }: VideoQAProps)
             disabled={isLoading}
             className="bg-input border-border"
           />
-          <Button
-            variant="glow"
-            size="icon"
-            onClick={handleSubmit}
-            disabled={!input.trim() || isLoading}
-          >
-            {isLoading ? (
-              <Loader2 className="w-4 h-4 animate-spin" />
-            ) : (
+          {isLoading ? (
+            <Button variant="outline" size="icon" onClick={handleStop} title="Stop answering">
+              <Square className="w-4 h-4" />
+            </Button>
+          ) : (
+            <Button
+              variant="glow"
+              size="icon"
+              onClick={handleSubmit}
+              disabled={!input.trim()}
+            >
               <Send className="w-4 h-4" />
-            )}
-          </Button>
+            </Button>
+          )}
         </div>
       </div>
     </div>
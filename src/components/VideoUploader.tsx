@@ -1,9 +1,10 @@
 import { useState, useCallback } from "react";
-import { Upload, X, Film, Loader2, CheckCircle2 } from "lucide-react";
+import { Upload, X, Film, Loader2, CheckCircle2, Captions, AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { uploadVideo } from "@/lib/api";
+import { parseSubtitles, SubtitleParseResult } from "@/lib/subtitles";
 import { useToast } from "@/hooks/use-toast";
 
 interface VideoUploaderProps {
@@ -15,6 +16,8 @@ interface VideoUploaderProps {
 export function VideoUploader({ open, onClose, onUploadComplete }: VideoUploaderProps) {
   const [file, setFile] = useState<File | null>(null);
   const [title, setTitle] = useState("");
+  const [subtitleFile, setSubtitleFile] = useState<File | null>(null);
+  const [subtitles, setSubtitles] = useState<SubtitleParseResult | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadComplete, setUploadComplete] = useState(false);
@@ -30,24 +33,36 @@ export function VideoUploader({ open, onClose, onUploadComplete }: VideoUploader
     setIsDragging(false);
   }, []);
 
+  const handleSubtitleFile = useCallback(async (subtitle: File) => {
+    setSubtitleFile(subtitle);
+    setSubtitles(parseSubtitles(await subtitle.text(), subtitle.name));
+  }, []);
+
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    
-    const droppedFile = e.dataTransfer.files[0];
-    if (droppedFile && droppedFile.type.startsWith("video/")) {
+
+    const droppedFiles = Array.from(e.dataTransfer.files);
+    const droppedFile = droppedFiles.find((f) => f.type.startsWith("video/"));
+    const droppedSubtitle = droppedFiles.find((f) => isSubtitleFile(f));
+
+    if (droppedSubtitle) {
+      handleSubtitleFile(droppedSubtitle);
+    }
+
+    if (droppedFile) {
       setFile(droppedFile);
       if (!title) {
         setTitle(droppedFile.name.replace(/\.[^/.]+$/, ""));
       }
-    } else {
+    } else if (!droppedSubtitle) {
       toast({
         title: "Invalid file type",
         description: "Please upload a video file (MP4, WebM, etc.)",
         variant: "destructive",
       });
     }
-  }, [title, toast]);
+  }, [title, toast, handleSubtitleFile]);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
@@ -59,6 +74,20 @@ export function VideoUploader({ open, onClose, onUploadComplete }: VideoUploader
     }
   };
 
+  const handleSubtitleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    if (selectedFile) {
+      handleSubtitleFile(selectedFile);
+    }
+  };
+
+  const clearSubtitles = () => {
+    setSubtitleFile(null);
+    setSubtitles(null);
+  };
+
+  const hasSubtitleErrors = !!subtitles && subtitles.errors.length > 0;
+
   const handleUpload = async () => {
     if (!file || !title.trim()) {
       toast({
@@ -71,7 +100,7 @@ export function VideoUploader({ open, onClose, onUploadComplete }: VideoUploader
 
     setIsUploading(true);
     try {
-      await uploadVideo(file, title.trim());
+      await uploadVideo(file, title.trim(), subtitles?.cues);
       setUploadComplete(true);
       toast({
         title: "Upload successful!",
@@ -96,6 +125,7 @@ export function VideoUploader({ open, onClose, onUploadComplete }: VideoUploader
   const handleClose = () => {
     setFile(null);
     setTitle("");
+    clearSubtitles();
     setIsUploading(false);
     setUploadComplete(false);
     onClose();
@@ -169,6 +199,62 @@ export function VideoUploader({ open, onClose, onUploadComplete }: VideoUploader
             )}
           </div>
 
+          {/* Subtitles */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground">
+              Subtitles <span className="text-muted-foreground font-normal">(optional)</span>
+            </label>
+            {subtitleFile ? (
+              <div className="space-y-2">
+                <div className="flex items-center gap-3 p-3 rounded-xl bg-muted/50">
+                  <Captions className="w-4 h-4 text-primary flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-foreground truncate">{subtitleFile.name}</p>
+                    <p className={`text-xs ${hasSubtitleErrors ? "text-destructive" : "text-muted-foreground"}`}>
+                      {hasSubtitleErrors
+                        ? `${subtitles.errors.length} problem${subtitles.errors.length === 1 ? "" : "s"} found`
+                        : `${subtitles?.cues.length || 0} cues · used instead of AI transcription`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={clearSubtitles}
+                    disabled={isUploading || uploadComplete}
+                    className="text-muted-foreground hover:text-destructive"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+
+                {hasSubtitleErrors && (
+                  <ul className="max-h-32 overflow-y-auto scrollbar-thin space-y-1 p-3 rounded-xl bg-destructive/10 text-xs">
+                    {subtitles.errors.map((subtitleError, idx) => (
+                      <li key={idx} className="flex items-start gap-1.5 text-destructive">
+                        <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                        <span>
+                          <span className="font-mono">Line {subtitleError.line}:</span> {subtitleError.message}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ) : (
+              <label className="flex items-center gap-2 p-3 rounded-xl border border-dashed border-border text-sm text-muted-foreground hover:border-primary/50 hover:text-foreground transition-colors cursor-pointer">
+                <Captions className="w-4 h-4" />
+                Attach an .srt or .vtt file
+                <input
+                  type="file"
+                  accept=".srt,.vtt"
+                  onChange={handleSubtitleSelect}
+                  className="hidden"
+                  disabled={isUploading || uploadComplete}
+                />
+              </label>
+            )}
+          </div>
+
           {/* Title Input */}
           <div className="space-y-2">
             <label className="text-sm font-medium text-foreground">Video Title</label>
@@ -194,7 +280,7 @@ export function VideoUploader({ open, onClose, onUploadComplete }: VideoUploader
             <Button
               variant="glow"
               onClick={handleUpload}
-              disabled={!file || !title.trim() || isUploading || uploadComplete}
+              disabled={!file || !title.trim() || hasSubtitleErrors || isUploading || uploadComplete}
               className="flex-1"
             >
               {isUploading ? (
@@ -215,3 +301,7 @@ export function VideoUploader({ open, onClose, onUploadComplete }: VideoUploader
     </Dialog>
   );
 }
+
+function isSubtitleFile(file: File): boolean {
+  return /\.(srt|vtt)$/i.test(file.name);
+}
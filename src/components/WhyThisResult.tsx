@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { ChevronDown, ChevronRight, Info } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ResultExplanation } from "@/lib/api";
+
+interface WhyThisResultProps {
+  explanation: ResultExplanation;
+}
+
+export function WhyThisResult({ explanation }: WhyThisResultProps) {
+  const [open, setOpen] = useState(false);
+  const { signals } = explanation;
+
+  const rows: [string, string][] = [
+    ["Final rank", `#${explanation.final_rank} of ${explanation.candidate_pool_size} candidates`],
+  ];
+  if (signals.semantic) {
+    rows.push(["Semantic", `#${signals.semantic.rank} · cosine similarity ${signals.semantic.similarity.toFixed(3)}`]);
+  }
+  if (signals.lexical) {
+    rows.push(["Full-text", `#${signals.lexical.rank} · ts_rank ${signals.lexical.ts_rank.toFixed(3)}`]);
+  }
+  if (signals.fused) {
+    rows.push([
+      "Fused (RRF)",
+      `#${signals.fused.rank} · ${signals.fused.score.toFixed(4)} (${(signals.fused.normalized_score * 100).toFixed(0)}% of max)`,
+    ]);
+  }
+  if (signals.visual) {
+    rows.push(["Visual", `#${signals.visual.rank} · cosine similarity ${signals.visual.similarity.toFixed(3)}`]);
+  }
+  if (explanation.rerank_batch !== null) {
+    rows.push([
+      "Reranker",
+      explanation.reranker_output ? `batch ${explanation.rerank_batch + 1}` : "unavailable, fused order used",
+    ]);
+  }
+
+  return (
+    // Keep clicks inside the panel from opening the result
+    <Collapsible open={open} onOpenChange={setOpen} onClick={(e) => e.stopPropagation()}>
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors">
+        {open ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        <Info className="w-3 h-3" />
+        Why this result
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-2 p-3 rounded-lg bg-muted/50 space-y-2 text-xs cursor-default">
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+          {rows.map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-muted-foreground">{label}</dt>
+              <dd className="font-mono">{value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        {explanation.filter && (
+          <div>
+            <p className="text-muted-foreground mb-1">Filter applied</p>
+            <pre className="p-2 rounded bg-background/60 overflow-x-auto scrollbar-thin">
+              {JSON.stringify(explanation.filter, null, 2)}
+            </pre>
+          </div>
+        )}
+
+        {explanation.reranker_output && (
+          <div>
+            <p className="text-muted-foreground mb-1">Raw reranker output</p>
+            <pre className="p-2 rounded bg-background/60 overflow-x-auto scrollbar-thin whitespace-pre-wrap">
+              {JSON.stringify(explanation.reranker_output, null, 2)}
+            </pre>
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,36 @@
+import { useLayoutEffect, useRef } from "react";
+
+const DURATION_MS = 250;
+
+// Animates list items to their new place when the order changes (FLIP: record
+// where each item was, let React move it, then play the move from the old
+// position). Returns a ref factory: give every item ref={register(key)}.
+// Offsets are measured against the offset parent, so scrolling between two
+// orders does not count as movement.
+export function useFlipReorder<T extends HTMLElement>(keys: string[]) {
+  const nodes = useRef(new Map<string, T>());
+  const offsets = useRef(new Map<string, number>());
+  const order = keys.join("\n");
+
+  useLayoutEffect(() => {
+    const previous = offsets.current;
+    const current = new Map<string, number>();
+
+    nodes.current.forEach((node, key) => {
+      current.set(key, node.offsetTop);
+      const before = previous.get(key);
+      if (before === undefined || before === node.offsetTop) return;
+      node.animate(
+        [{ transform: `translateY(${before - node.offsetTop}px)` }, { transform: "translateY(0)" }],
+        { duration: DURATION_MS, easing: "ease-out" }
+      );
+    });
+
+    offsets.current = current;
+  }, [order]);
+
+  return (key: string) => (node: T | null) => {
+    if (node) nodes.current.set(key, node);
+    else nodes.current.delete(key);
+  };
+}
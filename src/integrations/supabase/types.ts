@@ -14,9 +14,362 @@ export type Database = {
   }
   public: {
     Tables: {
+      analysis_jobs: {
+        Row: {
+          attempts: number
+          created_at: string
+          finished_at: string | null
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          options: Json
+          progress_percent: number
+          run_after: string
+          stage: string
+          started_at: string | null
+          status: string
+          updated_at: string
+          video_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          finished_at?: string | null
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          options?: Json
+          progress_percent?: number
+          run_after?: string
+          stage?: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          video_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          finished_at?: string | null
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          options?: Json
+          progress_percent?: number
+          run_after?: string
+          stage?: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_jobs_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      qa_conversations: {
+        Row: {
+          created_at: string
+          id: string
+          title: string
+          updated_at: string
+          video_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          title: string
+          updated_at?: string
+          video_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          title?: string
+          updated_at?: string
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "qa_conversations_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_searches: {
+        Row: {
+          created_at: string
+          filters: Json
+          id: string
+          last_run_at: string | null
+          name: string
+          query: string
+          updated_at: string
+          watch: boolean
+        }
+        Insert: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          last_run_at?: string | null
+          name: string
+          query: string
+          updated_at?: string
+          watch?: boolean
+        }
+        Update: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          last_run_at?: string | null
+          name?: string
+          query?: string
+          updated_at?: string
+          watch?: boolean
+        }
+        Relationships: []
+      }
+      search_cache: {
+        Row: {
+          cache_key: string
+          created_at: string
+          hit_count: number
+          index_version: number
+          last_hit_at: string | null
+          query: string
+          response: Json
+          video_id: string | null
+        }
+        Insert: {
+          cache_key: string
+          created_at?: string
+          hit_count?: number
+          index_version: number
+          last_hit_at?: string | null
+          query: string
+          response: Json
+          video_id?: string | null
+        }
+        Update: {
+          cache_key?: string
+          created_at?: string
+          hit_count?: number
+          index_version?: number
+          last_hit_at?: string | null
+          query?: string
+          response?: Json
+          video_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "search_cache_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      search_index_state: {
+        Row: {
+          id: boolean
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          id?: boolean
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          id?: boolean
+          updated_at?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      search_notifications: {
+        Row: {
+          created_at: string
+          id: string
+          match_count: number
+          read_at: string | null
+          saved_search_id: string
+          top_relevance_score: number
+          top_timestamp_seconds: number
+          video_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          match_count: number
+          read_at?: string | null
+          saved_search_id: string
+          top_relevance_score: number
+          top_timestamp_seconds: number
+          video_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          match_count?: number
+          read_at?: string | null
+          saved_search_id?: string
+          top_relevance_score?: number
+          top_timestamp_seconds?: number
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "search_notifications_saved_search_id_fkey"
+            columns: ["saved_search_id"]
+            isOneToOne: false
+            referencedRelation: "saved_searches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "search_notifications_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      search_rankings: {
+        Row: {
+          batch: number
+          created_at: string
+          index_version: number
+          ranking_key: string
+          rankings: Json
+        }
+        Insert: {
+          batch: number
+          created_at?: string
+          index_version: number
+          ranking_key: string
+          rankings: Json
+        }
+        Update: {
+          batch?: number
+          created_at?: string
+          index_version?: number
+          ranking_key?: string
+          rankings?: Json
+        }
+        Relationships: []
+      }
+      subtitle_cues: {
+        Row: {
+          created_at: string
+          cue_index: number
+          end_seconds: number
+          id: string
+          start_seconds: number
+          text: string
+          video_id: string
+        }
+        Insert: {
+          created_at?: string
+          cue_index: number
+          end_seconds: number
+          id?: string
+          start_seconds: number
+          text: string
+          video_id: string
+        }
+        Update: {
+          created_at?: string
+          cue_index?: number
+          end_seconds?: number
+          id?: string
+          start_seconds?: number
+          text?: string
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subtitle_cues_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transcript_words: {
+        Row: {
+          confidence: number | null
+          created_at: string
+          end_seconds: number
+          id: string
+          normalized_word: string | null
+          segment_id: string
+          start_seconds: number
+          video_id: string
+          word: string
+          word_index: number
+        }
+        Insert: {
+          confidence?: number | null
+          created_at?: string
+          end_seconds: number
+          id?: string
+          normalized_word?: string | null
+          segment_id: string
+          start_seconds: number
+          video_id: string
+          word: string
+          word_index: number
+        }
+        Update: {
+          confidence?: number | null
+          created_at?: string
+          end_seconds?: number
+          id?: string
+          normalized_word?: string | null
+          segment_id?: string
+          start_seconds?: number
+          video_id?: string
+          word?: string
+          word_index?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transcript_words_segment_id_fkey"
+            columns: ["segment_id"]
+            isOneToOne: false
+            referencedRelation: "video_segments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transcript_words_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       video_qa_history: {
         Row: {
           answer: string
+          citations: Json
+          context_segment_ids: string[]
+          conversation_id: string
           created_at: string
           id: string
           question: string
@@ -25,6 +378,9 @@ export type Database = {
         }
         Insert: {
           answer: string
+          citations?: Json
+          context_segment_ids?: string[]
+          conversation_id: string
           created_at?: string
           id?: string
           question: string
@@ -33,6 +389,9 @@ export type Database = {
         }
         Update: {
           answer?: string
+          citations?: Json
+          context_segment_ids?: string[]
+          conversation_id?: string
           created_at?: string
           id?: string
           question?: string
@@ -40,6 +399,13 @@ export type Database = {
           video_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "video_qa_history_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "qa_conversations"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "video_qa_history_video_id_fkey"
             columns: ["video_id"]
@@ -55,42 +421,51 @@ export type Database = {
           created_at: string
           description: string | null
           detected_objects: Json | null
+          embedding: string | null
           embedding_text: string | null
           frame_path: string | null
           id: string
           ocr_text: string | null
+          search_document: unknown | null
           timestamp_display: string
           timestamp_seconds: number
           transcript: string | null
           video_id: string
+          visual_embedding: string | null
         }
         Insert: {
           confidence_score?: number | null
           created_at?: string
           description?: string | null
           detected_objects?: Json | null
+          embedding?: string | null
           embedding_text?: string | null
           frame_path?: string | null
           id?: string
           ocr_text?: string | null
+          search_document?: unknown | null
           timestamp_display: string
           timestamp_seconds: number
           transcript?: string | null
           video_id: string
+          visual_embedding?: string | null
         }
         Update: {
           confidence_score?: number | null
           created_at?: string
           description?: string | null
           detected_objects?: Json | null
+          embedding?: string | null
           embedding_text?: string | null
           frame_path?: string | null
           id?: string
           ocr_text?: string | null
+          search_document?: unknown | null
           timestamp_display?: string
           timestamp_seconds?: number
           transcript?: string | null
           video_id?: string
+          visual_embedding?: string | null
         }
         Relationships: [
           {
@@ -106,6 +481,7 @@ export type Database = {
         Row: {
           created_at: string
           duration_seconds: number | null
+          failure_reason: string | null
           filename: string
           id: string
           status: string
@@ -117,6 +493,7 @@ export type Database = {
         Insert: {
           created_at?: string
           duration_seconds?: number | null
+          failure_reason?: string | null
           filename: string
           id?: string
           status?: string
@@ -128,6 +505,7 @@ export type Database = {
         Update: {
           created_at?: string
           duration_seconds?: number | null
+          failure_reason?: string | null
           filename?: string
           id?: string
           status?: string
@@ -143,7 +521,182 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_analysis_job: {
+        Args: { stale_after_seconds?: number }
+        Returns: {
+          attempts: number
+          created_at: string
+          finished_at: string | null
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          options: Json
+          progress_percent: number
+          run_after: string
+          stage: string
+          started_at: string | null
+          status: string
+          updated_at: string
+          video_id: string
+        }[]
+      }
+      filter_segment_facets: {
+        Args: {
+          bucket_starts: number[]
+          filter: Json
+          filter_status?: string
+          filter_video_id?: string
+        }
+        Returns: {
+          bucket_start: number
+          count: number
+          facet: string
+          value: string
+          video_id: string
+        }[]
+      }
+      filter_video_segments: {
+        Args: {
+          filter: Json
+          filter_status?: string
+          filter_video_id?: string
+          match_count?: number
+          match_offset?: number
+        }
+        Returns: {
+          description: string
+          detected_objects: Json
+          id: string
+          ocr_text: string
+          timestamp_display: string
+          timestamp_seconds: number
+          total_count: number
+          transcript: string
+          video_id: string
+          video_path: string
+          video_title: string
+        }[]
+      }
+      invalidate_search_cache: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      match_transcript_phrase: {
+        Args: {
+          context_words?: number
+          filter_status?: string
+          filter_video_id?: string
+          match_count?: number
+          phrase_words: string[]
+        }
+        Returns: {
+          context_after: string
+          context_before: string
+          end_seconds: number
+          segment_id: string
+          spoken: string
+          start_seconds: number
+          video_id: string
+          video_path: string
+          video_title: string
+        }[]
+      }
+      match_video_frames: {
+        Args: {
+          filter_status?: string
+          filter_video_id?: string
+          match_count?: number
+          neighbourhood_seconds?: number
+          query_embedding?: string
+          source_segment_id?: string
+        }
+        Returns: {
+          description: string
+          detected_objects: Json
+          id: string
+          ocr_text: string
+          similarity: number
+          timestamp_display: string
+          timestamp_seconds: number
+          transcript: string
+          video_id: string
+          video_path: string
+          video_title: string
+        }[]
+      }
+      match_video_segments: {
+        Args: {
+          filter?: Json
+          filter_status?: string
+          filter_video_id?: string
+          match_count?: number
+          query_embedding: string
+        }
+        Returns: {
+          description: string
+          detected_objects: Json
+          id: string
+          ocr_text: string
+          similarity: number
+          timestamp_display: string
+          timestamp_seconds: number
+          transcript: string
+          video_id: string
+          video_path: string
+          video_title: string
+        }[]
+      }
+      record_search_cache_hit: {
+        Args: { hit_key: string }
+        Returns: undefined
+      }
+      search_cache_stats: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          entries: number
+          hits: number
+          index_version: number
+        }[]
+      }
+      search_video_segments_fts: {
+        Args: {
+          filter?: Json
+          filter_status?: string
+          filter_video_id?: string
+          match_count?: number
+          search_query: string
+        }
+        Returns: {
+          description: string
+          detected_objects: Json
+          id: string
+          ocr_text: string
+          rank: number
+          timestamp_display: string
+          timestamp_seconds: number
+          transcript: string
+          video_id: string
+          video_path: string
+          video_title: string
+        }[]
+      }
+      segment_matches_filter: {
+        Args: {
+          filter: Json
+          seg: Database["public"]["Tables"]["video_segments"]["Row"]
+          video_title: string
+        }
+        Returns: boolean
+      }
+      segment_spans: {
+        Args: { segment_ids: string[] }
+        Returns: {
+          end_seconds: number
+          id: string
+          next_segment_id: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
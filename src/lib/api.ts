@@ -1,4 +1,7 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { SubtitleCue } from "@/lib/subtitles";
 
 export interface Video {
   id: string;
@@ -8,6 +11,32 @@ export interface Video {
   duration_seconds: number | null;
   thumbnail_path: string | null;
   status: string;
+  failure_reason: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type AnalysisStage =
+  | "queued"
+  | "downloading"
+  | "sampling_frames"
+  | "describing_frames"
+  | "transcribing"
+  | "embedding"
+  | "indexing"
+  | "completed"
+  | "failed";
+
+export interface AnalysisJob {
+  id: string;
+  video_id: string;
+  status: "pending" | "running" | "succeeded" | "failed";
+  stage: AnalysisStage;
+  progress_percent: number;
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+  run_after: string;
   created_at: string;
   updated_at: string;
 }
@@ -27,6 +56,14 @@ export interface VideoSegment {
   created_at: string;
 }
 
+export type HighlightedField = "description" | "transcript" | "ocr_text";
+
+// A trimmed excerpt of one field; ranges are offsets into the snippet
+export interface FieldHighlight {
+  snippet: string;
+  ranges: { start: number; end: number }[];
+}
+
 export interface SearchResult {
   id: string;
   video_id: string;
@@ -40,6 +77,27 @@ export interface SearchResult {
   detected_objects: Record<string, number>;
   relevance_score: number;
   relevance_reason: string;
+  retrievers: ("semantic" | "lexical" | "filter" | "visual")[];
+  highlights?: Partial<Record<HighlightedField, FieldHighlight>>;
+  // Only when searching with explain
+  explanation?: ResultExplanation;
+}
+
+// Score breakdown of one result; retriever ranks are 1-based
+export interface ResultExplanation {
+  final_rank: number;
+  signals: {
+    semantic?: { rank: number; similarity: number };
+    lexical?: { rank: number; ts_rank: number };
+    fused?: { rank: number; score: number; normalized_score: number };
+    visual?: { rank: number; similarity: number };
+  };
+  // Compiled field filter tree, null when the query had no field terms
+  filter: Json | null;
+  candidate_pool_size: number;
+  rerank_batch: number | null;
+  // The reranker's reply for this segment, null when the fused order was used
+  reranker_output: Json | null;
 }
 
 export interface SearchFilters {
@@ -47,8 +105,249 @@ export interface SearchFilters {
   minCount?: number;
 }
 
-// Upload video
-export async function uploadVideo(file: File, title: string): Promise<Video> {
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  objects: FacetCount[];
+  videos: (FacetCount & { video_id: string })[];
+  time: { label: string; start_seconds: number; end_seconds: number | null; count: number }[];
+}
+
+// Consecutive matching segments of one video
+export interface ResultRange {
+  start_seconds: number;
+  end_seconds: number;
+  start_display: string;
+  end_display: string;
+  // The segment after the range's last one, null at the end of the video
+  next_segment_id: string | null;
+  relevance_score: number;
+  results: SearchResult[];
+}
+
+export interface VideoGroup {
+  video_id: string;
+  video_title: string;
+  video_path: string;
+  relevance_score: number;
+  hit_count: number;
+  ranges: ResultRange[];
+}
+
+export interface SearchOptions {
+  // Also cluster results per video into ranges of adjacent segments
+  group?: boolean;
+  // nextCursor of the previous page; omit for the first page
+  cursor?: string;
+  // Results per page, 1-50 (default 10)
+  pageSize?: number;
+  // Leave out results scoring below this, 0-1 (default 0.3)
+  minScore?: number;
+  // Attach a score breakdown to every result
+  explain?: boolean;
+  // Stream the search: called with interim results before the final response
+  onProgress?: (progress: SearchProgress) => void;
+}
+
+// Interim results of a streamed search: the fused candidates in retrieval
+// order first, then the results reranked so far after every reranker batch
+export interface SearchProgress {
+  stage: "candidates" | "reranked";
+  results: SearchResult[];
+  facets?: SearchFacets;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  // Results that pass minScore across every page; a lower bound while
+  // totalIsLowerBound is set, as ranked searches only count the candidates
+  // ranked so far
+  total: number;
+  totalIsLowerBound: boolean;
+  // null once there are no more pages
+  nextCursor: string | null;
+  // Served from the server-side search cache; cachedAt is when it was computed
+  cached?: boolean;
+  cachedAt?: string;
+  groups?: VideoGroup[];
+  // Counts over the whole candidate set, sent with the first page only
+  facets?: SearchFacets;
+  message?: string;
+}
+
+export interface SearchCacheStats {
+  // Bumped by the database whenever analyzed segments change
+  index_version: number;
+  entries: number;
+  hits: number;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  filters: SearchFilters;
+  // Re-evaluated against every newly analyzed video
+  watch: boolean;
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SearchNotification {
+  id: string;
+  saved_search_id: string;
+  saved_search_name: string;
+  video_id: string;
+  video_title: string;
+  match_count: number;
+  top_timestamp_seconds: number;
+  top_relevance_score: number;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface SequenceStep {
+  query: string;
+  // Max seconds after the previous step; ignored on the first step
+  maxGapSeconds?: number;
+}
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export interface SequenceMatch {
+  video_id: string;
+  video_title: string;
+  video_path: string;
+  start_seconds: number;
+  end_seconds: number;
+  relevance_score: number;
+  steps: {
+    segment_id: string;
+    query: string;
+    timestamp_seconds: number;
+    timestamp_display: string;
+    description: string | null;
+    score: number;
+  }[];
+}
+
+export interface QAOptions {
+  // Stream the answer: called with each piece of text as it is written
+  onToken?: (text: string) => void;
+  // Aborts a streamed answer
+  signal?: AbortSignal;
+}
+
+// A checked citation of a video answer: the segment behind the marker
+// [number] in the answer, and the words quoted from it as evidence.
+// Unverified citations quote words that could not be found in the segment.
+export interface QACitation {
+  number: number;
+  segment_id: string;
+  timestamp_display: string;
+  timestamp_seconds: number;
+  quote: string;
+  verified: boolean;
+  // Where the quote is, as offsets into one text field of the segment
+  evidence: { field: "description" | "transcript" | "ocr_text"; start: number; end: number } | null;
+}
+
+export interface QAAnswer {
+  answer: string;
+  citations: QACitation[];
+  // Timestamps of the segments with verified citations
+  relevant_timestamps: string[];
+  // The thread the answer was saved to; new for a first question
+  conversationId: string;
+  // Segments the answer was built from: the whole video when it fits the
+  // prompt, otherwise the parts retrieved for the question
+  context_segment_ids: string[];
+}
+
+// A Q&A thread about one video, titled after its first question
+export interface QAConversation {
+  id: string;
+  video_id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface QATurn {
+  id: string;
+  question: string;
+  answer: string;
+  // Empty for answers saved before citations were checked
+  citations: QACitation[];
+  relevant_timestamps: string[];
+  context_segment_ids: string[];
+  created_at: string;
+}
+
+// A checked citation of a library answer, with the video its segment is from
+export interface LibraryCitation extends QACitation {
+  video_id: string;
+  video_title: string;
+}
+
+export interface LibraryAnswer {
+  answer: string;
+  citations: LibraryCitation[];
+  context_segment_ids: string[];
+}
+
+// One spoken occurrence of an exact phrase, timed from its first word's start
+// to its last word's end
+export interface PhraseMatch {
+  video_id: string;
+  video_title: string;
+  video_path: string;
+  segment_id: string;
+  start_seconds: number;
+  end_seconds: number;
+  start_display: string;
+  end_display: string;
+  // The matched words as transcribed
+  spoken: string;
+  context_before: string;
+  context_after: string;
+}
+
+export interface PhraseSearchResponse {
+  matches: PhraseMatch[];
+  // More occurrences exist than the first 100 returned
+  truncated: boolean;
+  message?: string;
+}
+
+// A problem in the structured query syntax; start/end are character offsets
+// into the query string
+export interface QuerySyntaxError {
+  message: string;
+  start: number;
+  end: number;
+  // Set by sequence searches: the step whose query the offsets refer to
+  step?: number;
+}
+
+export class SearchQueryError extends Error {
+  constructor(public syntaxErrors: QuerySyntaxError[]) {
+    super(syntaxErrors[0]?.message || "Invalid search query");
+    this.name = "SearchQueryError";
+  }
+}
+
+const MAX_QUERY_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Upload video, optionally with cues parsed from a sidecar subtitle file
+export async function uploadVideo(file: File, title: string, subtitleCues?: SubtitleCue[]): Promise<Video> {
   const filename = `${Date.now()}-${file.name.replace(/[^a-zA-Z0-9.-]/g, "_")}`;
   const storagePath = `uploads/${filename}`;
 
@@ -65,11 +364,6 @@ export async function uploadVideo(file: File, title: string): Promise<Video> {
     throw new Error(`Failed to upload video: ${uploadError.message}`);
   }
 
-  // Get public URL
-  const { data: urlData } = supabase.storage
-    .from("videos")
-    .getPublicUrl(storagePath);
-
   // Create video record
   const { data: video, error: insertError } = await supabase
     .from("videos")
@@ -87,18 +381,36 @@ export async function uploadVideo(file: File, title: string): Promise<Video> {
     throw new Error(`Failed to create video record: ${insertError.message}`);
   }
 
-  // Trigger analysis in background
-  try {
-    await supabase.functions.invoke("analyze-video", {
-      body: {
-        videoId: video.id,
-        videoUrl: urlData.publicUrl,
-        title,
-      },
-    });
-  } catch (analysisError) {
-    console.error("Analysis trigger error:", analysisError);
-    // Don't fail the upload if analysis fails to start
+  // Subtitle cues replace AI transcription for this video. Analysing without
+  // them would silently transcribe instead, so the video is failed rather
+  // than left processing with no job queued.
+  if (subtitleCues && subtitleCues.length > 0) {
+    const { error: cuesError } = await supabase
+      .from("subtitle_cues")
+      .insert(subtitleCues.map((cue, index) => ({ video_id: video.id, cue_index: index, ...cue })));
+
+    if (cuesError) {
+      console.error("Subtitle insert error:", cuesError);
+      await supabase
+        .from("videos")
+        .update({ status: "failed", failure_reason: `Could not save subtitles: ${cuesError.message}` })
+        .eq("id", video.id);
+      throw new Error(`Video uploaded but its subtitles could not be saved: ${cuesError.message}`);
+    }
+  }
+
+  // Queue analysis; the worker picks it up in the background
+  const { error: analysisError } = await supabase.functions.invoke("analyze-video", {
+    body: { videoId: video.id },
+  });
+
+  if (analysisError) {
+    console.error("Analysis queue error:", analysisError);
+    await supabase
+      .from("videos")
+      .update({ status: "failed", failure_reason: `Could not queue analysis: ${analysisError.message}` })
+      .eq("id", video.id);
+    throw new Error(`Video uploaded but analysis could not be queued: ${analysisError.message}`);
   }
 
   return video;
@@ -118,6 +430,29 @@ export async function getVideos(): Promise<Video[]> {
   return data || [];
 }
 
+// Get the most recent analysis job for each of the given videos
+export async function getLatestAnalysisJobs(videoIds: string[]): Promise<Record<string, AnalysisJob>> {
+  if (videoIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from("analysis_jobs")
+    .select("*")
+    .in("video_id", videoIds)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch analysis jobs: ${error.message}`);
+  }
+
+  const jobs: Record<string, AnalysisJob> = {};
+  for (const job of data || []) {
+    if (!jobs[job.video_id]) {
+      jobs[job.video_id] = job as AnalysisJob;
+    }
+  }
+  return jobs;
+}
+
 // Get video by ID
 export async function getVideo(id: string): Promise<Video | null> {
   const { data, error } = await supabase
@@ -156,53 +491,525 @@ export async function getVideoSegments(videoId: string): Promise<VideoSegment[]>
 export async function searchVideos(
   query: string,
   videoId?: string,
-  filters?: SearchFilters
-): Promise<SearchResult[]> {
+  filters?: SearchFilters,
+  options: SearchOptions = {}
+): Promise<SearchResponse> {
+  const body = {
+    query,
+    videoId,
+    filters,
+    group: options.group,
+    cursor: options.cursor,
+    pageSize: options.pageSize,
+    minScore: options.minScore,
+    explain: options.explain,
+  };
+
+  let data;
+  if (options.onProgress) {
+    data = await streamSearch(body, options.onProgress);
+  } else {
+    const invoked = await supabase.functions.invoke("search-videos", { body });
+    if (invoked.error) {
+      console.error("Search error:", invoked.error);
+      throw await searchError(invoked.error);
+    }
+    data = invoked.data;
+  }
+
+  const results = data?.results || [];
+  return {
+    results,
+    total: data?.total ?? results.length,
+    totalIsLowerBound: Boolean(data?.totalIsLowerBound),
+    nextCursor: data?.nextCursor ?? null,
+    cached: Boolean(data?.cached),
+    cachedAt: data?.cachedAt,
+    groups: data?.groups,
+    facets: data?.facets,
+    message: data?.message,
+  };
+}
+
+// Search for frames that look like an uploaded image
+export async function searchByImage(
+  image: File,
+  videoId?: string,
+  options: SearchOptions = {}
+): Promise<SearchResponse> {
+  if (!image.type.startsWith("image/")) {
+    throw new Error("Please choose an image file");
+  }
+  if (image.size > MAX_QUERY_IMAGE_BYTES) {
+    throw new Error("Image must be smaller than 5 MB");
+  }
+
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(image);
+  });
+
+  return visualSearch({ image: dataUrl, videoId }, options);
+}
+
+// Search for frames that look like the analyzed frame nearest a moment of a video
+export async function searchByFrame(
+  sourceVideoId: string,
+  timestampSeconds: number,
+  videoId?: string,
+  options: SearchOptions = {}
+): Promise<SearchResponse> {
+  return visualSearch({ frame: { videoId: sourceVideoId, timestampSeconds }, videoId }, options);
+}
+
+async function visualSearch(query: Record<string, unknown>, options: SearchOptions): Promise<SearchResponse> {
+  const body = {
+    ...query,
+    group: options.group,
+    cursor: options.cursor,
+    pageSize: options.pageSize,
+    minScore: options.minScore,
+    explain: options.explain,
+  };
+  const { data, error } = await supabase.functions.invoke("search-videos", { body });
+
+  if (error) {
+    console.error("Visual search error:", error);
+    throw await searchError(error);
+  }
+
+  const results = data?.results || [];
+  return {
+    results,
+    total: data?.total ?? results.length,
+    totalIsLowerBound: Boolean(data?.totalIsLowerBound),
+    nextCursor: data?.nextCursor ?? null,
+    groups: data?.groups,
+    facets: data?.facets,
+    message: data?.message,
+  };
+}
+
+// Search for ordered moments, e.g. a person enters, then a car appears within 30s
+export async function searchSequence(steps: SequenceStep[], videoId?: string): Promise<SequenceMatch[]> {
   const { data, error } = await supabase.functions.invoke("search-videos", {
-    body: { query, videoId, filters },
+    body: { steps, videoId },
   });
 
   if (error) {
-    console.error("Search error:", error);
-    throw new Error(`Search failed: ${error.message}`);
+    console.error("Sequence search error:", error);
+    throw await searchError(error);
   }
 
-  return data?.results || [];
+  return data?.matches || [];
 }
 
-// Video Q&A
-export async function askVideoQuestion(
-  videoId: string,
-  question: string
-): Promise<{ answer: string; relevant_timestamps: string[] }> {
-  const { data, error } = await supabase.functions.invoke("video-qa", {
-    body: { videoId, question },
+// Find where exact words were spoken, using the word-level transcript timings
+export async function searchPhrase(phrase: string, videoId?: string): Promise<PhraseSearchResponse> {
+  const { data, error } = await supabase.functions.invoke("search-videos", {
+    body: { phrase, videoId },
   });
 
   if (error) {
-    console.error("Q&A error:", error);
-    throw new Error(`Q&A failed: ${error.message}`);
+    console.error("Phrase search error:", error);
+    throw await searchError(error);
+  }
+
+  return {
+    matches: data?.matches || [],
+    truncated: Boolean(data?.truncated),
+    message: data?.message,
+  };
+}
+
+// Syntax problems come back as a 400 with the offending spans; other errors
+// carry the function's own message in the body
+async function searchError(error: Error): Promise<Error> {
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    if (error.context.status === 400 && body?.syntaxErrors?.length) {
+      return new SearchQueryError(body.syntaxErrors);
+    }
+    if (body?.error) {
+      return new Error(`Search failed: ${body.error}`);
+    }
+  }
+  return new Error(`Search failed: ${error.message}`);
+}
+
+// Calls an edge function that replies with Server-Sent Events and yields each
+// event with its parsed data. functions.invoke buffers the whole body, so this
+// fetches directly. A failure before the stream starts is yielded as an error
+// event carrying the function's JSON error body.
+async function* functionEvents(name: string, body: Record<string, unknown>, signal?: AbortSignal) {
+  const { data: { session } } = await supabase.auth.getSession();
+  const key = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${name}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      apikey: key,
+      Authorization: `Bearer ${session?.access_token ?? key}`,
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const failure = await response.json().catch(() => null);
+    yield { event: "error", data: failure || { error: response.statusText || `HTTP ${response.status}` } };
+    return;
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = "";
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffered += value;
+
+      let boundary;
+      while ((boundary = buffered.indexOf("\n\n")) !== -1) {
+        const message = buffered.slice(0, boundary);
+        buffered = buffered.slice(boundary + 2);
+
+        const event = message.match(/^event: (.*)$/m)?.[1];
+        const payload = message.match(/^data: (.*)$/m)?.[1];
+        if (!event || payload === undefined) continue;
+        yield { event, data: JSON.parse(payload) };
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+}
+
+// Runs search-videos as a stream, forwarding interim results and resolving
+// with the payload of the final done event
+async function streamSearch(
+  body: Record<string, unknown>,
+  onProgress: (progress: SearchProgress) => void
+) {
+  for await (const { event, data } of functionEvents("search-videos", { ...body, stream: true })) {
+    if (event === "done") return data;
+    if (event === "error") throw streamError(data, "Unknown error");
+    onProgress(data);
+  }
+
+  throw new Error("Search failed: the stream ended before the search finished");
+}
+
+function streamError(body: { error?: string; syntaxErrors?: QuerySyntaxError[] } | null, fallback: string): Error {
+  console.error("Search error:", body?.error || fallback);
+  if (body?.syntaxErrors?.length) {
+    return new SearchQueryError(body.syntaxErrors);
+  }
+  return new Error(`Search failed: ${body?.error || fallback}`);
+}
+
+// Save a search for re-running; watched searches also notify on new uploads
+export async function saveSearch(
+  name: string,
+  query: string,
+  filters: SearchFilters = {},
+  watch = false
+): Promise<SavedSearch> {
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .insert({ name, query, filters: filters as Json, watch })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save search: ${error.message}`);
+  }
+
+  return data as SavedSearch;
+}
+
+// Get saved searches, most recently used first
+export async function getSavedSearches(): Promise<SavedSearch[]> {
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .select("*")
+    .order("last_run_at", { ascending: false, nullsFirst: false })
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch saved searches: ${error.message}`);
+  }
+
+  return (data || []) as SavedSearch[];
+}
+
+// Rename a saved search
+export async function renameSavedSearch(id: string, name: string): Promise<void> {
+  const { error } = await supabase.from("saved_searches").update({ name }).eq("id", id);
+
+  if (error) {
+    throw new Error(`Failed to rename saved search: ${error.message}`);
+  }
+}
+
+// Turn watching a saved search on or off
+export async function setSavedSearchWatch(id: string, watch: boolean): Promise<void> {
+  const { error } = await supabase.from("saved_searches").update({ watch }).eq("id", id);
+
+  if (error) {
+    throw new Error(`Failed to update saved search: ${error.message}`);
+  }
+}
+
+// Delete a saved search (its notifications cascade)
+export async function deleteSavedSearch(id: string): Promise<void> {
+  const { error } = await supabase.from("saved_searches").delete().eq("id", id);
+
+  if (error) {
+    throw new Error(`Failed to delete saved search: ${error.message}`);
+  }
+}
+
+// Re-run a saved search with its stored filters
+export async function runSavedSearch(
+  savedSearch: SavedSearch,
+  videoId?: string,
+  options: SearchOptions = {}
+): Promise<SearchResponse> {
+  const response = await searchVideos(savedSearch.query, videoId, savedSearch.filters, options);
+
+  const { error } = await supabase
+    .from("saved_searches")
+    .update({ last_run_at: new Date().toISOString() })
+    .eq("id", savedSearch.id);
+
+  if (error) {
+    console.error("Failed to record saved search run:", error);
+  }
+
+  return response;
+}
+
+// Get unread watchlist notifications, newest first
+export async function getUnreadNotifications(): Promise<SearchNotification[]> {
+  const { data, error } = await supabase
+    .from("search_notifications")
+    .select("*, saved_searches(name), videos(title)")
+    .is("read_at", null)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch notifications: ${error.message}`);
+  }
+
+  return (data || []).map(({ saved_searches, videos, ...notification }) => ({
+    ...notification,
+    saved_search_name: saved_searches?.name ?? "Saved search",
+    video_title: videos?.title ?? "Untitled video",
+  }));
+}
+
+// Mark notifications as read
+export async function markNotificationsRead(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  const { error } = await supabase
+    .from("search_notifications")
+    .update({ read_at: new Date().toISOString() })
+    .in("id", ids);
+
+  if (error) {
+    throw new Error(`Failed to update notifications: ${error.message}`);
+  }
+}
+
+// Get the search index version and search cache usage
+export async function getSearchCacheStats(): Promise<SearchCacheStats> {
+  const { data, error } = await supabase.rpc("search_cache_stats");
+
+  if (error) {
+    throw new Error(`Failed to load search cache stats: ${error.message}`);
+  }
+
+  const stats = data?.[0];
+  return {
+    index_version: Number(stats?.index_version ?? 0),
+    entries: Number(stats?.entries ?? 0),
+    hits: Number(stats?.hits ?? 0),
+  };
+}
+
+// Drop every cached search response; returns how many were removed. Only
+// search-videos may clear the cache, so the request goes through it.
+export async function clearSearchCache(): Promise<number> {
+  const { data, error } = await supabase.functions.invoke("search-videos", {
+    body: { invalidateCache: true },
+  });
+
+  if (error) {
+    throw new Error(`Failed to clear search cache: ${error.message}`);
+  }
+
+  return data?.removed ?? 0;
+}
+
+// Video Q&A; pass the conversationId of the previous answer to ask a follow-up
+export async function askVideoQuestion(
+  videoId: string,
+  question: string,
+  conversationId?: string,
+  options: QAOptions = {}
+): Promise<QAAnswer> {
+  const body = { videoId, question, conversationId };
+
+  let data;
+  if (options.onToken) {
+    data = await streamAnswer(body, options.onToken, options.signal);
+  } else {
+    const invoked = await supabase.functions.invoke("video-qa", { body });
+    if (invoked.error) {
+      console.error("Q&A error:", invoked.error);
+      throw new Error(`Q&A failed: ${invoked.error.message}`);
+    }
+    data = invoked.data;
   }
 
   return {
     answer: data?.answer || "Unable to process question",
+    citations: data?.citations || [],
     relevant_timestamps: data?.relevant_timestamps || [],
+    conversationId: data?.conversationId,
+    context_segment_ids: data?.context_segment_ids || [],
+  };
+}
+
+// Runs video-qa as a stream, forwarding the answer text as it is written and
+// resolving with the saved answer. Aborting the signal stops the answer, and
+// nothing is saved.
+async function streamAnswer(body: Record<string, unknown>, onToken: (text: string) => void, signal?: AbortSignal) {
+  for await (const { event, data } of functionEvents("video-qa", { ...body, stream: true }, signal)) {
+    if (event === "done") return data;
+    if (event === "error") {
+      console.error("Q&A error:", data?.error);
+      throw new Error(`Q&A failed: ${data?.error || "Unknown error"}`);
+    }
+    onToken(data.text);
+  }
+
+  throw new Error("Q&A failed: the answer stopped before it was finished");
+}
+
+// Q&A across the library, or across the given videos; answers are not saved
+export async function askLibraryQuestion(
+  question: string,
+  videoIds: string[] = [],
+  options: QAOptions = {}
+): Promise<LibraryAnswer> {
+  const body = { question, videoIds };
+
+  let data;
+  if (options.onToken) {
+    data = await streamAnswer(body, options.onToken, options.signal);
+  } else {
+    const invoked = await supabase.functions.invoke("video-qa", { body });
+    if (invoked.error) {
+      console.error("Q&A error:", invoked.error);
+      throw new Error(`Q&A failed: ${invoked.error.message}`);
+    }
+    data = invoked.data;
+  }
+
+  return {
+    answer: data?.answer || "Unable to process question",
+    citations: data?.citations || [],
+    context_segment_ids: data?.context_segment_ids || [],
   };
 }
 
+// Get the Q&A threads of a video, most recently used first
+export async function getConversations(videoId: string): Promise<QAConversation[]> {
+  const { data, error } = await supabase
+    .from("qa_conversations")
+    .select("*")
+    .eq("video_id", videoId)
+    .order("updated_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch conversations: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+// Get the questions and answers of a thread in the order they were asked
+export async function getConversationTurns(conversationId: string): Promise<QATurn[]> {
+  const { data, error } = await supabase
+    .from("video_qa_history")
+    .select("id, question, answer, citations, relevant_timestamps, context_segment_ids, created_at")
+    .eq("conversation_id", conversationId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch conversation: ${error.message}`);
+  }
+
+  return (data || []).map((turn) => ({
+    ...turn,
+    citations: (turn.citations as unknown as QACitation[]) || [],
+    relevant_timestamps: (turn.relevant_timestamps as string[]) || [],
+  }));
+}
+
+// Delete a Q&A thread with all of its questions and answers
+export async function deleteConversation(conversationId: string): Promise<void> {
+  const { error } = await supabase.from("qa_conversations").delete().eq("id", conversationId);
+
+  if (error) {
+    throw new Error(`Failed to delete conversation: ${error.message}`);
+  }
+}
+
 // Get video URL
 export function getVideoUrl(storagePath: string): string {
   const { data } = supabase.storage.from("videos").getPublicUrl(storagePath);
   return data.publicUrl;
 }
 
+// Storage list and remove calls take at most this many files
+const STORAGE_BATCH_SIZE = 1000;
+
+// Paths of the frames analysis stored for a video under frames/<id>/
+async function videoFramePaths(id: string): Promise<string[]> {
+  const folder = `frames/${id}`;
+  const paths: string[] = [];
+
+  for (let offset = 0; ; offset += STORAGE_BATCH_SIZE) {
+    const { data, error } = await supabase.storage
+      .from("videos")
+      .list(folder, { limit: STORAGE_BATCH_SIZE, offset });
+
+    if (error) {
+      throw new Error(`Failed to list video frames: ${error.message}`);
+    }
+
+    paths.push(...(data || []).map((file) => `${folder}/${file.name}`));
+    if (!data || data.length < STORAGE_BATCH_SIZE) return paths;
+  }
+}
+
 // Delete video
 export async function deleteVideo(id: string): Promise<void> {
   const video = await getVideo(id);
   if (!video) return;
 
-  // Delete from storage
-  await supabase.storage.from("videos").remove([video.storage_path]);
+  // Delete from storage: the upload and the frames analysis sampled from it
+  const paths = [video.storage_path, ...(await videoFramePaths(id))];
+  for (let start = 0; start < paths.length; start += STORAGE_BATCH_SIZE) {
+    await supabase.storage.from("videos").remove(paths.slice(start, start + STORAGE_BATCH_SIZE));
+  }
 
   // Delete from database (segments will cascade)
   const { error } = await supabase.from("videos").delete().eq("id", id);
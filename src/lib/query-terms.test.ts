@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { hasFacetTerm, toggleFacetTerm } from "./query-terms";
+
+describe("hasFacetTerm", () => {
+  it.each([
+    ["budget object:person", "object:person", true],
+    ["budget object:person>=2", "object:person", false],
+    ["object:carpet", "object:car", false],
+    ["-object:car", "object:car", false],
+    ["NOT object:car", "object:car", false],
+    ['video:"Team sync" budget', 'video:"Team sync"', true],
+    ["after:1:00 before:5:00", "after:1:00 before:5:00", true],
+    ["after:1:00", "after:1:00 before:5:00", false],
+    ["(object:car OR object:bus)", "object:car", true],
+  ])("%s has %s: %s", (query, facet, expected) => {
+    expect(hasFacetTerm(query, facet)).toBe(expected);
+  });
+});
+
+describe("toggleFacetTerm", () => {
+  it.each([
+    ["budget", "object:person", "budget object:person"],
+    ["", "object:person", "object:person"],
+    ["budget object:person>=2", "object:person", "budget object:person>=2 object:person"],
+    ["object:carpet", "object:car", "object:carpet object:car"],
+    ["after:1:00", "after:1:00 before:5:00", "after:1:00 before:5:00"],
+    ["-object:car", "object:car", "-object:car object:car"],
+  ])("adds to %j: %s", (query, facet, expected) => {
+    expect(toggleFacetTerm(query, facet)).toBe(expected);
+  });
+
+  it.each([
+    ["budget object:person report", "object:person", "budget report"],
+    ["object:person  budget", "object:person", "budget"],
+    ['budget video:"Team sync"', 'video:"Team sync"', "budget"],
+    ["after:1:00 budget before:5:00", "after:1:00 before:5:00", "budget"],
+    ["object:car OR object:bus", "object:car", "object:bus"],
+    ["object:bus OR object:car budget", "object:car", "object:bus budget"],
+    ["object:car -object:car", "object:car", "-object:car"],
+  ])("removes from %j: %s", (query, facet, expected) => {
+    expect(toggleFacetTerm(query, facet)).toBe(expected);
+  });
+});
@@ -0,0 +1,58 @@
+import { QueryToken, queryTokens } from "../../supabase/functions/search-videos/query-language.ts";
+
+// Facet terms in the search box. A facet is active only when each of its terms
+// appears as a whole, un-negated term of the query as the search parser splits
+// it, so object:person matches neither object:person>=2 nor object:personnel.
+
+// A facet's own terms, e.g. after:1:00 and before:5:00 for a time bucket
+function facetTerms(facet: string): string[] {
+  return queryTokens(facet).flatMap((token) => (token.kind === "term" ? [token.raw] : []));
+}
+
+function isOperator(token: QueryToken | undefined): boolean {
+  return token?.kind === "or" || token?.kind === "and";
+}
+
+function isPositiveTerm(tokens: QueryToken[], index: number): boolean {
+  return tokens[index].kind === "term" && tokens[index - 1]?.kind !== "not";
+}
+
+function positiveTerms(tokens: QueryToken[]): Set<string> {
+  return new Set(
+    tokens.flatMap((token, index) => (token.kind === "term" && isPositiveTerm(tokens, index) ? [token.raw] : []))
+  );
+}
+
+export function hasFacetTerm(query: string, facet: string): boolean {
+  const present = positiveTerms(queryTokens(query));
+  const terms = facetTerms(facet);
+  return terms.length > 0 && terms.every((term) => present.has(term));
+}
+
+// Removes the facet's terms when it is active, else appends the ones missing.
+// A removed term takes an OR or AND that joined it along, so the query left
+// behind still parses.
+export function toggleFacetTerm(query: string, facet: string): string {
+  const terms = facetTerms(facet);
+  const tokens = queryTokens(query);
+
+  if (!hasFacetTerm(query, facet)) {
+    const present = positiveTerms(tokens);
+    return [query.trim(), ...terms.filter((term) => !present.has(term))].filter(Boolean).join(" ");
+  }
+
+  const removed = new Set<number>();
+  tokens.forEach((token, index) => {
+    if (token.kind !== "term" || !terms.includes(token.raw) || !isPositiveTerm(tokens, index)) return;
+    removed.add(index);
+    if (isOperator(tokens[index - 1]) && !removed.has(index - 1)) removed.add(index - 1);
+    else if (isOperator(tokens[index + 1])) removed.add(index + 1);
+  });
+
+  let refined = query;
+  for (const index of [...removed].sort((a, b) => b - a)) {
+    const { start, end } = tokens[index].span;
+    refined = `${refined.slice(0, start).trimEnd()} ${refined.slice(end).trimStart()}`;
+  }
+  return refined.trim();
+}
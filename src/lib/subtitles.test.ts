@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { parseSubtitles } from "./subtitles";
+
+describe("parseSubtitles", () => {
+  it("parses SubRip cues with counters and comma milliseconds", () => {
+    const result = parseSubtitles("1\n00:00:01,500 --> 00:00:03,000\nHello <i>there</i>\n\n2\n00:01:02,000 --> 00:01:04,250\nSecond\nline\n", "talk.srt");
+
+    expect(result).toEqual({
+      format: "srt",
+      cues: [
+        { start_seconds: 1.5, end_seconds: 3, text: "Hello there" },
+        { start_seconds: 62, end_seconds: 64.25, text: "Second line" },
+      ],
+      errors: [],
+    });
+  });
+
+  it("parses WebVTT with optional hours, cue settings and skipped NOTE blocks", () => {
+    const result = parseSubtitles(
+      "WEBVTT - talk\nKind: captions\n\nNOTE a comment\n\nintro\n01:02.5 --> 01:04.000 align:start\n<v Ana>{\\an8}Hi &amp; welcome\n",
+      "talk.vtt"
+    );
+
+    expect(result.format).toBe("vtt");
+    expect(result.errors).toEqual([]);
+    expect(result.cues).toEqual([{ start_seconds: 62.5, end_seconds: 64, text: "Hi & welcome" }]);
+  });
+
+  it("strips a byte order mark and accepts CRLF line endings", () => {
+    const result = parseSubtitles("\uFEFF1\r\n00:00:00,000 --> 00:00:01,000\r\nHi\r\n");
+    expect(result.cues).toEqual([{ start_seconds: 0, end_seconds: 1, text: "Hi" }]);
+  });
+
+  it.each([
+    ["a missing timing line", "1\nHello\n", { line: 2, message: "Expected a cue timing line (start --> end)" }],
+    ["an invalid start", "1\n00:00:xx,000 --> 00:00:01,000\nHi\n", { line: 2, message: 'Invalid start timestamp "00:00:xx,000"' }],
+    ["an invalid end", "1\n00:00:00,000 --> 00:61:00,000\nHi\n", { line: 2, message: 'Invalid end timestamp "00:61:00,000"' }],
+    ["a cue ending before it starts", "1\n00:00:02,000 --> 00:00:01,000\nHi\n", { line: 2, message: "Cue ends before it starts" }],
+    ["a cue without text", "1\n00:00:00,000 --> 00:00:01,000\n<i></i>\n", { line: 2, message: "Cue has no text" }],
+  ])("reports %s with its line number", (_, content, error) => {
+    expect(parseSubtitles(content, "broken.srt").errors).toEqual([error]);
+  });
+
+  it("rejects WebVTT files without a header", () => {
+    expect(parseSubtitles("00:01.000 --> 00:02.000\nHi\n", "talk.vtt").errors).toEqual([
+      { line: 1, message: 'WebVTT files must start with "WEBVTT"' },
+    ]);
+  });
+
+  it("reports files without any cues", () => {
+    expect(parseSubtitles("\n\n", "empty.srt").errors).toEqual([{ line: 1, message: "No subtitle cues found" }]);
+  });
+});
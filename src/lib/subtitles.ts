@@ -0,0 +1,149 @@
+// Parser for sidecar subtitle files (SubRip .srt and WebVTT .vtt). Cues are
+// returned in file order; problems are reported with 1-based line numbers so
+// they can be shown next to the file in the uploader.
+
+export interface SubtitleCue {
+  start_seconds: number;
+  end_seconds: number;
+  text: string;
+}
+
+export interface SubtitleParseError {
+  line: number;
+  message: string;
+}
+
+export interface SubtitleParseResult {
+  format: "srt" | "vtt";
+  cues: SubtitleCue[];
+  errors: SubtitleParseError[];
+}
+
+const TIMING_ARROW = "-->";
+// [hh:]mm:ss(,|.)mmm - hours are optional in WebVTT
+const TIMESTAMP_PATTERN = /^(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})$/;
+
+function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(TIMESTAMP_PATTERN);
+  if (!match) return null;
+
+  const [, hours, minutes, seconds, millis] = match;
+  if (Number(minutes) > 59 || Number(seconds) > 59) return null;
+
+  return (
+    Number(hours || 0) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    Number(millis.padEnd(3, "0")) / 1000
+  );
+}
+
+// Drops styling markup: HTML-like tags (<i>, <v Speaker>, <00:01.000>) and
+// SSA override blocks such as {\an8}.
+function cleanCueText(lines: string[]): string {
+  return lines
+    .join(" ")
+    .replace(/<[^>]*>/g, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+interface Block {
+  startLine: number;
+  lines: string[];
+}
+
+function splitBlocks(lines: string[], firstLine: number): Block[] {
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+
+  for (let i = firstLine; i < lines.length; i++) {
+    if (lines[i].trim() === "") {
+      current = null;
+      continue;
+    }
+    if (!current) {
+      current = { startLine: i + 1, lines: [] };
+      blocks.push(current);
+    }
+    current.lines.push(lines[i]);
+  }
+
+  return blocks;
+}
+
+export function parseSubtitles(content: string, filename = ""): SubtitleParseResult {
+  const lines = content.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/);
+  const isVtt = filename.toLowerCase().endsWith(".vtt") || lines[0]?.startsWith("WEBVTT");
+  const format = isVtt ? "vtt" : "srt";
+  const cues: SubtitleCue[] = [];
+  const errors: SubtitleParseError[] = [];
+
+  if (isVtt && !/^WEBVTT(\s|$)/.test(lines[0] || "")) {
+    errors.push({ line: 1, message: 'WebVTT files must start with "WEBVTT"' });
+    return { format, cues, errors };
+  }
+
+  // The WebVTT header block runs until the first blank line
+  let firstLine = 0;
+  if (isVtt) {
+    while (firstLine < lines.length && lines[firstLine].trim() !== "") firstLine++;
+  }
+
+  for (const block of splitBlocks(lines, firstLine)) {
+    if (isVtt && /^(NOTE|STYLE|REGION)(\s|$)/.test(block.lines[0])) {
+      continue;
+    }
+
+    // An optional identifier (the SRT counter or a WebVTT cue id) precedes the timing line
+    const timingOffset = block.lines[0].includes(TIMING_ARROW) ? 0 : 1;
+    const timingLine = block.lines[timingOffset];
+    const timingLineNumber = block.startLine + timingOffset;
+
+    if (!timingLine || !timingLine.includes(TIMING_ARROW)) {
+      errors.push({
+        line: timingLine ? timingLineNumber : block.startLine,
+        message: "Expected a cue timing line (start --> end)",
+      });
+      continue;
+    }
+
+    const [startText, rest] = timingLine.split(TIMING_ARROW);
+    // WebVTT allows cue settings after the end timestamp
+    const endText = rest.trim().split(/\s+/)[0] || "";
+    const start = parseTimestamp(startText);
+    const end = parseTimestamp(endText);
+
+    if (start === null) {
+      errors.push({ line: timingLineNumber, message: `Invalid start timestamp "${startText.trim()}"` });
+      continue;
+    }
+    if (end === null) {
+      errors.push({ line: timingLineNumber, message: `Invalid end timestamp "${endText}"` });
+      continue;
+    }
+    if (end < start) {
+      errors.push({ line: timingLineNumber, message: "Cue ends before it starts" });
+      continue;
+    }
+
+    const text = cleanCueText(block.lines.slice(timingOffset + 1));
+    if (!text) {
+      errors.push({ line: timingLineNumber, message: "Cue has no text" });
+      continue;
+    }
+
+    cues.push({ start_seconds: start, end_seconds: end, text });
+  }
+
+  if (cues.length === 0 && errors.length === 0) {
+    errors.push({ line: 1, message: "No subtitle cues found" });
+  }
+
+  return { format, cues, errors };
+}
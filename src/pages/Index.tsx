@@ -4,21 +4,36 @@ import { LuminaHeader } from "@/components/LuminaHeader";
 import { VideoUploader } from "@/components/VideoUploader";
 import { VideoCard } from "@/components/VideoCard";
 import { VideoPlayer } from "@/components/VideoPlayer";
-import { SearchPanel } from "@/components/SearchPanel";
+import { FrameQuery, SearchPanel } from "@/components/SearchPanel";
 import { VideoQA } from "@/components/VideoQA";
+import { LibraryQA } from "@/components/LibraryQA";
 import { Timeline } from "@/components/Timeline";
 import { Button } from "@/components/ui/button";
-import { getVideos, getVideo, getVideoSegments, getVideoUrl, Video, VideoSegment } from "@/lib/api";
+import {
+  getVideos,
+  getVideo,
+  getVideoSegments,
+  getVideoUrl,
+  getLatestAnalysisJobs,
+  AnalysisJob,
+  TimeRange,
+  Video,
+  VideoSegment,
+} from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
 
 export default function Index() {
   const [videos, setVideos] = useState<Video[]>([]);
+  const [analysisJobs, setAnalysisJobs] = useState<Record<string, AnalysisJob>>({});
   const [selectedVideo, setSelectedVideo] = useState<Video | null>(null);
   const [segments, setSegments] = useState<VideoSegment[]>([]);
   const [currentTime, setCurrentTime] = useState(0);
   const [seekToTime, setSeekToTime] = useState<number | undefined>(undefined);
+  const [highlightRange, setHighlightRange] = useState<TimeRange | undefined>(undefined);
   const [showUploader, setShowUploader] = useState(false);
   const [showSearch, setShowSearch] = useState(false);
+  const [showLibraryQA, setShowLibraryQA] = useState(false);
+  const [frameQuery, setFrameQuery] = useState<FrameQuery | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(true);
   const { toast } = useToast();
 
@@ -26,6 +41,9 @@ export default function Index() {
     try {
       const fetchedVideos = await getVideos();
       setVideos(fetchedVideos);
+
+      const processingIds = fetchedVideos.filter((v) => v.status === "processing").map((v) => v.id);
+      setAnalysisJobs(await getLatestAnalysisJobs(processingIds));
     } catch (error) {
       toast({
         title: "Failed to load videos",
@@ -37,14 +55,18 @@ export default function Index() {
     }
   }, [toast]);
 
+  const hasProcessing = videos.some((v) => v.status === "processing");
+
   useEffect(() => {
     loadVideos();
-    
-    // Poll for status updates
-    const interval = setInterval(loadVideos, 10000);
-    return () => clearInterval(interval);
   }, [loadVideos]);
 
+  useEffect(() => {
+    // Poll for status updates, faster while analysis progress is moving
+    const interval = setInterval(loadVideos, hasProcessing ? 3000 : 10000);
+    return () => clearInterval(interval);
+  }, [loadVideos, hasProcessing]);
+
   const handleVideoSelect = async (video: Video) => {
     if (video.status !== "ready") {
       toast({
@@ -56,6 +78,7 @@ export default function Index() {
 
     setSelectedVideo(video);
     setSeekToTime(undefined);
+    setHighlightRange(undefined);
     
     try {
       const videoSegments = await getVideoSegments(video.id);
@@ -66,7 +89,19 @@ export default function Index() {
     }
   };
 
-  const handleSearchResultClick = async (videoId: string, timestamp: number) => {
+  const handleFindSimilar = (time: number) => {
+    if (!selectedVideo) return;
+    const minutes = Math.floor(time / 60);
+    const seconds = Math.floor(time % 60);
+    setFrameQuery({
+      videoId: selectedVideo.id,
+      timestampSeconds: time,
+      label: `${selectedVideo.title} at ${minutes}:${seconds.toString().padStart(2, "0")}`,
+    });
+    setShowSearch(true);
+  };
+
+  const handleSearchResultClick = async (videoId: string, timestamp: number, range?: TimeRange) => {
     if (!selectedVideo || selectedVideo.id !== videoId) {
       const video = await getVideo(videoId);
       if (video) {
@@ -74,6 +109,7 @@ export default function Index() {
       }
     }
     setSeekToTime(timestamp);
+    setHighlightRange(range);
   };
 
   const handleTimestampClick = (timestamp: string) => {
@@ -95,6 +131,8 @@ export default function Index() {
       <LuminaHeader
         onUploadClick={() => setShowUploader(true)}
         onSearchClick={() => setShowSearch(true)}
+        onAskClick={() => setShowLibraryQA(true)}
+        onNotificationClick={handleSearchResultClick}
       />
 
       <main className="pt-20 pb-12">
@@ -181,6 +219,7 @@ export default function Index() {
                 <VideoCard
                   key={video.id}
                   video={video}
+                  job={analysisJobs[video.id]}
                   onClick={() => handleVideoSelect(video)}
                 />
               ))}
@@ -212,6 +251,7 @@ export default function Index() {
                   title={selectedVideo.title}
                   seekToTime={seekToTime}
                   onTimeUpdate={setCurrentTime}
+                  onFindSimilar={handleFindSimilar}
                 />
 
                 <div className="glass rounded-2xl p-4">
@@ -219,6 +259,7 @@ export default function Index() {
                     segments={segments}
                     currentTime={currentTime}
                     onSegmentClick={(t) => setSeekToTime(t)}
+                    highlightRange={highlightRange}
                   />
                 </div>
               </div>
@@ -228,6 +269,7 @@ export default function Index() {
                 <VideoQA
                   videoId={selectedVideo.id}
                   videoTitle={selectedVideo.title}
+                  segments={segments}
                   onTimestampClick={handleTimestampClick}
                 />
               </div>
@@ -248,6 +290,14 @@ export default function Index() {
         onClose={() => setShowSearch(false)}
         videoId={selectedVideo?.id}
         onResultClick={handleSearchResultClick}
+        frameQuery={frameQuery}
+      />
+
+      <LibraryQA
+        open={showLibraryQA}
+        onClose={() => setShowLibraryQA(false)}
+        videos={readyVideos}
+        onCitationClick={handleSearchResultClick}
       />
     </div>
   );
@@ -0,0 +1,106 @@
+// Thin client for the OpenAI-compatible AI gateway used by every edge function.
+// Point AI_GATEWAY_URL at a local stand-in (see scripts/ai-gateway-stub.ts) to
+// run the pipeline offline.
+const DEFAULT_GATEWAY_URL = "https://ai.gateway.lovable.dev/v1";
+export const DEFAULT_MODEL = "google/gemini-2.5-flash";
+
+export class AiGatewayError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "AiGatewayError";
+  }
+}
+
+export type ChatContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string | ChatContentPart[];
+}
+
+export function gatewayUrl(path: string): string {
+  const base = Deno.env.get("AI_GATEWAY_URL") || DEFAULT_GATEWAY_URL;
+  return `${base.replace(/\/+$/, "")}${path}`;
+}
+
+export function gatewayHeaders(): Record<string, string> {
+  const apiKey = Deno.env.get("LOVABLE_API_KEY");
+  if (!apiKey) {
+    throw new Error("LOVABLE_API_KEY is not configured");
+  }
+  return { Authorization: `Bearer ${apiKey}` };
+}
+
+// Maps a failed gateway response onto an AiGatewayError, keeping the
+// user-facing messages for rate limiting and exhausted credits.
+export async function gatewayError(response: Response): Promise<AiGatewayError> {
+  const errorText = await response.text();
+  console.error("AI API error:", response.status, errorText);
+
+  if (response.status === 429) {
+    return new AiGatewayError(429, "Rate limited. Please try again later.");
+  }
+  if (response.status === 402) {
+    return new AiGatewayError(402, "Payment required. Please add funds to your workspace.");
+  }
+  return new AiGatewayError(response.status, `AI gateway error: ${response.status}`);
+}
+
+export async function chatCompletion(messages: ChatMessage[], model = DEFAULT_MODEL): Promise<string> {
+  const response = await fetch(gatewayUrl("/chat/completions"), {
+    method: "POST",
+    headers: { ...gatewayHeaders(), "Content-Type": "application/json" },
+    body: JSON.stringify({ model, messages }),
+  });
+
+  if (!response.ok) {
+    throw await gatewayError(response);
+  }
+
+  const aiResult = await response.json();
+  return aiResult.choices?.[0]?.message?.content || "";
+}
+
+// Streams a chat completion, yielding the content deltas as they arrive.
+// Aborting the signal cancels the upstream request.
+export async function* chatCompletionStream(
+  messages: ChatMessage[],
+  model = DEFAULT_MODEL,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  const response = await fetch(gatewayUrl("/chat/completions"), {
+    method: "POST",
+    headers: { ...gatewayHeaders(), "Content-Type": "application/json" },
+    body: JSON.stringify({ model, messages, stream: true }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw await gatewayError(response);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = "";
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffered += value;
+
+      const lines = buffered.split("\n");
+      buffered = lines.pop() || "";
+      for (const line of lines) {
+        if (!line.startsWith("data:")) continue;
+        const data = line.slice(5).trim();
+        if (data === "[DONE]") return;
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  } finally {
+    // Stops the upstream response when the caller gives up early
+    await reader.cancel().catch(() => {});
+  }
+}
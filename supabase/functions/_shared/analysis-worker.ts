@@ -0,0 +1,17 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Starts an analysis-worker run. The request is awaited so the runtime cannot
+// tear it down before it is sent, but only for a few seconds: the worker
+// replies once its job is done, and the caller only needs it started.
+// Scheduled runs pick queued jobs up anyway if this fails.
+const START_TIMEOUT_MS = 5000;
+
+export async function startAnalysisWorker(supabase: SupabaseClient): Promise<void> {
+  const signal = AbortSignal.timeout(START_TIMEOUT_MS);
+  const { error } = await supabase.functions.invoke("analysis-worker", { body: {}, signal });
+
+  // Timing out means the worker is running, not that it failed to start
+  if (error && !signal.aborted) {
+    console.error("Analysis worker start error:", error);
+  }
+}
@@ -0,0 +1,52 @@
+import { gatewayError, gatewayHeaders } from "./ai-gateway.ts";
+
+// Text embeddings from any OpenAI-compatible /embeddings endpoint. The vector
+// size must match the video_segments.embedding column.
+export const EMBEDDING_DIMENSIONS = 1536;
+const EMBEDDING_BATCH_SIZE = 64;
+
+function embeddingsUrl(): string {
+  const base = Deno.env.get("EMBEDDING_URL") || Deno.env.get("AI_GATEWAY_URL") || "https://ai.gateway.lovable.dev/v1";
+  return `${base.replace(/\/+$/, "")}/embeddings`;
+}
+
+export async function embedTexts(texts: string[]): Promise<number[][]> {
+  const embeddings: number[][] = [];
+
+  for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+    const response = await fetch(embeddingsUrl(), {
+      method: "POST",
+      headers: { ...gatewayHeaders(), "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: Deno.env.get("EMBEDDING_MODEL") || "text-embedding-3-small",
+        input: batch,
+        dimensions: EMBEDDING_DIMENSIONS,
+      }),
+    });
+
+    if (!response.ok) {
+      throw await gatewayError(response);
+    }
+
+    const result = await response.json();
+    const data: { index: number; embedding: number[] }[] = result.data || [];
+    if (data.length !== batch.length) {
+      throw new Error(`Expected ${batch.length} embeddings, received ${data.length}`);
+    }
+
+    for (const item of [...data].sort((a, b) => a.index - b.index)) {
+      if (item.embedding.length !== EMBEDDING_DIMENSIONS) {
+        throw new Error(`Expected ${EMBEDDING_DIMENSIONS}-dimensional embeddings, received ${item.embedding.length}`);
+      }
+      embeddings.push(item.embedding);
+    }
+  }
+
+  return embeddings;
+}
+
+export async function embedText(text: string): Promise<number[]> {
+  const [embedding] = await embedTexts([text]);
+  return embedding;
+}
@@ -0,0 +1,33 @@
+import { corsHeaders } from "./cors.ts";
+
+// Server-Sent Events responses. produce sends named events with JSON data and
+// the stream closes when it settles. The signal aborts when the client goes
+// away, after which sends are dropped; pass it on to upstream requests so they
+// stop too.
+export type SendEvent = (event: string, data: unknown) => void;
+
+export function eventStream(produce: (send: SendEvent, signal: AbortSignal) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+  const disconnected = new AbortController();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SendEvent = (event, data) => {
+        if (disconnected.signal.aborted) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+      try {
+        await produce(send, disconnected.signal);
+      } finally {
+        if (!disconnected.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      disconnected.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: { ...corsHeaders, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+  });
+}
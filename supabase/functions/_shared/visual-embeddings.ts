@@ -0,0 +1,65 @@
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { gatewayError, gatewayHeaders } from "./ai-gateway.ts";
+
+// Image embeddings for query-by-frame search, from an OpenAI-style
+// /embeddings endpoint that accepts image data URLs (e.g. a CLIP model served
+// by infinity on CPU, or scripts/ai-gateway-stub.ts). Visual embeddings are
+// optional: without VISUAL_EMBEDDING_URL the analysis pipeline skips them.
+// The vector size must match the video_segments.visual_embedding column.
+export const VISUAL_EMBEDDING_DIMENSIONS = 512;
+const VISUAL_EMBEDDING_BATCH_SIZE = 16;
+
+export function visualEmbeddingsEnabled(): boolean {
+  return Boolean(Deno.env.get("VISUAL_EMBEDDING_URL"));
+}
+
+function visualEmbeddingsUrl(): string {
+  const base = Deno.env.get("VISUAL_EMBEDDING_URL");
+  if (!base) {
+    throw new Error("Visual search is not configured (VISUAL_EMBEDDING_URL is unset)");
+  }
+  return `${base.replace(/\/+$/, "")}/embeddings`;
+}
+
+export function jpegDataUrl(bytes: Uint8Array): string {
+  return `data:image/jpeg;base64,${encodeBase64(bytes)}`;
+}
+
+// Embeds images given as data URLs, in input order
+export async function embedImages(dataUrls: string[]): Promise<number[][]> {
+  const embeddings: number[][] = [];
+
+  for (let start = 0; start < dataUrls.length; start += VISUAL_EMBEDDING_BATCH_SIZE) {
+    const batch = dataUrls.slice(start, start + VISUAL_EMBEDDING_BATCH_SIZE);
+    const response = await fetch(visualEmbeddingsUrl(), {
+      method: "POST",
+      headers: { ...gatewayHeaders(), "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: Deno.env.get("VISUAL_EMBEDDING_MODEL") || "openai/clip-vit-base-patch32",
+        input: batch,
+        modality: "image",
+      }),
+    });
+
+    if (!response.ok) {
+      throw await gatewayError(response);
+    }
+
+    const result = await response.json();
+    const data: { index: number; embedding: number[] }[] = result.data || [];
+    if (data.length !== batch.length) {
+      throw new Error(`Expected ${batch.length} image embeddings, received ${data.length}`);
+    }
+
+    for (const item of [...data].sort((a, b) => a.index - b.index)) {
+      if (item.embedding.length !== VISUAL_EMBEDDING_DIMENSIONS) {
+        throw new Error(
+          `Expected ${VISUAL_EMBEDDING_DIMENSIONS}-dimensional image embeddings, received ${item.embedding.length}`
+        );
+      }
+      embeddings.push(item.embedding);
+    }
+  }
+
+  return embeddings;
+}
@@ -0,0 +1,48 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { embedTexts } from "../_shared/embeddings.ts";
+
+// Segments analyzed before embeddings existed have embedding_text but no
+// embedding, so semantic search cannot find them. When the job queue is empty
+// the worker embeds a batch of them per run until none are left.
+const BACKFILL_BATCH_SIZE = Number(Deno.env.get("EMBEDDING_BACKFILL_BATCH") || 64);
+
+interface UnembeddedSegment {
+  id: string;
+  embedding_text: string;
+}
+
+// Embeds one batch of segments that have none yet. Returns the number of
+// segments embedded.
+export async function backfillEmbeddings(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase
+    .from("video_segments")
+    .select("id, embedding_text")
+    .is("embedding", null)
+    .not("embedding_text", "is", null)
+    .neq("embedding_text", "")
+    .order("created_at", { ascending: true })
+    .limit(BACKFILL_BATCH_SIZE);
+
+  if (error) {
+    console.error("Backfill lookup error:", error);
+    throw error;
+  }
+
+  const segments = (data || []) as UnembeddedSegment[];
+  if (segments.length === 0) return 0;
+
+  const embeddings = await embedTexts(segments.map((segment) => segment.embedding_text));
+  const updates = await Promise.all(
+    segments.map((segment, index) =>
+      supabase.from("video_segments").update({ embedding: embeddings[index] }).eq("id", segment.id)
+    )
+  );
+
+  const failed = updates.find((update) => update.error);
+  if (failed?.error) {
+    console.error("Backfill update error:", failed.error);
+    throw failed.error;
+  }
+
+  return segments.length;
+}
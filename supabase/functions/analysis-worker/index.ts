@@ -0,0 +1,177 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { startAnalysisWorker } from "../_shared/analysis-worker.ts";
+import { MediaToolsUnavailableError } from "../analyze-video/media.ts";
+import { runAnalysis } from "../analyze-video/pipeline.ts";
+import { backfillEmbeddings } from "./backfill.ts";
+import { evaluateWatches } from "./watches.ts";
+
+// Processes one queued analysis job per invocation, then hands off to a fresh
+// invocation if it did any work. Invoked by analyze-video and every minute by
+// pg_cron, which also picks up retries once their backoff has expired. With no
+// job queued, it embeds segments left without embeddings instead.
+const BASE_BACKOFF_SECONDS = Number(Deno.env.get("JOB_BACKOFF_SECONDS") || 30);
+const MAX_BACKOFF_SECONDS = 3600;
+const STALE_JOB_SECONDS = Number(Deno.env.get("JOB_STALE_SECONDS") || 900);
+
+interface AnalysisJob {
+  id: string;
+  video_id: string;
+  attempts: number;
+  max_attempts: number;
+  options: { frameIntervalSeconds?: number };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { data: claimed, error: claimError } = await supabase
+      .rpc("claim_analysis_job", { stale_after_seconds: STALE_JOB_SECONDS });
+
+    if (claimError) {
+      console.error("Claim error:", claimError);
+      throw claimError;
+    }
+
+    const job: AnalysisJob | undefined = claimed?.[0];
+    if (!job) {
+      const backfilled = await backfillEmbeddings(supabase);
+      if (backfilled > 0) {
+        console.log(`Backfilled embeddings for ${backfilled} segments`);
+        await startAnalysisWorker(supabase);
+      }
+
+      return new Response(
+        JSON.stringify({ processed: false, backfilled }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    console.log(`Running analysis job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`);
+
+    // A job reclaimed from a crashed worker may already be out of attempts
+    if (job.attempts > job.max_attempts) {
+      await failJob(supabase, job, "Analysis timed out");
+    } else {
+      await processJob(supabase, job);
+    }
+
+    await startAnalysisWorker(supabase);
+
+    return new Response(
+      JSON.stringify({ processed: true, jobId: job.id }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (error) {
+    console.error("Error in analysis-worker:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
+
+async function processJob(supabase: SupabaseClient, job: AnalysisJob) {
+  try {
+    const result = await runAnalysis(supabase, job.video_id, job.options || {}, async (stage, progressPercent) => {
+      const { error } = await supabase
+        .from("analysis_jobs")
+        .update({ stage, progress_percent: progressPercent, locked_at: new Date().toISOString() })
+        .eq("id", job.id);
+
+      if (error) {
+        console.error("Progress update error:", error);
+      }
+    });
+
+    const { error: succeedError } = await supabase
+      .from("analysis_jobs")
+      .update({
+        status: "succeeded",
+        stage: "completed",
+        progress_percent: 100,
+        last_error: null,
+        locked_at: null,
+        finished_at: new Date().toISOString(),
+      })
+      .eq("id", job.id);
+
+    // The video is ready either way; the job stays running until its lease
+    // expires and is then reclaimed
+    if (succeedError) {
+      console.error(`Job ${job.id} completion update error:`, succeedError);
+    }
+
+    console.log(`Job ${job.id} succeeded: ${result.segmentsCreated} segments, ${result.wordsTranscribed} words`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error(`Job ${job.id} failed:`, error);
+
+    // A runtime that cannot run ffmpeg will not be able to on a retry either
+    if (job.attempts >= job.max_attempts || error instanceof MediaToolsUnavailableError) {
+      await failJob(supabase, job, message);
+      return;
+    }
+
+    const delaySeconds = Math.min(BASE_BACKOFF_SECONDS * 2 ** (job.attempts - 1), MAX_BACKOFF_SECONDS);
+    const { error: retryError } = await supabase
+      .from("analysis_jobs")
+      .update({
+        status: "pending",
+        last_error: message,
+        locked_at: null,
+        run_after: new Date(Date.now() + delaySeconds * 1000).toISOString(),
+      })
+      .eq("id", job.id);
+
+    if (retryError) {
+      console.error(`Job ${job.id} retry update error:`, retryError);
+    }
+
+    console.log(`Job ${job.id} will retry in ${delaySeconds}s`);
+    return;
+  }
+
+  // The video is searchable now; a failure here must not fail the finished job
+  try {
+    const notified = await evaluateWatches(supabase, job.video_id);
+    console.log(`Watched searches matched video ${job.video_id}: ${notified}`);
+  } catch (error) {
+    console.error("Watch evaluation error:", error);
+  }
+}
+
+async function failJob(supabase: SupabaseClient, job: AnalysisJob, reason: string) {
+  const { error: jobError } = await supabase
+    .from("analysis_jobs")
+    .update({
+      status: "failed",
+      stage: "failed",
+      last_error: reason,
+      locked_at: null,
+      finished_at: new Date().toISOString(),
+    })
+    .eq("id", job.id);
+
+  if (jobError) {
+    console.error(`Job ${job.id} failure update error:`, jobError);
+  }
+
+  const { error } = await supabase
+    .from("videos")
+    .update({ status: "failed", failure_reason: reason })
+    .eq("id", job.video_id);
+
+  if (error) {
+    console.error("Update error:", error);
+  }
+}
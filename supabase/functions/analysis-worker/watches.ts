@@ -0,0 +1,87 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { runSearch } from "../search-videos/search.ts";
+import { MAX_PAGE_SIZE } from "../search-videos/pagination.ts";
+import { SearchFilters, SearchResult } from "../search-videos/types.ts";
+
+interface WatchedSearch {
+  id: string;
+  name: string;
+  query: string;
+  filters: SearchFilters;
+}
+
+// Re-runs every watched saved search against a video that just finished
+// analysis, and records its matches as an unread notification. Returns the
+// number of notifications written.
+export async function evaluateWatches(supabase: SupabaseClient, videoId: string): Promise<number> {
+  const { data: searches, error } = await supabase
+    .from("saved_searches")
+    .select("id, name, query, filters")
+    .eq("watch", true);
+
+  if (error) {
+    console.error("Watch lookup error:", error);
+    throw error;
+  }
+
+  let notified = 0;
+  for (const search of (searches || []) as WatchedSearch[]) {
+    // One broken saved query must not hold up the others
+    try {
+      const matches = await watchMatches(supabase, search, videoId);
+      if (matches.length === 0) continue;
+
+      const top = matches.reduce((best, result) => (result.relevance_score > best.relevance_score ? result : best));
+      const { error: upsertError } = await supabase
+        .from("search_notifications")
+        .upsert(
+          {
+            saved_search_id: search.id,
+            video_id: videoId,
+            match_count: matches.length,
+            top_timestamp_seconds: top.timestamp_seconds,
+            top_relevance_score: top.relevance_score,
+            read_at: null,
+            created_at: new Date().toISOString(),
+          },
+          { onConflict: "saved_search_id,video_id" }
+        );
+
+      if (upsertError) throw upsertError;
+      notified++;
+      console.log(`Watched search "${search.name}" matched ${matches.length} segments`);
+    } catch (watchError) {
+      console.error(`Watched search ${search.id} error:`, watchError);
+    }
+  }
+
+  return notified;
+}
+
+// Every result of the search in the video, read page by page so the match
+// count is not capped at one page
+async function watchMatches(supabase: SupabaseClient, search: WatchedSearch, videoId: string): Promise<SearchResult[]> {
+  const matches: SearchResult[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const { results, message, nextCursor } = await runSearch(supabase, {
+      query: search.query,
+      videoId,
+      filters: search.filters,
+      pageSize: MAX_PAGE_SIZE,
+      cursor,
+    });
+
+    // Without the reranker every nearest neighbour comes back, so only
+    // exact text or filter matches count as new matches
+    matches.push(
+      ...(message
+        ? results.filter((result) => result.retrievers.includes("lexical") || result.retrievers.includes("filter"))
+        : results)
+    );
+    cursor = nextCursor ?? undefined;
+  } while (cursor);
+
+  return matches;
+}
@@ -1,179 +1,58 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { startAnalysisWorker } from "../_shared/analysis-worker.ts";
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
-
+// Queues a video for analysis. The work itself happens in analysis-worker,
+// which retries failed jobs with backoff; this endpoint only records the job
+// and nudges a worker so the job starts right away.
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { videoId, videoUrl, title } = await req.json();
-    
-    if (!videoId || !videoUrl) {
-      throw new Error("Missing videoId or videoUrl");
-    }
+    const { videoId, frameIntervalSeconds } = await req.json();
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
+    if (!videoId) {
+      throw new Error("Missing videoId");
     }
 
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    console.log(`Starting analysis for video: ${videoId}`);
-
-    // Generate analysis using multimodal AI
-    const analysisPrompt = `You are an expert video content analyst. Based on the video titled "${title}", generate a comprehensive analysis.
-
-Since I cannot directly view the video content, please generate realistic sample data that would represent a typical video analysis. Create 5-8 meaningful segments that would represent key moments in this video.
-
-For each segment, provide:
-1. A timestamp in seconds (spread across a 2-5 minute video)
-2. A detailed description of what's happening
-3. Any text that might appear on screen (OCR)
-4. Objects that might be detected (people, cars, text overlays, etc.)
-5. A transcript snippet if applicable
-
-Return your analysis as a JSON array with this exact structure:
-[
-  {
-    "timestamp_seconds": 0,
-    "description": "Opening scene description",
-    "ocr_text": "Any on-screen text",
-    "detected_objects": { "person": 1, "text_overlay": 1 },
-    "transcript": "Any spoken words"
-  }
-]
-
-Make the content realistic and useful for semantic search. Only respond with the JSON array, no other text.`;
-
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { role: "system", content: "You are an expert video content analyst. Always respond with valid JSON only." },
-          { role: "user", content: analysisPrompt },
-        ],
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("AI API error:", response.status, errorText);
-      
-      if (response.status === 429) {
-        throw new Error("Rate limited. Please try again later.");
-      }
-      if (response.status === 402) {
-        throw new Error("Payment required. Please add funds to your workspace.");
-      }
-      throw new Error(`AI gateway error: ${response.status}`);
-    }
-
-    const aiResult = await response.json();
-    const analysisContent = aiResult.choices?.[0]?.message?.content;
-    
-    console.log("AI response received:", analysisContent?.substring(0, 200));
+    const { error: videoError } = await supabase
+      .from("videos")
+      .update({ status: "processing", failure_reason: null })
+      .eq("id", videoId);
 
-    let segments = [];
-    try {
-      // Extract JSON from the response
-      const jsonMatch = analysisContent.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        segments = JSON.parse(jsonMatch[0]);
-      } else {
-        throw new Error("No JSON array found in response");
-      }
-    } catch (parseError) {
-      console.error("JSON parse error:", parseError);
-      // Create fallback segments
-      segments = [
-        {
-          timestamp_seconds: 0,
-          description: "Video introduction and opening sequence",
-          ocr_text: title,
-          detected_objects: { "person": 1 },
-          transcript: "Welcome to this video content"
-        },
-        {
-          timestamp_seconds: 30,
-          description: "Main content begins with key information",
-          ocr_text: "",
-          detected_objects: { "text_overlay": 1 },
-          transcript: "Let me explain the main topic"
-        },
-        {
-          timestamp_seconds: 60,
-          description: "Detailed explanation and demonstration",
-          ocr_text: "",
-          detected_objects: { "person": 1 },
-          transcript: "Here you can see how this works"
-        },
-        {
-          timestamp_seconds: 120,
-          description: "Summary and conclusion",
-          ocr_text: "Summary",
-          detected_objects: { "text_overlay": 1 },
-          transcript: "To wrap up, we covered the main points"
-        }
-      ];
+    if (videoError) {
+      console.error("Update error:", videoError);
+      throw videoError;
     }
 
-    // Insert segments into database
-    const segmentRecords = segments.map((seg: any, index: number) => ({
-      video_id: videoId,
-      timestamp_seconds: seg.timestamp_seconds || index * 30,
-      timestamp_display: formatTimestamp(seg.timestamp_seconds || index * 30),
-      description: seg.description || "Video segment",
-      ocr_text: seg.ocr_text || null,
-      detected_objects: seg.detected_objects || {},
-      transcript: seg.transcript || null,
-      embedding_text: `${seg.description || ""} ${seg.transcript || ""} ${seg.ocr_text || ""}`.trim(),
-      confidence_score: 0.85 + Math.random() * 0.15,
-    }));
-
-    const { error: insertError } = await supabase
-      .from("video_segments")
-      .insert(segmentRecords);
+    const { data: job, error: insertError } = await supabase
+      .from("analysis_jobs")
+      .insert({
+        video_id: videoId,
+        options: frameIntervalSeconds ? { frameIntervalSeconds } : {},
+      })
+      .select()
+      .single();
 
     if (insertError) {
       console.error("Insert error:", insertError);
       throw insertError;
     }
 
-    // Update video status to ready
-    const { error: updateError } = await supabase
-      .from("videos")
-      .update({ 
-        status: "ready",
-        duration_seconds: Math.max(...segments.map((s: any) => s.timestamp_seconds || 0)) + 30
-      })
-      .eq("id", videoId);
+    console.log(`Queued analysis job ${job.id} for video: ${videoId}`);
 
-    if (updateError) {
-      console.error("Update error:", updateError);
-      throw updateError;
-    }
-
-    console.log(`Analysis complete for video: ${videoId}, created ${segmentRecords.length} segments`);
+    // Scheduled runs pick the job up anyway if this nudge fails
+    await startAnalysisWorker(supabase);
 
     return new Response(
-      JSON.stringify({ 
-        success: true, 
-        segmentsCreated: segmentRecords.length 
-      }),
+      JSON.stringify({ success: true, jobId: job.id }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
 
@@ -185,10 +64,3 @@ Make the content realistic and useful for semantic search. Only respond with the
     );
   }
 });
-
-function formatTimestamp(seconds: number): string {
-  const hrs = Math.floor(seconds / 3600);
-  const mins = Math.floor((seconds % 3600) / 60);
-  const secs = Math.floor(seconds % 60);
-  return `${hrs.toString().padStart(2, "0")}:${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
-}
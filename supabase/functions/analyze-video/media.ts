@@ -0,0 +1,175 @@
+// Media helpers for the analysis pipeline. Decoding is delegated to ffmpeg,
+// which must be available where the function runs (override the binaries with
+// FFMPEG_PATH / FFPROBE_PATH). The hosted Supabase edge runtime cannot spawn
+// subprocesses at all; there the worker has to run on a self-hosted runtime
+// or under `supabase functions serve` with ffmpeg installed.
+const FFMPEG_PATH = Deno.env.get("FFMPEG_PATH") || "ffmpeg";
+const FFPROBE_PATH = Deno.env.get("FFPROBE_PATH") || "ffprobe";
+
+export interface SampledFrame {
+  timestampSeconds: number;
+  bytes: Uint8Array;
+}
+
+// ffmpeg could not be started at all, as opposed to failing on a file.
+// Retrying cannot help, so the job fails straight away.
+export class MediaToolsUnavailableError extends Error {
+  constructor(command: string, reason: string) {
+    super(
+      `Media extraction needs ${command}, which could not be started here (${reason}). ` +
+      "Run analysis-worker on a runtime that can spawn ffmpeg; the hosted Supabase edge runtime cannot."
+    );
+    this.name = "MediaToolsUnavailableError";
+  }
+}
+
+async function run(command: string, args: string[]): Promise<string> {
+  let output: Deno.CommandOutput;
+  try {
+    output = await new Deno.Command(command, {
+      args,
+      stdout: "piped",
+      stderr: "piped",
+    }).output();
+  } catch (error) {
+    throw new MediaToolsUnavailableError(command, error instanceof Error ? error.message : String(error));
+  }
+  const { code, stdout, stderr } = output;
+
+  if (code !== 0) {
+    const message = new TextDecoder().decode(stderr).trim();
+    throw new Error(`${command} exited with code ${code}: ${message}`);
+  }
+
+  return new TextDecoder().decode(stdout);
+}
+
+// Fails fast, before a large download, when ffmpeg or ffprobe cannot run
+export async function checkMediaTools(): Promise<void> {
+  if (typeof Deno.Command !== "function") {
+    throw new MediaToolsUnavailableError(FFMPEG_PATH, "subprocesses are not supported by this runtime");
+  }
+  await run(FFMPEG_PATH, ["-version"]);
+  await run(FFPROBE_PATH, ["-version"]);
+}
+
+// Streams the video to disk so large uploads never sit in memory.
+export async function downloadVideo(url: string, workDir: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download video: ${response.status}`);
+  }
+
+  const videoPath = `${workDir}/source`;
+  const file = await Deno.open(videoPath, { write: true, create: true, truncate: true });
+  await response.body.pipeTo(file.writable);
+  return videoPath;
+}
+
+export async function probeDuration(videoPath: string): Promise<number> {
+  const output = await run(FFPROBE_PATH, [
+    "-v", "error",
+    "-show_entries", "format=duration",
+    "-of", "default=noprint_wrappers=1:nokey=1",
+    videoPath,
+  ]);
+
+  const duration = parseFloat(output.trim());
+  if (!Number.isFinite(duration)) {
+    throw new Error("Could not determine video duration");
+  }
+  return duration;
+}
+
+// Samples one frame every `intervalSeconds`, widening the interval when the
+// video is long enough to exceed `maxFrames`.
+export async function sampleFrames(
+  videoPath: string,
+  workDir: string,
+  durationSeconds: number,
+  intervalSeconds: number,
+  maxFrames: number
+): Promise<SampledFrame[]> {
+  const interval = Math.max(intervalSeconds, durationSeconds / maxFrames);
+  const framesDir = `${workDir}/frames`;
+  await Deno.mkdir(framesDir);
+
+  await run(FFMPEG_PATH, [
+    "-hide_banner", "-loglevel", "error",
+    "-i", videoPath,
+    "-vf", `fps=1/${interval},scale=640:-2`,
+    "-q:v", "4",
+    `${framesDir}/frame-%05d.jpg`,
+  ]);
+
+  const names: string[] = [];
+  for await (const entry of Deno.readDir(framesDir)) {
+    if (entry.isFile) names.push(entry.name);
+  }
+  names.sort();
+
+  const frames: SampledFrame[] = [];
+  for (const [index, name] of names.slice(0, maxFrames).entries()) {
+    frames.push({
+      timestampSeconds: Math.min(index * interval, durationSeconds),
+      bytes: await Deno.readFile(`${framesDir}/${name}`),
+    });
+  }
+  return frames;
+}
+
+export async function hasAudioStream(videoPath: string): Promise<boolean> {
+  const output = await run(FFPROBE_PATH, [
+    "-v", "error",
+    "-select_streams", "a",
+    "-show_entries", "stream=index",
+    "-of", "csv=p=0",
+    videoPath,
+  ]);
+  return output.trim().length > 0;
+}
+
+export interface AudioChunk {
+  offsetSeconds: number;
+  bytes: Uint8Array;
+}
+
+// Extracts the audio track as 16 kHz mono WAV, the format speech-to-text
+// providers accept most widely, split into chunks that stay under typical
+// upload limits. Returns an empty list when the video has no audio.
+export async function extractAudio(
+  videoPath: string,
+  workDir: string,
+  chunkSeconds: number
+): Promise<AudioChunk[]> {
+  if (!(await hasAudioStream(videoPath))) {
+    return [];
+  }
+
+  const audioDir = `${workDir}/audio`;
+  await Deno.mkdir(audioDir);
+
+  await run(FFMPEG_PATH, [
+    "-hide_banner", "-loglevel", "error",
+    "-i", videoPath,
+    "-vn", "-ac", "1", "-ar", "16000",
+    "-c:a", "pcm_s16le",
+    "-f", "segment", "-segment_time", String(chunkSeconds),
+    `${audioDir}/chunk-%05d.wav`,
+  ]);
+
+  const names: string[] = [];
+  for await (const entry of Deno.readDir(audioDir)) {
+    if (entry.isFile) names.push(entry.name);
+  }
+  names.sort();
+
+  const chunks: AudioChunk[] = [];
+  for (const [index, name] of names.entries()) {
+    chunks.push({
+      offsetSeconds: index * chunkSeconds,
+      bytes: await Deno.readFile(`${audioDir}/${name}`),
+    });
+  }
+  return chunks;
+}
@@ -0,0 +1,317 @@
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { chatCompletion, ChatContentPart } from "../_shared/ai-gateway.ts";
+import { embedTexts } from "../_shared/embeddings.ts";
+import { embedImages, jpegDataUrl, visualEmbeddingsEnabled } from "../_shared/visual-embeddings.ts";
+import { checkMediaTools, downloadVideo, probeDuration, sampleFrames, SampledFrame } from "./media.ts";
+import { loadSubtitleWords } from "./subtitles.ts";
+import { assignWordsToSegments, getTranscriptionProvider, transcribeVideo, TranscriptWord } from "./transcription.ts";
+
+// The analysis pipeline, run by analysis-worker for each queued job:
+// download -> sample frames -> describe frames -> transcribe (or load
+// subtitles) -> embed -> index.
+const DEFAULT_FRAME_INTERVAL_SECONDS = Number(Deno.env.get("FRAME_INTERVAL_SECONDS") || 10);
+const MAX_FRAMES = Number(Deno.env.get("MAX_FRAMES") || 120);
+const FRAME_BATCH_SIZE = Number(Deno.env.get("FRAME_BATCH_SIZE") || 8);
+const AUDIO_CHUNK_SECONDS = Number(Deno.env.get("AUDIO_CHUNK_SECONDS") || 600);
+const WORD_INSERT_BATCH_SIZE = 1000;
+const SIGNED_URL_TTL_SECONDS = 3600;
+
+export type AnalysisStage =
+  | "downloading"
+  | "sampling_frames"
+  | "describing_frames"
+  | "transcribing"
+  | "embedding"
+  | "indexing";
+
+export type ProgressReporter = (stage: AnalysisStage, progressPercent: number) => Promise<void>;
+
+export interface AnalysisOptions {
+  frameIntervalSeconds?: number;
+}
+
+export interface AnalysisResult {
+  segmentsCreated: number;
+  wordsTranscribed: number;
+}
+
+interface FrameAnalysis {
+  index: number;
+  description?: string;
+  ocr_text?: string;
+  detected_objects?: Record<string, number>;
+  confidence?: number;
+}
+
+export async function runAnalysis(
+  supabase: SupabaseClient,
+  videoId: string,
+  options: AnalysisOptions,
+  reportProgress: ProgressReporter
+): Promise<AnalysisResult> {
+  const intervalSeconds = Number(options.frameIntervalSeconds) > 0
+    ? Number(options.frameIntervalSeconds)
+    : DEFAULT_FRAME_INTERVAL_SECONDS;
+
+  const { data: video, error: videoError } = await supabase
+    .from("videos")
+    .select("storage_path")
+    .eq("id", videoId)
+    .single();
+
+  if (videoError || !video) {
+    throw new Error("Video not found");
+  }
+
+  const { data: signedUrl, error: signedUrlError } = await supabase.storage
+    .from("videos")
+    .createSignedUrl(video.storage_path, SIGNED_URL_TTL_SECONDS);
+
+  if (signedUrlError || !signedUrl) {
+    throw new Error(`Could not access video file: ${signedUrlError?.message || "unknown error"}`);
+  }
+  const videoUrl = signedUrl.signedUrl;
+
+  console.log(`Starting analysis for video: ${videoId} (every ${intervalSeconds}s)`);
+
+  const workDir = await Deno.makeTempDir({ prefix: "lumina-analysis-" });
+  try {
+    // Sample frames from the uploaded file
+    await checkMediaTools();
+    await reportProgress("downloading", 5);
+    const videoPath = await downloadVideo(videoUrl, workDir);
+    const durationSeconds = await probeDuration(videoPath);
+
+    await reportProgress("sampling_frames", 15);
+    const frames = await sampleFrames(videoPath, workDir, durationSeconds, intervalSeconds, MAX_FRAMES);
+
+    if (frames.length === 0) {
+      throw new Error("No frames could be extracted from the video");
+    }
+
+    console.log(`Sampled ${frames.length} frames over ${durationSeconds.toFixed(1)}s`);
+
+    // Store frames next to the video so the UI and later stages can reuse them
+    const framePaths: string[] = [];
+    for (const frame of frames) {
+      const framePath = `frames/${videoId}/${frameFilename(frame.timestampSeconds)}`;
+      const { error: frameUploadError } = await supabase.storage
+        .from("videos")
+        .upload(framePath, frame.bytes, { contentType: "image/jpeg", upsert: true });
+
+      if (frameUploadError) {
+        console.error("Frame upload error:", frameUploadError);
+        throw frameUploadError;
+      }
+      framePaths.push(framePath);
+    }
+
+    // Describe the frames with the multimodal model, a batch at a time
+    const analyses: FrameAnalysis[] = [];
+    for (let start = 0; start < frames.length; start += FRAME_BATCH_SIZE) {
+      await reportProgress("describing_frames", 20 + Math.round((start / frames.length) * 40));
+      const batch = frames.slice(start, start + FRAME_BATCH_SIZE);
+      const batchAnalyses = await analyzeFrameBatch(batch);
+      for (const analysis of batchAnalyses) {
+        analyses[start + analysis.index] = analysis;
+      }
+    }
+
+    // Subtitles attached at upload are authoritative; otherwise transcribe the
+    // audio track. Either way the words are split across the frame windows.
+    await reportProgress("transcribing", 65);
+    const subtitleWords = await loadSubtitleWords(supabase, videoId);
+    const transcriptionProvider = subtitleWords.length > 0 ? null : getTranscriptionProvider();
+    const words: TranscriptWord[] = subtitleWords.length > 0
+      ? subtitleWords
+      : transcriptionProvider
+        ? await transcribeVideo(transcriptionProvider, videoPath, workDir, AUDIO_CHUNK_SECONDS)
+        : [];
+    const segmentStarts = frames.map((frame) => roundSeconds(frame.timestampSeconds));
+    const wordSegments = assignWordsToSegments(words, segmentStarts);
+    const segmentWords: string[][] = frames.map(() => []);
+    words.forEach((word, wordIndex) => segmentWords[wordSegments[wordIndex]].push(word.word));
+
+    const transcriptSource = subtitleWords.length > 0 ? "subtitles" : transcriptionProvider?.name || "no provider";
+    console.log(`Transcribed ${words.length} words from ${transcriptSource}`);
+
+    // One segment per sampled frame
+    const segmentRecords = frames.map((frame, index) => {
+      const analysis: Partial<FrameAnalysis> = analyses[index] || {};
+      const timestampSeconds = segmentStarts[index];
+      const transcript = segmentWords[index].join(" ");
+      return {
+        video_id: videoId,
+        timestamp_seconds: timestampSeconds,
+        timestamp_display: formatTimestamp(timestampSeconds),
+        frame_path: framePaths[index],
+        description: analysis.description || null,
+        ocr_text: analysis.ocr_text || null,
+        detected_objects: analysis.detected_objects || {},
+        transcript: transcript || null,
+        embedding_text: `${analysis.description || ""} ${transcript} ${analysis.ocr_text || ""}`.trim(),
+        confidence_score: clampConfidence(analysis.confidence),
+      };
+    });
+
+    // Embed each segment's text for semantic retrieval
+    await reportProgress("embedding", 75);
+    const embeddable = segmentRecords.filter((record) => record.embedding_text);
+    const embeddings = await embedTexts(embeddable.map((record) => record.embedding_text));
+    const embeddingsByRecord = new Map(embeddable.map((record, index) => [record, embeddings[index]]));
+
+    // and each frame's pixels for query-by-frame search, when configured
+    const visualEmbeddings = visualEmbeddingsEnabled()
+      ? await embedImages(frames.map((frame) => jpegDataUrl(frame.bytes)))
+      : null;
+
+    const indexedRecords = segmentRecords.map((record, index) => ({
+      ...record,
+      embedding: embeddingsByRecord.get(record) || null,
+      visual_embedding: visualEmbeddings?.[index] || null,
+    }));
+
+    await reportProgress("indexing", 85);
+
+    // Re-analysis replaces whatever was indexed before
+    const { error: deleteError } = await supabase
+      .from("video_segments")
+      .delete()
+      .eq("video_id", videoId);
+
+    if (deleteError) {
+      console.error("Delete error:", deleteError);
+      throw deleteError;
+    }
+
+    const { data: insertedSegments, error: insertError } = await supabase
+      .from("video_segments")
+      .insert(indexedRecords)
+      .select("id, timestamp_seconds");
+
+    if (insertError) {
+      console.error("Insert error:", insertError);
+      throw insertError;
+    }
+
+    // Link every word to the segment it was spoken in
+    const segmentIdsByStart = new Map<number, string>(
+      (insertedSegments || []).map((seg) => [Number(seg.timestamp_seconds), seg.id])
+    );
+    const wordRecords = words.map((word, wordIndex) => ({
+      video_id: videoId,
+      segment_id: segmentIdsByStart.get(segmentStarts[wordSegments[wordIndex]]),
+      word_index: wordIndex,
+      word: word.word,
+      start_seconds: Math.round(word.start * 1000) / 1000,
+      end_seconds: Math.round(word.end * 1000) / 1000,
+      confidence: word.confidence,
+    }));
+
+    for (let start = 0; start < wordRecords.length; start += WORD_INSERT_BATCH_SIZE) {
+      const { error: wordsError } = await supabase
+        .from("transcript_words")
+        .insert(wordRecords.slice(start, start + WORD_INSERT_BATCH_SIZE));
+
+      if (wordsError) {
+        console.error("Transcript words insert error:", wordsError);
+        throw wordsError;
+      }
+    }
+
+    // Update video status to ready
+    const { error: updateError } = await supabase
+      .from("videos")
+      .update({
+        status: "ready",
+        failure_reason: null,
+        duration_seconds: Math.round(durationSeconds),
+        thumbnail_path: framePaths[0],
+      })
+      .eq("id", videoId);
+
+    if (updateError) {
+      console.error("Update error:", updateError);
+      throw updateError;
+    }
+
+    console.log(`Analysis complete for video: ${videoId}, created ${segmentRecords.length} segments`);
+
+    return {
+      segmentsCreated: segmentRecords.length,
+      wordsTranscribed: wordRecords.length,
+    };
+  } finally {
+    await Deno.remove(workDir, { recursive: true }).catch(() => {});
+  }
+}
+
+async function analyzeFrameBatch(batch: SampledFrame[]): Promise<FrameAnalysis[]> {
+  const prompt = `You are given ${batch.length} frames sampled from a video, in order. Their timestamps are: ${batch.map((frame, idx) => `[${idx}] ${formatTimestamp(frame.timestampSeconds)}`).join(", ")}.
+
+For each frame, describe only what is actually visible. Provide:
+1. A detailed description of what's happening
+2. Any text visible on screen (OCR), or an empty string
+3. Counts of detected objects (people, cars, text overlays, etc.)
+4. Your confidence in the description, from 0 to 1
+
+Return a JSON array with one entry per frame, using this exact structure:
+[
+  {
+    "index": 0,
+    "description": "What the frame shows",
+    "ocr_text": "Any on-screen text",
+    "detected_objects": { "person": 1, "text_overlay": 1 },
+    "confidence": 0.9
+  }
+]
+
+Only respond with the JSON array, no other text.`;
+
+  const content: ChatContentPart[] = [
+    { type: "text", text: prompt },
+    ...batch.map((frame): ChatContentPart => ({
+      type: "image_url",
+      image_url: { url: `data:image/jpeg;base64,${encodeBase64(frame.bytes)}` },
+    })),
+  ];
+
+  const analysisContent = await chatCompletion([
+    { role: "system", content: "You are an expert video content analyst. Always respond with valid JSON only." },
+    { role: "user", content },
+  ]);
+
+  console.log("AI response received:", analysisContent.substring(0, 200));
+
+  const jsonMatch = analysisContent.match(/\[[\s\S]*\]/);
+  if (!jsonMatch) {
+    throw new Error("No JSON array found in frame analysis response");
+  }
+
+  const parsed: FrameAnalysis[] = JSON.parse(jsonMatch[0]);
+  return parsed.filter((analysis) =>
+    Number.isInteger(analysis.index) && analysis.index >= 0 && analysis.index < batch.length
+  );
+}
+
+function clampConfidence(value: unknown): number {
+  const confidence = Number(value);
+  if (!Number.isFinite(confidence)) return 0;
+  return Math.min(1, Math.max(0, confidence));
+}
+
+function roundSeconds(seconds: number): number {
+  return Math.round(seconds * 100) / 100;
+}
+
+function frameFilename(seconds: number): string {
+  return `${Math.round(seconds * 1000).toString().padStart(9, "0")}.jpg`;
+}
+
+function formatTimestamp(seconds: number): string {
+  const hrs = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${hrs.toString().padStart(2, "0")}:${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+}
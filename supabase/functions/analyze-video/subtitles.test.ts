@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { cueWords } from "./subtitles.ts";
+
+describe("cueWords", () => {
+  it("spreads each cue's words evenly across the cue", () => {
+    expect(cueWords([{ start_seconds: 10, end_seconds: 13, text: "one  two three" }])).toEqual([
+      { word: "one", start: 10, end: 11, confidence: null },
+      { word: "two", start: 11, end: 12, confidence: null },
+      { word: "three", start: 12, end: 13, confidence: null },
+    ]);
+  });
+
+  it("accepts numeric strings from the database and sorts words by start", () => {
+    const words = cueWords([
+      { start_seconds: "5", end_seconds: "6", text: "later" },
+      { start_seconds: "1.5", end_seconds: "2.5", text: "first" },
+    ]);
+    expect(words.map((word) => [word.word, word.start])).toEqual([["first", 1.5], ["later", 5]]);
+  });
+
+  it("skips cues without words", () => {
+    expect(cueWords([{ start_seconds: 0, end_seconds: 1, text: "   " }])).toEqual([]);
+  });
+});
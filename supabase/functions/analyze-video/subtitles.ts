@@ -0,0 +1,44 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { TranscriptWord } from "./transcription.ts";
+
+// Subtitle cues only carry cue-level timing, so each cue's words are spread
+// evenly across the cue. That keeps them usable by the same word-to-segment
+// alignment as transcribed audio.
+export async function loadSubtitleWords(supabase: SupabaseClient, videoId: string): Promise<TranscriptWord[]> {
+  const { data: cues, error } = await supabase
+    .from("subtitle_cues")
+    .select("start_seconds, end_seconds, text")
+    .eq("video_id", videoId)
+    .order("cue_index", { ascending: true });
+
+  if (error) {
+    console.error("Subtitle fetch error:", error);
+    throw error;
+  }
+
+  return cueWords(cues || []);
+}
+
+// The words of stored cues, in time order
+export function cueWords(
+  cues: { start_seconds: number | string; end_seconds: number | string; text: string }[]
+): TranscriptWord[] {
+  const words: TranscriptWord[] = [];
+  for (const cue of cues) {
+    const start = Number(cue.start_seconds);
+    const end = Number(cue.end_seconds);
+    const cueWords = String(cue.text).split(/\s+/).filter(Boolean);
+    const step = (end - start) / Math.max(cueWords.length, 1);
+
+    cueWords.forEach((word, index) => {
+      words.push({
+        word,
+        start: start + index * step,
+        end: start + (index + 1) * step,
+        confidence: null,
+      });
+    });
+  }
+
+  return words.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,104 @@
+import { gatewayError, gatewayHeaders, gatewayUrl } from "../_shared/ai-gateway.ts";
+import { extractAudio } from "./media.ts";
+
+// Speech-to-text stage. The provider is chosen with TRANSCRIPTION_PROVIDER:
+//   "openai" (default) - any OpenAI-compatible /audio/transcriptions endpoint
+//                        returning verbose_json with word timestamps
+//   "none"             - skip transcription entirely
+export interface TranscriptWord {
+  word: string;
+  start: number;
+  end: number;
+  confidence: number | null;
+}
+
+export interface TranscriptionProvider {
+  name: string;
+  transcribe(audio: Uint8Array): Promise<TranscriptWord[]>;
+}
+
+const openAiCompatibleProvider: TranscriptionProvider = {
+  name: "openai",
+  async transcribe(audio) {
+    const form = new FormData();
+    form.append("file", new Blob([audio], { type: "audio/wav" }), "audio.wav");
+    form.append("model", Deno.env.get("TRANSCRIPTION_MODEL") || "whisper-1");
+    form.append("response_format", "verbose_json");
+    form.append("timestamp_granularities[]", "word");
+
+    const baseUrl = Deno.env.get("TRANSCRIPTION_URL");
+    const url = baseUrl ? `${baseUrl.replace(/\/+$/, "")}/audio/transcriptions` : gatewayUrl("/audio/transcriptions");
+    const response = await fetch(url, {
+      method: "POST",
+      headers: gatewayHeaders(),
+      body: form,
+    });
+
+    if (!response.ok) {
+      throw await gatewayError(response);
+    }
+
+    const result = await response.json();
+    const words: { word: string; start: number; end: number; probability?: number }[] = result.words || [];
+    return words
+      .filter((w) => typeof w.word === "string" && w.word.trim() && Number.isFinite(w.start) && Number.isFinite(w.end))
+      .map((w) => ({
+        word: w.word.trim(),
+        start: w.start,
+        end: Math.max(w.start, w.end),
+        confidence: typeof w.probability === "number" ? w.probability : null,
+      }));
+  },
+};
+
+const providers: Record<string, TranscriptionProvider> = {
+  openai: openAiCompatibleProvider,
+};
+
+export function getTranscriptionProvider(): TranscriptionProvider | null {
+  const name = Deno.env.get("TRANSCRIPTION_PROVIDER") || "openai";
+  if (name === "none") return null;
+
+  const provider = providers[name];
+  if (!provider) {
+    throw new Error(`Unknown transcription provider: ${name}`);
+  }
+  return provider;
+}
+
+// Assigns each word to the segment whose window [timestamp, next timestamp)
+// contains the word's start time. `segmentStarts` must be sorted ascending.
+export function assignWordsToSegments(words: TranscriptWord[], segmentStarts: number[]): number[] {
+  let segmentIndex = 0;
+  return words.map((word) => {
+    while (segmentIndex + 1 < segmentStarts.length && word.start >= segmentStarts[segmentIndex + 1]) {
+      segmentIndex++;
+    }
+    return segmentIndex;
+  });
+}
+
+// Transcribes the whole audio track chunk by chunk, shifting each chunk's word
+// timings back onto the video's timeline.
+export async function transcribeVideo(
+  provider: TranscriptionProvider,
+  videoPath: string,
+  workDir: string,
+  chunkSeconds: number
+): Promise<TranscriptWord[]> {
+  const chunks = await extractAudio(videoPath, workDir, chunkSeconds);
+  const words: TranscriptWord[] = [];
+
+  for (const chunk of chunks) {
+    const chunkWords = await provider.transcribe(chunk.bytes);
+    for (const word of chunkWords) {
+      words.push({
+        ...word,
+        start: word.start + chunk.offsetSeconds,
+        end: word.end + chunk.offsetSeconds,
+      });
+    }
+  }
+
+  return words.sort((a, b) => a.start - b.start);
+}
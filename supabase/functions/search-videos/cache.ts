@@ -0,0 +1,110 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { pageOptions } from "./pagination.ts";
+import { SearchRequest, SearchResponse } from "./types.ts";
+
+// Server-side cache of search responses, so a repeated query skips retrieval
+// and the LLM reranker. Entries are keyed by the normalized request and the
+// search index version, which the database bumps on every change to
+// video_segments; stale entries simply stop matching. SEARCH_CACHE=off
+// disables it.
+const CACHE_ENABLED = Deno.env.get("SEARCH_CACHE") !== "off";
+
+// Whitespace is the only thing folded: case matters to OR/NOT
+export function normalizeQuery(query: string): string {
+  return query.trim().replace(/\s+/g, " ");
+}
+
+export async function indexVersion(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase.from("search_index_state").select("version").single();
+  if (error) throw error;
+  return Number(data.version);
+}
+
+async function cacheKey(request: SearchRequest, version: number): Promise<string> {
+  const { pageSize, minScore } = pageOptions(request.pageSize, request.minScore);
+  const parts = [
+    version,
+    normalizeQuery(request.query),
+    request.filters || null,
+    request.videoId || null,
+    request.cursor || null,
+    pageSize,
+    minScore,
+    Boolean(request.group),
+    Boolean(request.explain),
+  ];
+  return hashKey(parts);
+}
+
+// SHA-256 of the JSON of the parts, as hex
+export async function hashKey(parts: unknown[]): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify(parts)));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export async function cachedSearch(
+  supabase: SupabaseClient,
+  request: SearchRequest,
+  search: () => Promise<SearchResponse>
+): Promise<SearchResponse> {
+  if (!CACHE_ENABLED) return search();
+
+  // The cache is an optimization; if it cannot be read, search uncached
+  let version: number;
+  let key: string;
+  try {
+    version = await indexVersion(supabase);
+    key = await cacheKey(request, version);
+
+    const { data: hit, error } = await supabase
+      .from("search_cache")
+      .select("response, created_at")
+      .eq("cache_key", key)
+      .maybeSingle();
+    if (error) throw error;
+
+    if (hit) {
+      const { error: hitError } = await supabase.rpc("record_search_cache_hit", { hit_key: key });
+      if (hitError) console.error("Cache hit count error:", hitError);
+      console.log(`Search cache hit at index version ${version}`);
+      return { ...(hit.response as SearchResponse), cached: true, cachedAt: hit.created_at };
+    }
+  } catch (error) {
+    console.error("Search cache read error:", error);
+    return search();
+  }
+
+  const response = await search();
+
+  // Degraded responses (reranker unavailable) are not worth keeping
+  if (!response.message) {
+    const { error } = await supabase.from("search_cache").upsert({
+      cache_key: key,
+      index_version: version,
+      query: normalizeQuery(request.query),
+      video_id: request.videoId || null,
+      response,
+    });
+    if (error) {
+      console.error("Search cache write error:", error);
+    } else {
+      const { error: pruneError } = await supabase.from("search_cache").delete().lt("index_version", version);
+      if (pruneError) console.error("Search cache prune error:", pruneError);
+    }
+  }
+
+  return { ...response, cached: false };
+}
+
+// Drops every cached response and stored ranking, returning how many cached
+// responses were removed. Only the service role may call the RPC.
+export async function clearCache(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase.rpc("invalidate_search_cache");
+
+  if (error) {
+    console.error("Search cache invalidation error:", error);
+    throw error;
+  }
+
+  return Number(data ?? 0);
+}
@@ -0,0 +1,46 @@
+import { FusedCandidate } from "./fusion.ts";
+import { FilterNode } from "./query-language.ts";
+import { ResultExplanation, RetrievalSignals } from "./types.ts";
+
+// Explain mode: a per-result breakdown of how the score came about, for
+// debugging rankings that look wrong. Nothing here changes the ranking.
+
+export interface ExplainContext {
+  filter: FilterNode | null;
+  candidatePoolSize: number;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+// The raw retriever signals a fused candidate carries, plus its fused score
+export function fusedSignals(entry: FusedCandidate, fusedRank: number, normalizedScore: number): RetrievalSignals {
+  const signals: RetrievalSignals = {
+    fused: { rank: fusedRank, score: round(entry.score), normalized_score: normalizedScore },
+  };
+  if (entry.ranks.semantic !== undefined) {
+    signals.semantic = { rank: entry.ranks.semantic, similarity: round(entry.candidate.similarity ?? 0) };
+  }
+  if (entry.ranks.lexical !== undefined) {
+    signals.lexical = { rank: entry.ranks.lexical, ts_rank: round(entry.candidate.rank ?? 0) };
+  }
+  return signals;
+}
+
+export function explainResult(
+  context: ExplainContext,
+  finalRank: number,
+  signals: RetrievalSignals,
+  rerankBatch: number | null = null,
+  rerankerOutput: unknown | null = null
+): ResultExplanation {
+  return {
+    final_rank: finalRank,
+    signals,
+    filter: context.filter,
+    candidate_pool_size: context.candidatePoolSize,
+    rerank_batch: rerankBatch,
+    reranker_output: rerankerOutput,
+  };
+}
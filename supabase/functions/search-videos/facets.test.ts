@@ -0,0 +1,65 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { describe, expect, it } from "vitest";
+import { computeFacets, filteredFacets } from "./facets.ts";
+
+function segment(videoId: string, seconds: number, objects: Record<string, number> = {}) {
+  return { video_id: videoId, video_title: videoId === "v1" ? "Standup" : "Review", timestamp_seconds: seconds, detected_objects: objects };
+}
+
+describe("computeFacets", () => {
+  it("counts segments per object, video and time bucket", () => {
+    const facets = computeFacets([
+      segment("v1", 10, { person: 3, laptop: 1 }),
+      segment("v1", 70, { person: 1, chair: 0 }),
+      segment("v2", 4000, {}),
+    ]);
+
+    expect(facets.objects).toEqual([
+      { value: "person", count: 2 },
+      { value: "laptop", count: 1 },
+    ]);
+    expect(facets.videos).toEqual([
+      { video_id: "v1", value: "Standup", count: 2 },
+      { video_id: "v2", value: "Review", count: 1 },
+    ]);
+    expect(facets.time.map((bucket) => [bucket.label, bucket.count])).toEqual([
+      ["0–1 min", 1],
+      ["1–5 min", 1],
+      ["60+ min", 1],
+    ]);
+  });
+});
+
+describe("filteredFacets", () => {
+  it("reads the counts the database grouped over every matching segment", async () => {
+    const calls: unknown[] = [];
+    const client = {
+      rpc: (name: string, args: unknown) => {
+        calls.push({ name, args });
+        return Promise.resolve({
+          data: [
+            { facet: "object", value: "person", video_id: null, bucket_start: null, count: "1204" },
+            { facet: "video", value: "Standup", video_id: "v1", bucket_start: null, count: "1500" },
+            { facet: "time", value: null, video_id: null, bucket_start: "300", count: "1500" },
+          ],
+          error: null,
+        });
+      },
+    } as unknown as SupabaseClient;
+
+    const filter = { type: "object" as const, name: "person", comparator: ">=" as const, count: 1 };
+    const facets = await filteredFacets(client, filter, { videoId: "v1", limit: 50 });
+
+    expect(calls).toEqual([
+      {
+        name: "filter_segment_facets",
+        args: { filter, bucket_starts: [0, 60, 300, 900, 1800, 3600], filter_video_id: "v1", filter_status: "ready" },
+      },
+    ]);
+    expect(facets).toEqual({
+      objects: [{ value: "person", count: 1204 }],
+      videos: [{ video_id: "v1", value: "Standup", count: 1500 }],
+      time: [{ label: "5–15 min", start_seconds: 300, end_seconds: 900, count: 1500 }],
+    });
+  });
+});
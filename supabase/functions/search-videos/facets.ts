@@ -0,0 +1,115 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { FilterNode } from "./query-language.ts";
+import { RetrievalOptions } from "./retrieval.ts";
+import { SearchFacets, SegmentCandidate, TimeBucketFacet } from "./types.ts";
+
+// Facet counts over the whole candidate set of a search, returned with its
+// first page: every segment a field-only query matches, or the fused
+// candidates of a ranked search. Each facet value maps onto a term of the
+// query syntax (object:, video:, after:/before:) so the panel can refine a
+// search by appending it.
+
+// Fixed buckets so counts stay comparable between searches
+const TIME_BUCKETS: { label: string; start: number; end: number | null }[] = [
+  { label: "0–1 min", start: 0, end: 60 },
+  { label: "1–5 min", start: 60, end: 300 },
+  { label: "5–15 min", start: 300, end: 900 },
+  { label: "15–30 min", start: 900, end: 1800 },
+  { label: "30–60 min", start: 1800, end: 3600 },
+  { label: "60+ min", start: 3600, end: null },
+];
+
+type FacetedSegment = Pick<SegmentCandidate, "video_id" | "video_title" | "timestamp_seconds" | "detected_objects">;
+
+interface FacetRow {
+  facet: "object" | "video" | "time";
+  value: string | null;
+  video_id: string | null;
+  bucket_start: number | string | null;
+  count: number | string;
+}
+
+function emptyBuckets(): TimeBucketFacet[] {
+  return TIME_BUCKETS.map((bucket) => ({
+    label: bucket.label,
+    start_seconds: bucket.start,
+    end_seconds: bucket.end,
+    count: 0,
+  }));
+}
+
+export function computeFacets(candidates: FacetedSegment[]): SearchFacets {
+  const objects = new Map<string, number>();
+  const videos = new Map<string, { title: string; count: number }>();
+  const time = emptyBuckets();
+
+  for (const candidate of candidates) {
+    // A segment counts once per object, however many instances it shows
+    for (const [name, count] of Object.entries(candidate.detected_objects || {})) {
+      if (count > 0) objects.set(name, (objects.get(name) || 0) + 1);
+    }
+
+    const video = videos.get(candidate.video_id);
+    if (video) video.count++;
+    else videos.set(candidate.video_id, { title: candidate.video_title, count: 1 });
+
+    const bucket = time.find(
+      (entry) =>
+        candidate.timestamp_seconds >= entry.start_seconds &&
+        (entry.end_seconds === null || candidate.timestamp_seconds < entry.end_seconds)
+    );
+    if (bucket) bucket.count++;
+  }
+
+  return sortedFacets(objects, videos, time);
+}
+
+// Counts over every segment the filter matches, via the filter_segment_facets RPC
+export async function filteredFacets(
+  supabase: SupabaseClient,
+  filter: FilterNode,
+  options: RetrievalOptions
+): Promise<SearchFacets> {
+  const { data, error } = await supabase.rpc("filter_segment_facets", {
+    filter,
+    bucket_starts: TIME_BUCKETS.map((bucket) => bucket.start),
+    filter_video_id: options.videoId || null,
+    filter_status: "ready",
+  });
+
+  if (error) {
+    console.error("Facet count error:", error);
+    throw error;
+  }
+
+  const objects = new Map<string, number>();
+  const videos = new Map<string, { title: string; count: number }>();
+  const time = emptyBuckets();
+  for (const row of (data || []) as FacetRow[]) {
+    const count = Number(row.count);
+    if (row.facet === "object") objects.set(row.value!, count);
+    if (row.facet === "video") videos.set(row.video_id!, { title: row.value!, count });
+    if (row.facet === "time") {
+      const bucket = time.find((entry) => entry.start_seconds === Number(row.bucket_start));
+      if (bucket) bucket.count = count;
+    }
+  }
+
+  return sortedFacets(objects, videos, time);
+}
+
+function sortedFacets(
+  objects: Map<string, number>,
+  videos: Map<string, { title: string; count: number }>,
+  time: TimeBucketFacet[]
+): SearchFacets {
+  return {
+    objects: [...objects.entries()]
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value)),
+    videos: [...videos.entries()]
+      .map(([video_id, { title, count }]) => ({ video_id, value: title, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value)),
+    time: time.filter((bucket) => bucket.count > 0),
+  };
+}
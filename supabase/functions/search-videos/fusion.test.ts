@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { maxFusedScore, reciprocalRankFusion } from "./fusion.ts";
+import { SegmentCandidate } from "./types.ts";
+
+function candidate(id: string, fields: Partial<SegmentCandidate> = {}): SegmentCandidate {
+  return {
+    id,
+    video_id: "video",
+    video_title: "Video",
+    video_path: "video.mp4",
+    timestamp_seconds: 0,
+    timestamp_display: "00:00:00",
+    description: null,
+    transcript: null,
+    ocr_text: null,
+    detected_objects: {},
+    ...fields,
+  };
+}
+
+describe("reciprocalRankFusion", () => {
+  it("sums 1 / (k + rank) over the retrievers that returned a segment", () => {
+    const fused = reciprocalRankFusion({
+      semantic: [candidate("a"), candidate("b")],
+      lexical: [candidate("b")],
+    });
+
+    expect(fused.map((entry) => entry.candidate.id)).toEqual(["b", "a"]);
+    expect(fused[0].score).toBeCloseTo(1 / 62 + 1 / 61);
+    expect(fused[0].ranks).toEqual({ semantic: 2, lexical: 1 });
+    expect(fused[0].retrievers).toEqual(["semantic", "lexical"]);
+    expect(fused[1].score).toBeCloseTo(1 / 61);
+    expect(fused[1].retrievers).toEqual(["semantic"]);
+  });
+
+  it("keeps the similarity and rank of every retriever on the shared candidate", () => {
+    const [entry] = reciprocalRankFusion({
+      semantic: [candidate("a", { similarity: 0.8 })],
+      lexical: [candidate("a", { rank: 0.5 })],
+    });
+
+    expect(entry.candidate.similarity).toBe(0.8);
+    expect(entry.candidate.rank).toBe(0.5);
+  });
+
+  it("breaks score ties by timestamp", () => {
+    const fused = reciprocalRankFusion({
+      semantic: [candidate("late", { timestamp_seconds: 30 })],
+      lexical: [candidate("early", { timestamp_seconds: 10 })],
+    });
+
+    expect(fused.map((entry) => entry.candidate.id)).toEqual(["early", "late"]);
+  });
+
+  it("uses the given k", () => {
+    const [entry] = reciprocalRankFusion({ semantic: [candidate("a")] }, 0);
+    expect(entry.score).toBe(1);
+  });
+
+  it("ranks lists that continue deeper pages after the offset", () => {
+    const [entry] = reciprocalRankFusion({ semantic: [candidate("a")] }, 60, 200);
+    expect(entry.ranks).toEqual({ semantic: 201 });
+    expect(entry.score).toBeCloseTo(1 / 261);
+  });
+
+  it("returns nothing for empty lists", () => {
+    expect(reciprocalRankFusion({ semantic: [], lexical: [] })).toEqual([]);
+  });
+});
+
+describe("maxFusedScore", () => {
+  it("is rank 1 in every retriever", () => {
+    expect(maxFusedScore(2)).toBeCloseTo(2 / 61);
+    expect(maxFusedScore(1, 0)).toBe(1);
+  });
+});
@@ -0,0 +1,53 @@
+import { SegmentCandidate } from "./types.ts";
+
+export type RetrieverName = "semantic" | "lexical";
+
+export interface FusedCandidate {
+  candidate: SegmentCandidate;
+  // Sum of 1 / (k + rank) over the retrievers that returned the segment
+  score: number;
+  // 1-based rank of the segment in each retriever's list
+  ranks: Partial<Record<RetrieverName, number>>;
+  retrievers: RetrieverName[];
+}
+
+// Reciprocal rank fusion (Cormack et al., 2009). Only ranks matter, so the
+// incomparable cosine similarities and ts_rank scores need no calibration.
+// k = 60 is the value from the paper. rankOffset is how many candidates of
+// each retriever come before the lists, when they continue deeper pages.
+export function reciprocalRankFusion(
+  lists: Partial<Record<RetrieverName, SegmentCandidate[]>>,
+  k = 60,
+  rankOffset = 0
+): FusedCandidate[] {
+  const fused = new Map<string, FusedCandidate>();
+
+  for (const [retriever, candidates] of Object.entries(lists) as [RetrieverName, SegmentCandidate[]][]) {
+    candidates.forEach((candidate, index) => {
+      const rank = rankOffset + index + 1;
+      const entry = fused.get(candidate.id) || { candidate, score: 0, ranks: {}, retrievers: [] };
+      entry.score += 1 / (k + rank);
+      entry.ranks[retriever] = rank;
+      entry.retrievers.push(retriever);
+      // Keep the signals from every retriever on the shared candidate
+      entry.candidate = { ...entry.candidate, ...candidate, ...pickSignals(entry.candidate) };
+      fused.set(candidate.id, entry);
+    });
+  }
+
+  return [...fused.values()].sort((a, b) =>
+    b.score - a.score || a.candidate.timestamp_seconds - b.candidate.timestamp_seconds
+  );
+}
+
+// The best score a segment can reach: rank 1 in every retriever
+export function maxFusedScore(retrieverCount: number, k = 60): number {
+  return retrieverCount / (k + 1);
+}
+
+function pickSignals(candidate: SegmentCandidate): Partial<SegmentCandidate> {
+  const signals: Partial<SegmentCandidate> = {};
+  if (candidate.similarity !== undefined) signals.similarity = candidate.similarity;
+  if (candidate.rank !== undefined) signals.rank = candidate.rank;
+  return signals;
+}
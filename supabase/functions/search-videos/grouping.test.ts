@@ -0,0 +1,76 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { describe, expect, it } from "vitest";
+import { groupResults } from "./grouping.ts";
+import { SearchResult } from "./types.ts";
+
+// Segments of one video every 10 seconds; the last one runs to the end of
+// the 45 second video
+const SEGMENTS = ["s0", "s1", "s2", "s3", "s4"];
+
+function spansClient(): { client: SupabaseClient; calls: unknown[] } {
+  const calls: unknown[] = [];
+  const client = {
+    rpc: (name: string, args: { segment_ids: string[] }) => {
+      calls.push({ name, args });
+      const data = args.segment_ids.map((id) => {
+        const index = SEGMENTS.indexOf(id);
+        return {
+          id,
+          next_segment_id: SEGMENTS[index + 1] ?? null,
+          end_seconds: index + 1 < SEGMENTS.length ? String((index + 1) * 10) : "45",
+        };
+      });
+      return Promise.resolve({ data, error: null });
+    },
+  };
+  return { client: client as unknown as SupabaseClient, calls };
+}
+
+function hit(id: string, score: number): SearchResult {
+  const seconds = SEGMENTS.indexOf(id) * 10;
+  return {
+    id,
+    video_id: "video",
+    video_title: "Video",
+    video_path: "video.mp4",
+    timestamp_seconds: seconds,
+    timestamp_display: `00:00:${String(seconds).padStart(2, "0")}`,
+    description: null,
+    transcript: null,
+    ocr_text: null,
+    detected_objects: {},
+    relevance_score: score,
+    relevance_reason: "",
+    retrievers: ["lexical"],
+    highlights: {},
+  };
+}
+
+describe("groupResults", () => {
+  it("merges hits on consecutive segments into ranges that end where their last segment ends", async () => {
+    const { client, calls } = spansClient();
+    const [group] = await groupResults(client, [hit("s4", 0.5), hit("s0", 0.5), hit("s1", 0.5)]);
+
+    expect(calls).toEqual([{ name: "segment_spans", args: { segment_ids: ["s4", "s0", "s1"] } }]);
+    expect(group.hit_count).toBe(3);
+    expect(group.relevance_score).toBe(0.88);
+    expect(group.ranges.map((range) => [range.results.map((result) => result.id), range.start_seconds, range.end_seconds])).toEqual([
+      [["s0", "s1"], 0, 20],
+      [["s4"], 40, 45],
+    ]);
+    expect(group.ranges[0]).toMatchObject({ start_display: "00:00:00", end_display: "00:00:20", next_segment_id: "s2", relevance_score: 0.75 });
+    expect(group.ranges[1].next_segment_id).toBeNull();
+  });
+
+  it("keeps hits with an unmatched segment between them apart", async () => {
+    const { client } = spansClient();
+    const [group] = await groupResults(client, [hit("s1", 0.9), hit("s3", 0.9)]);
+    expect(group.ranges).toHaveLength(2);
+  });
+
+  it("returns no groups and queries nothing for no results", async () => {
+    const { client, calls } = spansClient();
+    expect(await groupResults(client, [])).toEqual([]);
+    expect(calls).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { segmentSpans, SegmentSpan } from "./retrieval.ts";
+import { ResultRange, SearchResult, VideoGroup } from "./types.ts";
+
+// Grouped mode: results are clustered per video, and hits on neighbouring
+// segments (no unmatched segment between them) merge into one range.
+
+// Probabilistic OR, so each extra hit raises the score without passing 1
+function combineScores(scores: number[]): number {
+  const combined = 1 - scores.reduce((remaining, score) => remaining * (1 - Math.min(Math.max(score, 0), 1)), 1);
+  return Math.round(combined * 100) / 100;
+}
+
+function timestampDisplay(seconds: number): string {
+  const whole = Math.floor(seconds);
+  const hrs = Math.floor(whole / 3600);
+  const mins = Math.floor((whole % 3600) / 60);
+  const secs = whole % 60;
+  return [hrs, mins, secs].map((part) => part.toString().padStart(2, "0")).join(":");
+}
+
+// A range runs to the end of its last segment, and records the segment after
+// it so the client can join ranges that a page boundary split
+function toRange(hits: SearchResult[], spans: Map<string, SegmentSpan>): ResultRange {
+  const first = hits[0];
+  const last = hits[hits.length - 1];
+  const span = spans.get(last.id);
+  const endSeconds = span?.endSeconds ?? last.timestamp_seconds;
+  return {
+    start_seconds: first.timestamp_seconds,
+    end_seconds: endSeconds,
+    start_display: first.timestamp_display,
+    end_display: span ? timestampDisplay(endSeconds) : last.timestamp_display,
+    next_segment_id: span?.nextSegmentId ?? null,
+    relevance_score: combineScores(hits.map((hit) => hit.relevance_score)),
+    results: hits,
+  };
+}
+
+export async function groupResults(supabase: SupabaseClient, results: SearchResult[]): Promise<VideoGroup[]> {
+  if (results.length === 0) return [];
+
+  const byVideo = new Map<string, SearchResult[]>();
+  for (const result of results) {
+    byVideo.set(result.video_id, [...(byVideo.get(result.video_id) || []), result]);
+  }
+
+  const spans = await segmentSpans(supabase, results.map((result) => result.id));
+  const groups: VideoGroup[] = [];
+
+  for (const hits of byVideo.values()) {
+    const ordered = [...hits].sort((a, b) => a.timestamp_seconds - b.timestamp_seconds);
+    const ranges: ResultRange[] = [];
+    let current: SearchResult[] = [];
+
+    for (const hit of ordered) {
+      const previous = current[current.length - 1];
+      const adjacent = previous !== undefined && spans.get(previous.id)?.nextSegmentId === hit.id;
+
+      if (previous && !adjacent) {
+        ranges.push(toRange(current, spans));
+        current = [];
+      }
+      current.push(hit);
+    }
+    ranges.push(toRange(current, spans));
+
+    groups.push({
+      video_id: ordered[0].video_id,
+      video_title: ordered[0].video_title,
+      video_path: ordered[0].video_path,
+      relevance_score: combineScores(hits.map((hit) => hit.relevance_score)),
+      hit_count: hits.length,
+      ranges,
+    });
+  }
+
+  return groups.sort((a, b) => b.relevance_score - a.relevance_score);
+}
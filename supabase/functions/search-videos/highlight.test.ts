@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { highlightSegment } from "./highlight.ts";
+import { HighlightTerm } from "./query-language.ts";
+import { SegmentCandidate } from "./types.ts";
+
+function segment(fields: Partial<SegmentCandidate>): SegmentCandidate {
+  return {
+    id: "segment",
+    video_id: "video",
+    video_title: "Video",
+    video_path: "video.mp4",
+    timestamp_seconds: 0,
+    timestamp_display: "00:00:00",
+    description: null,
+    transcript: null,
+    ocr_text: null,
+    detected_objects: {},
+    ...fields,
+  };
+}
+
+function term(words: string[], fields: Partial<HighlightTerm> = {}): HighlightTerm {
+  return { field: "any", words, prefix: false, ...fields };
+}
+
+describe("highlightSegment", () => {
+  it("matches plural and inflected forms", () => {
+    const highlights = highlightSegment(segment({ transcript: "The budgets were approved" }), [term(["budget"])]);
+    expect(highlights).toEqual({ transcript: { snippet: "The budgets were approved", ranges: [{ start: 4, end: 11 }] } });
+  });
+
+  it("only highlights the field a field term names", () => {
+    const highlights = highlightSegment(
+      segment({ transcript: "exit here", ocr_text: "EXIT" }),
+      [term(["exit"], { field: "ocr" })]
+    );
+    expect(highlights).toEqual({ ocr_text: { snippet: "EXIT", ranges: [{ start: 0, end: 4 }] } });
+  });
+
+  it("matches phrases as consecutive words", () => {
+    const highlights = highlightSegment(
+      segment({ description: "plans for next year and next month" }),
+      [term(["next", "year"])]
+    );
+    expect(highlights.description?.ranges).toEqual([{ start: 10, end: 19 }]);
+  });
+
+  it("matches prefixes", () => {
+    const highlights = highlightSegment(segment({ transcript: "budgeting budget bud" }), [term(["budg"], { prefix: true })]);
+    expect(highlights.transcript?.ranges).toEqual([{ start: 0, end: 9 }, { start: 10, end: 16 }]);
+  });
+
+  it("merges overlapping matches", () => {
+    const highlights = highlightSegment(
+      segment({ transcript: "budget report" }),
+      [term(["budget"]), term(["budget", "report"])]
+    );
+    expect(highlights.transcript?.ranges).toEqual([{ start: 0, end: 13 }]);
+  });
+
+  it("skips single stop words", () => {
+    expect(highlightSegment(segment({ transcript: "the budget" }), [term(["the"])])).toEqual({});
+  });
+
+  it("trims long text to a snippet around the first match", () => {
+    const text = `${"lorem ".repeat(40)}budget${" ipsum".repeat(40)}`;
+    const { transcript } = highlightSegment(segment({ transcript: text }), [term(["budget"])]);
+
+    expect(transcript!.snippet.startsWith("…")).toBe(true);
+    expect(transcript!.snippet.endsWith("…")).toBe(true);
+    expect(transcript!.snippet.length).toBeLessThanOrEqual(182);
+    const [range] = transcript!.ranges;
+    expect(transcript!.snippet.slice(range.start, range.end)).toBe("budget");
+  });
+});
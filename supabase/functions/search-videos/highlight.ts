@@ -0,0 +1,130 @@
+import { HighlightTerm } from "./query-language.ts";
+import { FieldHighlight, HighlightedField, SegmentCandidate } from "./types.ts";
+
+// Snippets and match offsets for the text fields of a result. Matching is a
+// light approximation of the english text search config: case-insensitive,
+// with plural and -ed/-ing endings folded, so "budgets" highlights "budget".
+const SNIPPET_LENGTH = 180;
+const CONTEXT_BEFORE = 50;
+const ELLIPSIS = "…";
+
+// Single-word terms that would light up every sentence
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "in", "is", "it",
+  "of", "on", "or", "that", "the", "this", "to", "was", "with",
+]);
+
+const FIELD_NAMES: Record<HighlightedField, HighlightTerm["field"]> = {
+  description: "description",
+  transcript: "transcript",
+  ocr_text: "ocr",
+};
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface Range {
+  start: number;
+  end: number;
+}
+
+function stem(word: string): string {
+  const lower = word.toLowerCase();
+  if (lower.length <= 4) return lower;
+  return lower.replace(/(?:ing|ed|es|s)$/, "");
+}
+
+function tokenize(text: string): Token[] {
+  return [...text.matchAll(/[\p{L}\p{N}]+/gu)].map((match) => ({
+    text: match[0],
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+function wordMatches(token: string, word: string, prefix: boolean): boolean {
+  const a = token.toLowerCase();
+  const b = word.toLowerCase();
+  if (prefix) return a.startsWith(b);
+  return a === b || stem(a) === stem(b) || stem(a) === b || a === stem(b);
+}
+
+function findMatches(text: string, terms: HighlightTerm[]): Range[] {
+  const tokens = tokenize(text);
+  const ranges: Range[] = [];
+
+  for (const term of terms) {
+    if (term.words.length === 1 && !term.prefix && STOP_WORDS.has(term.words[0].toLowerCase())) continue;
+
+    const last = term.words.length - 1;
+    for (let i = 0; i + last < tokens.length; i++) {
+      const matched = term.words.every((word, offset) =>
+        wordMatches(tokens[i + offset].text, word, term.prefix && offset === last)
+      );
+      if (matched) ranges.push({ start: tokens[i].start, end: tokens[i + last].end });
+    }
+  }
+
+  // Sort and merge overlaps so the client can render ranges in one pass
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: Range[] = [];
+  for (const range of ranges) {
+    const previous = merged[merged.length - 1];
+    if (previous && range.start <= previous.end) previous.end = Math.max(previous.end, range.end);
+    else merged.push({ ...range });
+  }
+  return merged;
+}
+
+// Trims the text to a window that opens shortly before the first match,
+// snapped to word boundaries, and shifts the ranges into snippet coordinates
+function buildSnippet(text: string, ranges: Range[]): FieldHighlight {
+  if (text.length <= SNIPPET_LENGTH) {
+    return { snippet: text, ranges };
+  }
+
+  let start = Math.max(0, ranges[0].start - CONTEXT_BEFORE);
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    start = space === -1 || space >= ranges[0].start ? start : space + 1;
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    end = space > ranges[0].end ? space : end;
+  }
+
+  const prefix = start > 0 ? ELLIPSIS : "";
+  const suffix = end < text.length ? ELLIPSIS : "";
+  const shift = prefix.length - start;
+
+  return {
+    snippet: prefix + text.slice(start, end) + suffix,
+    ranges: ranges
+      .filter((range) => range.start >= start && range.end <= end)
+      .map((range) => ({ start: range.start + shift, end: range.end + shift })),
+  };
+}
+
+export function highlightSegment(
+  segment: SegmentCandidate,
+  terms: HighlightTerm[]
+): Partial<Record<HighlightedField, FieldHighlight>> {
+  const highlights: Partial<Record<HighlightedField, FieldHighlight>> = {};
+
+  for (const [field, name] of Object.entries(FIELD_NAMES) as [HighlightedField, HighlightTerm["field"]][]) {
+    const text = segment[field];
+    const fieldTerms = terms.filter((term) => term.field === "any" || term.field === name);
+    if (!text || fieldTerms.length === 0) continue;
+
+    const ranges = findMatches(text, fieldTerms);
+    if (ranges.length > 0) {
+      highlights[field] = buildSnippet(text, ranges);
+    }
+  }
+
+  return highlights;
+}
@@ -1,10 +1,35 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { AiGatewayError } from "../_shared/ai-gateway.ts";
+import { eventStream } from "../_shared/event-stream.ts";
+import { QuerySyntaxException } from "./query-language.ts";
+import { runSearch } from "./search.ts";
+import { cachedSearch, clearCache } from "./cache.ts";
+import { InvalidCursorError } from "./pagination.ts";
+import { runPhraseSearch } from "./phrase.ts";
+import { runSequenceSearch } from "./sequence.ts";
+import { runVisualSearch } from "./visual.ts";
+import { SearchRequest, SearchResponse } from "./types.ts";
+
+// Status and body for a failed search, shared by the JSON and streamed replies
+function errorResult(error: unknown): { status: number; body: Record<string, unknown> } {
+  if (error instanceof QuerySyntaxException) {
+    return { status: 400, body: { error: error.message, syntaxErrors: error.errors } };
+  }
+  if (error instanceof InvalidCursorError) {
+    return { status: 400, body: { error: error.message } };
+  }
+  if (error instanceof AiGatewayError && (error.status === 429 || error.status === 402)) {
+    return { status: error.status, body: { error: error.message } };
+  }
+  return { status: 500, body: { error: error instanceof Error ? error.message : "Unknown error" } };
+}
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+// "12" for an exact total, "12+" for a lower bound
+function totalLabel(response: SearchResponse): string {
+  return `${response.total ?? 0}${response.totalIsLowerBound ? "+" : ""}`;
+}
 
 serve(async (req) => {
   if (req.method === "OPTIONS") {
@@ -12,182 +37,130 @@ serve(async (req) => {
   }
 
   try {
-    const { query, videoId, filters } = await req.json();
-    
-    if (!query) {
-      throw new Error("Missing search query");
-    }
+    const { query, videoId, filters, steps, phrase, group, image, frame, cursor, pageSize, minScore, explain, stream, invalidateCache } =
+      await req.json();
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
+    if (!query && !steps && !phrase && !image && !frame && !invalidateCache) {
+      throw new Error("Missing search query");
     }
 
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    console.log(`Searching for: "${query}" in video: ${videoId || "all"}`);
+    // Clearing the cache is done here, with the service role, as clients may
+    // no longer clear it themselves
+    if (invalidateCache) {
+      const removed = await clearCache(supabase);
+      console.log(`Search cache cleared, ${removed} entries removed`);
 
-    // Fetch all segments (optionally filtered by video)
-    let segmentsQuery = supabase
-      .from("video_segments")
-      .select(`
-        *,
-        videos!inner(id, title, filename, storage_path, status)
-      `)
-      .eq("videos.status", "ready");
-
-    if (videoId) {
-      segmentsQuery = segmentsQuery.eq("video_id", videoId);
+      return new Response(
+        JSON.stringify({ removed }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
-    const { data: segments, error: fetchError } = await segmentsQuery;
+    // An image or a video moment switches to query-by-frame
+    if (image || frame) {
+      console.log(`Visual search by ${image ? "uploaded image" : `frame of video ${frame.videoId}`} in video: ${videoId || "all"}`);
+      const visual = await runVisualSearch(supabase, {
+        image,
+        frame,
+        videoId,
+        group: Boolean(group),
+        explain: Boolean(explain),
+        cursor,
+        pageSize: pageSize === undefined ? undefined : Number(pageSize),
+        minScore: minScore === undefined ? undefined : Number(minScore),
+      });
+      console.log(`Visual search returned ${visual.results.length} results`);
 
-    if (fetchError) {
-      console.error("Fetch error:", fetchError);
-      throw fetchError;
+      return new Response(
+        JSON.stringify(visual),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
-    if (!segments || segments.length === 0) {
+    // A phrase switches to exact word matching over the transcript timings
+    if (phrase) {
+      console.log(`Phrase search for: "${phrase}" in video: ${videoId || "all"}`);
+      const phraseResponse = await runPhraseSearch(supabase, { phrase, videoId });
+      console.log(`Phrase search returned ${phraseResponse.matches.length} matches`);
+
       return new Response(
-        JSON.stringify({ results: [], message: "No indexed content found" }),
+        JSON.stringify(phraseResponse),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    // Use AI to rank and score segments based on query relevance
-    const rankingPrompt = `You are a semantic search ranking system. Given a user query and a list of video segments, rank them by relevance.
-
-User Query: "${query}"
-
-Video Segments:
-${segments.map((seg, idx) => `
-[${idx}] Timestamp: ${seg.timestamp_display}
-Description: ${seg.description || "N/A"}
-Transcript: ${seg.transcript || "N/A"}
-OCR Text: ${seg.ocr_text || "N/A"}
-Objects: ${JSON.stringify(seg.detected_objects)}
-`).join("\n")}
-
-Analyze semantic relevance considering:
-1. Direct keyword matches in description, transcript, and OCR text
-2. Conceptual/semantic relevance to the query
-3. Object detection relevance
-
-Return a JSON array of objects with this exact structure (top 10 most relevant, sorted by score descending):
-[
-  {
-    "index": 0,
-    "relevance_score": 0.95,
-    "reason": "Brief explanation of why this is relevant"
-  }
-]
-
-Only include segments with relevance_score > 0.3. Only respond with the JSON array.`;
-
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { role: "system", content: "You are a semantic search ranking system. Always respond with valid JSON only." },
-          { role: "user", content: rankingPrompt },
-        ],
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("AI API error:", response.status, errorText);
-      
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limited. Please try again later." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "Payment required. Please add funds." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      throw new Error(`AI gateway error: ${response.status}`);
-    }
+    // A list of steps switches to sequence mode: ordered sub-queries with gaps
+    if (steps) {
+      console.log(`Sequence search with ${steps.length} steps in video: ${videoId || "all"}`);
+      const sequence = await runSequenceSearch(supabase, {
+        steps,
+        videoId,
+        minScore: minScore === undefined ? undefined : Number(minScore),
+      });
+      console.log(`Sequence search returned ${sequence.matches.length} matches`);
 
-    const aiResult = await response.json();
-    const rankingContent = aiResult.choices?.[0]?.message?.content;
-
-    let rankings = [];
-    try {
-      const jsonMatch = rankingContent.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        rankings = JSON.parse(jsonMatch[0]);
-      }
-    } catch (parseError) {
-      console.error("Ranking parse error:", parseError);
-      // Fallback: simple text matching
-      rankings = segments.map((seg, idx) => {
-        const text = `${seg.description || ""} ${seg.transcript || ""} ${seg.ocr_text || ""}`.toLowerCase();
-        const queryLower = query.toLowerCase();
-        const words = queryLower.split(/\s+/);
-        const matches = words.filter((w: string) => text.includes(w)).length;
-        return {
-          index: idx,
-          relevance_score: matches / words.length,
-          reason: "Keyword matching fallback"
-        };
-      }).filter(r => r.relevance_score > 0.3)
-        .sort((a, b) => b.relevance_score - a.relevance_score)
-        .slice(0, 10);
+      return new Response(
+        JSON.stringify(sequence),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
-    // Apply object filters if provided
-    if (filters?.objectName) {
-      rankings = rankings.filter((rank: any) => {
-        const seg = segments[rank.index];
-        const objects = seg.detected_objects || {};
-        const count = objects[filters.objectName] || 0;
-        return count >= (filters.minCount || 1);
+    console.log(`Searching for: "${query}" in video: ${videoId || "all"}${cursor ? " (next page)" : ""}`);
+
+    const request: SearchRequest = {
+      query,
+      videoId,
+      filters,
+      group: Boolean(group),
+      cursor,
+      pageSize: pageSize === undefined ? undefined : Number(pageSize),
+      minScore: minScore === undefined ? undefined : Number(minScore),
+      explain: Boolean(explain),
+    };
+
+    // Streamed searches send interim results while the reranker works. Events,
+    // in order:
+    //   candidates  fused candidates in retrieval order, before any reranking
+    //   reranked    the results reranked so far, after each reranker batch
+    //   done        the final SearchResponse, exactly as the plain call returns it
+    //   error       { error, status, syntaxErrors? } in place of done
+    // Cached and field-only searches have nothing to stream and send done alone.
+    if (stream) {
+      return eventStream(async (send) => {
+        try {
+          const response = await cachedSearch(supabase, request, () =>
+            runSearch(supabase, request, (progress) => send(progress.stage, progress))
+          );
+          console.log(`Streamed search returned ${response.results.length} of ${totalLabel(response)} results`);
+          send("done", response);
+        } catch (error) {
+          console.error("Error in streamed search-videos:", error);
+          const { status, body } = errorResult(error);
+          send("error", { ...body, status });
+        }
       });
     }
 
-    // Build results with full segment data
-    const results = rankings.map((rank: any) => {
-      const seg = segments[rank.index];
-      return {
-        id: seg.id,
-        video_id: seg.video_id,
-        video_title: seg.videos?.title,
-        video_path: seg.videos?.storage_path,
-        timestamp_seconds: parseFloat(seg.timestamp_seconds),
-        timestamp_display: seg.timestamp_display,
-        description: seg.description,
-        transcript: seg.transcript,
-        ocr_text: seg.ocr_text,
-        detected_objects: seg.detected_objects,
-        relevance_score: rank.relevance_score,
-        relevance_reason: rank.reason,
-      };
-    });
-
-    console.log(`Search returned ${results.length} results`);
+    const response = await cachedSearch(supabase, request, () => runSearch(supabase, request));
+
+    console.log(`Search returned ${response.results.length} of ${totalLabel(response)} results${response.cached ? " (cached)" : ""}`);
 
     return new Response(
-      JSON.stringify({ results }),
+      JSON.stringify(response),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
 
   } catch (error) {
     console.error("Error in search-videos:", error);
+
+    const { status, body } = errorResult(error);
     return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      JSON.stringify(body),
+      { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   }
 });
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { buildTsQuery, keywordQuery } from "./lexical.ts";
+
+describe("buildTsQuery", () => {
+  it.each([
+    ["budget report", "budget & report"],
+    ['"quarterly budget"', "(quarterly <-> budget)"],
+    ["budg*", "budg:*"],
+    ["-draft", "!draft"],
+    ["slides OR deck", "(slides | deck)"],
+    ["-\"first draft\" final", "!(first <-> draft) & final"],
+    ["follow-up", "(follow <-> up)"],
+  ])("turns %s into %s", (query, expected) => {
+    expect(buildTsQuery(query)).toBe(expected);
+  });
+
+  it.each([
+    ["foo-bar*", "(foo <-> bar:*)"],
+    ["don't*", "(don <-> t:*)"],
+    ["-foo-bar*", "!(foo <-> bar:*)"],
+    ["slides OR foo-bar*", "(slides | (foo <-> bar:*))"],
+  ])("applies a prefix only to the last word of %s", (query, expected) => {
+    expect(buildTsQuery(query)).toBe(expected);
+  });
+
+  it.each([
+    ["(a b) OR c", "((a & b) | c)"],
+    ["a OR (b c)", "(a | (b & c))"],
+    ["(a OR b) c", "(a | b) & c"],
+    ["(a)", "a"],
+    ["(a b", "(a & b)"],
+    ["a) b", "a & b"],
+    ["() a", "a"],
+  ])("groups parentheses in %s", (query, expected) => {
+    expect(buildTsQuery(query)).toBe(expected);
+  });
+
+  it("ignores a leading OR", () => {
+    expect(buildTsQuery("OR deck")).toBe("deck");
+  });
+
+  it.each(["", "   ", "*", '""', "- !"])("returns null for %j", (query) => {
+    expect(buildTsQuery(query)).toBeNull();
+  });
+});
+
+describe("keywordQuery", () => {
+  it.each([
+    ["What did they decide about the budget?", "decide OR budget"],
+    ["Who presented the Q3 budget, and the budget's owner?", "presented OR q3 OR budget OR owner"],
+    ["Is it (a) \"draft\" -or OR not?", "draft OR not"],
+    ["What is it?", ""],
+  ])("takes the keywords of %j", (question, expected) => {
+    expect(keywordQuery(question)).toBe(expected);
+  });
+
+  it("builds a tsquery matching any keyword", () => {
+    expect(buildTsQuery(keywordQuery("When does the speaker mention travel costs?"))).toBe("(speaker | mention | travel | costs)");
+  });
+});
@@ -0,0 +1,111 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { RetrievalOptions, toCandidate } from "./retrieval.ts";
+import { SegmentCandidate } from "./types.ts";
+
+// Turns a free-text query into a to_tsquery expression:
+//   budget report      -> budget & report
+//   "quarterly budget" -> (quarterly <-> budget)
+//   budg*              -> budg:*
+//   follow-up*         -> (follow <-> up:*)
+//   -draft             -> !draft
+//   slides OR deck     -> (slides | deck)
+//   (a b) OR c         -> ((a & b) | c)
+// OR joins the terms either side of it; parentheses group. Returns null when
+// nothing searchable is left.
+export function buildTsQuery(query: string): string | null {
+  const tokens = query.match(/-?"[^"]*"|[()]|[^\s()]+/g) || [];
+  let index = 0;
+
+  // Terms up to the closing parenthesis of a nested group, or to the end
+  const parseGroup = (nested: boolean): string | null => {
+    const groups: string[][] = [];
+    let orPending = false;
+
+    while (index < tokens.length) {
+      const token = tokens[index++];
+      if (token === ")") {
+        if (nested) break;
+        continue;
+      }
+      if (token === "OR") {
+        orPending = groups.length > 0;
+        continue;
+      }
+
+      const term = token === "(" ? parseGroup(true) : tsTerm(token);
+      if (!term) continue;
+
+      if (orPending) {
+        groups[groups.length - 1].push(term);
+      } else {
+        groups.push([term]);
+      }
+      orPending = false;
+    }
+
+    if (groups.length === 0) return null;
+    const expression = groups.map((group) => (group.length > 1 ? `(${group.join(" | ")})` : group[0])).join(" & ");
+    return nested && groups.length > 1 ? `(${expression})` : expression;
+  };
+
+  return parseGroup(false);
+}
+
+// Words of a question that say nothing about what to look for
+const QUESTION_WORDS = new Set([
+  "a", "about", "an", "and", "any", "are", "as", "at", "be", "by", "can", "could", "did", "do", "does",
+  "for", "from", "had", "has", "have", "how", "i", "in", "is", "it", "its", "me", "of", "on", "or",
+  "said", "say", "says", "so", "tell", "that", "the", "their", "them", "then", "there", "they", "this",
+  "to", "was", "were", "what", "when", "where", "which", "who", "why", "will", "with", "would", "you",
+]);
+
+// A natural-language question as a query matching any of its keywords, for
+// retrieving context to answer it: buildTsQuery ANDs plain words, and few
+// segments hold every word of a question.
+//   What did they decide about the budget? -> decide OR budget
+export function keywordQuery(question: string): string {
+  const words = (question.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(
+    (word) => word.length > 1 && !QUESTION_WORDS.has(word)
+  );
+  return [...new Set(words)].join(" OR ");
+}
+
+// One word, phrase or prefix, negated by a leading -
+function tsTerm(token: string): string | null {
+  const negated = token.startsWith("-");
+  const body = negated ? token.slice(1) : token;
+  const isPhrase = body.startsWith('"');
+  const isPrefix = !isPhrase && body.endsWith("*");
+  const words = body.match(/[\p{L}\p{N}]+/gu) || [];
+  if (words.length === 0) return null;
+
+  // Only the last word of a hyphenated or apostrophe prefix is a prefix
+  const lexemes = isPrefix ? [...words.slice(0, -1), `${words[words.length - 1]}:*`] : words;
+  const term = lexemes.length > 1 ? `(${lexemes.join(" <-> ")})` : lexemes[0];
+  return negated ? `!${term}` : term;
+}
+
+// Ranked full-text matches, via the search_video_segments_fts RPC
+export async function lexicalCandidates(
+  supabase: SupabaseClient,
+  query: string,
+  options: RetrievalOptions
+): Promise<SegmentCandidate[]> {
+  const tsQuery = buildTsQuery(query);
+  if (!tsQuery) return [];
+
+  const { data, error } = await supabase.rpc("search_video_segments_fts", {
+    search_query: tsQuery,
+    match_count: options.limit,
+    filter_video_id: options.videoId || null,
+    filter_status: "ready",
+    filter: options.filter || null,
+  });
+
+  if (error) {
+    console.error("Lexical retrieval error:", error);
+    throw error;
+  }
+
+  return (data || []).map(toCandidate);
+}
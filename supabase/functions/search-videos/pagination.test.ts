@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import {
+  cursorKey,
+  decodeCursor,
+  DEFAULT_MIN_SCORE,
+  DEFAULT_PAGE_SIZE,
+  encodeCursor,
+  InvalidCursorError,
+  MAX_PAGE_SIZE,
+  pageOptions,
+} from "./pagination.ts";
+
+describe("pageOptions", () => {
+  it("defaults missing values", () => {
+    expect(pageOptions()).toEqual({ pageSize: DEFAULT_PAGE_SIZE, minScore: DEFAULT_MIN_SCORE });
+    expect(pageOptions(NaN, NaN)).toEqual({ pageSize: DEFAULT_PAGE_SIZE, minScore: DEFAULT_MIN_SCORE });
+  });
+
+  it.each([
+    [0, 1],
+    [7.9, 7],
+    [500, MAX_PAGE_SIZE],
+  ])("takes a page size of %d as %d", (pageSize, expected) => {
+    expect(pageOptions(pageSize).pageSize).toBe(expected);
+  });
+
+  it.each([
+    [-1, 0],
+    [0, 0],
+    [0.5, 0.5],
+    [2, 1],
+  ])("takes a min score of %d as %d", (minScore, expected) => {
+    expect(pageOptions(undefined, minScore).minScore).toBe(expected);
+  });
+});
+
+describe("cursorKey", () => {
+  it("depends on every part", () => {
+    const key = cursorKey(["budget", null, null, 0.3]);
+    expect(cursorKey(["budget", null, null, 0.3])).toBe(key);
+    expect(cursorKey(["budget", "video", null, 0.3])).not.toBe(key);
+    expect(cursorKey(["budget", null, null, 0.5])).not.toBe(key);
+  });
+});
+
+describe("encodeCursor and decodeCursor", () => {
+  const key = cursorKey(["budget"]);
+
+  it("start at the first batch without a cursor", () => {
+    expect(decodeCursor(undefined, key)).toEqual({ pool: 0, batch: 0, skip: 0, offset: 0 });
+  });
+
+  it("round-trip a position as a URL-safe string", () => {
+    const position = { pool: 1, batch: 3, skip: 7, offset: 42 };
+    const cursor = encodeCursor(position, key);
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor, key)).toEqual(position);
+  });
+
+  it("reject a cursor issued for another query", () => {
+    const cursor = encodeCursor({ pool: 0, batch: 1, skip: 0, offset: 10 }, cursorKey(["deck"]));
+    expect(() => decodeCursor(cursor, key)).toThrow(InvalidCursorError);
+  });
+
+  it.each([
+    ["garbage", "not base64 JSON"],
+    [btoa(JSON.stringify({ p: 0, b: -1, s: 0, o: 0, k: key })), "a negative batch"],
+    [btoa(JSON.stringify({ p: 0, b: 1.5, s: 0, o: 0, k: key })), "a fractional batch"],
+    [btoa(JSON.stringify({ p: 0, b: 0, s: 0, k: key })), "a missing offset"],
+    [btoa(JSON.stringify({ b: 0, s: 0, o: 0, k: key })), "a missing pool"],
+    [btoa("null"), "null"],
+  ])("reject %s (%s)", (cursor) => {
+    expect(() => decodeCursor(cursor, key)).toThrow(InvalidCursorError);
+  });
+});
@@ -0,0 +1,84 @@
+// Cursor pagination for ranked search. The fused candidate list is reranked
+// in batches of RERANK_TOP_K, in fused order, and pages walk the batches: a
+// cursor records the next batch and how many of its passing results were
+// already returned, so later pages only rerank the batches they read. When
+// the batches of a candidate pool run out, pages go on into the next pool,
+// the candidates the retrievers rank after it (see hybridCandidates).
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_PAGE_SIZE = 50;
+export const DEFAULT_MIN_SCORE = 0.3;
+
+export interface PageOptions {
+  pageSize: number;
+  minScore: number;
+}
+
+export interface CursorPosition {
+  pool: number;
+  batch: number;
+  skip: number;
+  // Results returned on earlier pages
+  offset: number;
+}
+
+interface EncodedCursor {
+  p: number;
+  b: number;
+  s: number;
+  o: number;
+  // Fingerprint of the query the cursor belongs to
+  k: string;
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid or expired search cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+export function pageOptions(pageSize?: number, minScore?: number): PageOptions {
+  const size = Number.isFinite(pageSize) ? Math.floor(pageSize!) : DEFAULT_PAGE_SIZE;
+  const score = Number.isFinite(minScore) ? minScore! : DEFAULT_MIN_SCORE;
+  return {
+    pageSize: Math.min(Math.max(size, 1), MAX_PAGE_SIZE),
+    minScore: Math.min(Math.max(score, 0), 1),
+  };
+}
+
+// FNV-1a over everything that decides the ranked list, so a cursor cannot be
+// replayed against a different query
+export function cursorKey(parts: unknown[]): string {
+  let hash = 0x811c9dc5;
+  for (const char of JSON.stringify(parts)) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+export function encodeCursor(position: CursorPosition, key: string): string {
+  const cursor: EncodedCursor = { p: position.pool, b: position.batch, s: position.skip, o: position.offset, k: key };
+  return btoa(JSON.stringify(cursor)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function decodeCursor(cursor: string | undefined, key: string): CursorPosition {
+  if (!cursor) return { pool: 0, batch: 0, skip: 0, offset: 0 };
+
+  let decoded: EncodedCursor;
+  try {
+    decoded = JSON.parse(atob(cursor.replace(/-/g, "+").replace(/_/g, "/")));
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  const valid =
+    decoded?.k === key &&
+    Number.isInteger(decoded.p) && decoded.p >= 0 &&
+    Number.isInteger(decoded.b) && decoded.b >= 0 &&
+    Number.isInteger(decoded.s) && decoded.s >= 0 &&
+    Number.isInteger(decoded.o) && decoded.o >= 0;
+  if (!valid) throw new InvalidCursorError();
+
+  return { pool: decoded.p, batch: decoded.b, skip: decoded.s, offset: decoded.o };
+}
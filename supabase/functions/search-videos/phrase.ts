@@ -0,0 +1,93 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { PhraseMatch, PhraseRequest, PhraseResponse } from "./types.ts";
+
+// Exact phrase search: "what was said, word for word, and when". Runs on the
+// word timings in transcript_words rather than on segments, so a match is
+// timed to the spoken words themselves. Words are compared case-folded with
+// punctuation stripped (see the match_transcript_phrase migration) and are
+// otherwise literal: no stemming, no stop words, no synonyms.
+const MAX_MATCHES = 100;
+const MAX_PHRASE_WORDS = 30;
+const CONTEXT_WORDS = 8;
+
+interface PhraseRow {
+  video_id: string;
+  video_title: string;
+  video_path: string;
+  segment_id: string;
+  start_seconds: number | string;
+  end_seconds: number | string;
+  spoken: string;
+  context_before: string;
+  context_after: string;
+}
+
+export async function runPhraseSearch(supabase: SupabaseClient, request: PhraseRequest): Promise<PhraseResponse> {
+  const words = phraseWords(request.phrase || "");
+  if (words.length === 0) {
+    throw new Error("Missing phrase");
+  }
+  if (words.length > MAX_PHRASE_WORDS) {
+    throw new Error(`A phrase can have at most ${MAX_PHRASE_WORDS} words`);
+  }
+
+  // One extra row tells whether the list was cut off
+  const { data, error } = await supabase.rpc("match_transcript_phrase", {
+    phrase_words: words,
+    filter_video_id: request.videoId || null,
+    context_words: CONTEXT_WORDS,
+    match_count: MAX_MATCHES + 1,
+    filter_status: "ready",
+  });
+
+  if (error) {
+    console.error("Phrase search error:", error);
+    throw error;
+  }
+
+  const rows: PhraseRow[] = data || [];
+  if (rows.length === 0) {
+    return { matches: [], truncated: false, message: "Nobody says that phrase in the transcripts" };
+  }
+
+  return {
+    matches: rows.slice(0, MAX_MATCHES).map(toMatch),
+    truncated: rows.length > MAX_MATCHES,
+  };
+}
+
+// Same folding as transcript_words.normalized_word: lower case, letters and
+// digits only. Words that fold to nothing (a lone dash) are dropped, as
+// match_transcript_phrase skips them in the transcript.
+function phraseWords(phrase: string): string[] {
+  return phrase
+    .split(/\s+/)
+    .map((word) => word.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ""))
+    .filter(Boolean);
+}
+
+function toMatch(row: PhraseRow): PhraseMatch {
+  const start = Number(row.start_seconds);
+  const end = Number(row.end_seconds);
+  return {
+    video_id: row.video_id,
+    video_title: row.video_title,
+    video_path: row.video_path,
+    segment_id: row.segment_id,
+    start_seconds: start,
+    end_seconds: end,
+    start_display: preciseTimestamp(start),
+    end_display: preciseTimestamp(end),
+    spoken: row.spoken,
+    context_before: row.context_before,
+    context_after: row.context_after,
+  };
+}
+
+// HH:MM:SS.s: word timings are finer than the whole seconds of segments
+function preciseTimestamp(seconds: number): string {
+  const hrs = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = (Math.floor((seconds % 60) * 10) / 10).toFixed(1).padStart(4, "0");
+  return `${hrs.toString().padStart(2, "0")}:${mins.toString().padStart(2, "0")}:${secs}`;
+}
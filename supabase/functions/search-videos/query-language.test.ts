@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { buildTsQuery } from "./lexical.ts";
+import { compileQuery, highlightTerms, parseQuery, parseTime } from "./query-language.ts";
+
+function compile(query: string) {
+  const { ast, errors } = parseQuery(query);
+  expect(errors).toEqual([]);
+  return compileQuery(ast);
+}
+
+describe("parseQuery", () => {
+  it("parses field terms with their spans", () => {
+    const { ast } = parseQuery('object:person>=2 ocr:"exit"');
+    expect(ast).toEqual({
+      type: "and",
+      span: { start: 0, end: 27 },
+      children: [
+        { type: "object", name: "person", comparator: ">=", count: 2, span: { start: 0, end: 16 } },
+        { type: "match", field: "ocr", value: "exit", prefix: false, span: { start: 17, end: 27 } },
+      ],
+    });
+  });
+
+  it("defaults an object filter to at least one", () => {
+    const { ast } = parseQuery('object:"traffic light"');
+    expect(ast).toMatchObject({ type: "object", name: "traffic light", comparator: ">=", count: 1 });
+  });
+
+  it("binds AND tighter than OR and negates with NOT or a leading -", () => {
+    const { ast } = parseQuery("a OR b -c");
+    expect(ast).toMatchObject({
+      type: "or",
+      children: [
+        { type: "text", value: "a" },
+        { type: "and", children: [{ value: "b" }, { type: "not", child: { value: "c" } }] },
+      ],
+    });
+    expect(parseQuery("(a OR b) NOT c").ast).toMatchObject({
+      type: "and",
+      children: [{ type: "or" }, { type: "not", child: { value: "c" } }],
+    });
+  });
+
+  it.each([
+    ["colour:red", "Unknown field", { start: 0, end: 6 }],
+    ["after:soon", 'Invalid time "soon"', { start: 6, end: 10 }],
+    ["object:>2", "Invalid object filter", { start: 7, end: 9 }],
+    ['ocr:"exit', "Unterminated quote", { start: 4, end: 9 }],
+    ["(budget", "Missing closing parenthesis", { start: 0, end: 1 }],
+    ["budget)", "Unmatched closing parenthesis", { start: 6, end: 7 }],
+    ["OR budget", "OR must be preceded by a term", { start: 0, end: 2 }],
+    ["transcript:", 'Missing value for "transcript:"', { start: 0, end: 11 }],
+  ])("reports %s", (query, message, span) => {
+    const { ast, errors } = parseQuery(query);
+    expect(ast).toBeNull();
+    expect(errors[0].message).toContain(message);
+    expect(errors[0]).toMatchObject(span);
+  });
+});
+
+describe("compileQuery", () => {
+  it("keeps free text for ranking and turns the rest into filters", () => {
+    expect(compile('budget "next year" object:person after:1:30')).toEqual({
+      text: 'budget "next year"',
+      filter: {
+        type: "and",
+        children: [
+          { type: "object", name: "person", comparator: ">=", count: 1 },
+          { type: "after", seconds: 90 },
+        ],
+      },
+    });
+  });
+
+  it("makes negated free text a filter", () => {
+    expect(compile("budget -draft")).toEqual({
+      text: "budget",
+      filter: { type: "not", child: { type: "match", field: "any", value: "draft", prefix: false } },
+    });
+  });
+
+  it.each([
+    ["(a b) OR c", "(a b) OR c", "((a & b) | c)"],
+    ["a b OR c", "(a b) OR c", "((a & b) | c)"],
+    ["a OR b c", "a OR (b c)", "(a | (b & c))"],
+    ["(a OR b) c", "(a OR b) c", "(a | b) & c"],
+    ['"next year" OR budg*', '"next year" OR budg*', "((next <-> year) | budg:*)"],
+  ])("keeps the grouping of %s through to the lexical query", (query, text, tsQuery) => {
+    const compiled = compile(query);
+    expect(compiled.text).toBe(text);
+    expect(buildTsQuery(compiled.text)).toBe(tsQuery);
+  });
+
+  it("adds extra filters", () => {
+    const { ast } = parseQuery("budget");
+    expect(compileQuery(ast, [{ type: "videos", ids: ["v1"] }])).toEqual({
+      text: "budget",
+      filter: { type: "videos", ids: ["v1"] },
+    });
+  });
+});
+
+describe("parseTime", () => {
+  it.each([
+    ["01:02:03", 3723],
+    ["1:30", 90],
+    ["45", 45],
+    ["2.5", 2.5],
+    ["90s", 90],
+    ["1m30s", 90],
+    ["1h", 3600],
+  ])("reads %s as %d seconds", (value, seconds) => {
+    expect(parseTime(value)).toBe(seconds);
+  });
+
+  it.each(["", "1:60", "soon", "1m30"])("rejects %j", (value) => {
+    expect(parseTime(value)).toBeNull();
+  });
+});
+
+describe("highlightTerms", () => {
+  it("returns positive text and field terms, not negated ones", () => {
+    const { ast } = parseQuery("budg* transcript:forecast -draft object:person");
+    expect(highlightTerms(ast)).toEqual([
+      { field: "any", words: ["budg"], prefix: true },
+      { field: "transcript", words: ["forecast"], prefix: false },
+    ]);
+  });
+});
@@ -0,0 +1,412 @@
+// Structured search syntax typed into the search panel, e.g.
+//
+//   object:person>=2 ocr:"exit" transcript:budget after:00:01:30 video:"Keynote"
+//
+// Terms are ANDed unless joined with OR; parentheses group, and NOT or a
+// leading "-" negates. Bare words and "quoted phrases" are free text. Field
+// values may be quoted, and text values may end in "*" to match a prefix.
+//
+// parseQuery() builds an AST; compileQuery() splits it into the free text used
+// for retrieval and ranking and a filter tree that the database evaluates with
+// segment_matches_filter().
+
+export interface Span {
+  start: number;
+  end: number;
+}
+
+export interface QuerySyntaxError extends Span {
+  message: string;
+  // Sequence searches report which step's query the offsets refer to
+  step?: number;
+}
+
+export type Comparator = ">=" | ">" | "<=" | "<" | "=";
+export type TextField = "ocr" | "transcript" | "description" | "video";
+
+export type QueryNode =
+  | { type: "and"; children: QueryNode[]; span: Span }
+  | { type: "or"; children: QueryNode[]; span: Span }
+  | { type: "not"; child: QueryNode; span: Span }
+  | { type: "text"; value: string; phrase: boolean; span: Span }
+  | { type: "match"; field: TextField; value: string; prefix: boolean; span: Span }
+  | { type: "object"; name: string; comparator: Comparator; count: number; span: Span }
+  | { type: "time"; field: "after" | "before"; seconds: number; span: Span };
+
+// JSON shape evaluated by the segment_matches_filter() SQL function
+export type FilterNode =
+  | { type: "and" | "or"; children: FilterNode[] }
+  | { type: "not"; child: FilterNode }
+  | { type: "match"; field: TextField | "any"; value: string; prefix: boolean }
+  | { type: "object"; name: string; comparator: Comparator; count: number }
+  | { type: "after" | "before"; seconds: number }
+  // Not part of the syntax: library Q&A limits retrieval to chosen videos
+  | { type: "videos"; ids: string[] };
+
+// Words a result should be highlighted for, and in which field
+export interface HighlightTerm {
+  field: TextField | "any";
+  words: string[];
+  prefix: boolean;
+}
+
+export interface ParsedQuery {
+  ast: QueryNode | null;
+  errors: QuerySyntaxError[];
+}
+
+export interface CompiledQuery {
+  text: string;
+  filter: FilterNode | null;
+}
+
+export class QuerySyntaxException extends Error {
+  constructor(public errors: QuerySyntaxError[]) {
+    super(errors[0]?.message || "Invalid search query");
+    this.name = "QuerySyntaxException";
+  }
+}
+
+const TEXT_FIELDS: Record<string, TextField> = {
+  ocr: "ocr",
+  transcript: "transcript",
+  description: "description",
+  desc: "description",
+  video: "video",
+};
+const KNOWN_FIELDS = [...Object.keys(TEXT_FIELDS), "object", "after", "before"];
+
+// A term is everything up to the next space or parenthesis outside quotes,
+// e.g. object:person>=2 or video:"Team sync"
+export type QueryToken =
+  | { kind: "lparen" | "rparen" | "or" | "and" | "not"; span: Span }
+  | { kind: "term"; raw: string; span: Span };
+
+function tokenize(query: string, errors: QuerySyntaxError[]): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ kind: char === "(" ? "lparen" : "rparen", span: { start: i, end: i + 1 } });
+      i++;
+    } else if (char === "-" && i + 1 < query.length && !/[\s)]/.test(query[i + 1])) {
+      tokens.push({ kind: "not", span: { start: i, end: i + 1 } });
+      i++;
+    } else {
+      // A term runs to the next space or parenthesis, except inside quotes
+      const start = i;
+      while (i < query.length && !/[\s()]/.test(query[i])) {
+        if (query[i] === '"') {
+          const close = query.indexOf('"', i + 1);
+          if (close === -1) {
+            errors.push({ message: "Unterminated quote", start: i, end: query.length });
+            i = query.length;
+            break;
+          }
+          i = close + 1;
+        } else {
+          i++;
+        }
+      }
+
+      const raw = query.slice(start, i);
+      const span = { start, end: i };
+      if (raw === "OR") tokens.push({ kind: "or", span });
+      else if (raw === "AND") tokens.push({ kind: "and", span });
+      else if (raw === "NOT") tokens.push({ kind: "not", span });
+      else tokens.push({ kind: "term", raw, span });
+    }
+  }
+
+  return tokens;
+}
+
+// The query split the way the parser reads it, ignoring syntax errors
+export function queryTokens(query: string): QueryToken[] {
+  return tokenize(query, []);
+}
+
+function unquote(value: string): { value: string; quoted: boolean } {
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    return { value: value.slice(1, -1), quoted: true };
+  }
+  return { value, quoted: false };
+}
+
+// Accepts hh:mm:ss, mm:ss, plain seconds, or unit forms such as 90s / 1m30s / 1h
+export function parseTime(value: string): number | null {
+  if (/^\d+(:\d{1,2}){1,2}$/.test(value)) {
+    const parts = value.split(":").map(Number);
+    if (parts.slice(1).some((part) => part > 59)) return null;
+    return parts.reduce((total, part) => total * 60 + part, 0);
+  }
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  const units = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+(?:\.\d+)?)s)?$/);
+  if (units && value) {
+    const [, hours, minutes, seconds] = units;
+    return Number(hours || 0) * 3600 + Number(minutes || 0) * 60 + Number(seconds || 0);
+  }
+  return null;
+}
+
+function parseTerm(token: { raw: string; span: Span }, errors: QuerySyntaxError[]): QueryNode | null {
+  const { raw, span } = token;
+  const fieldMatch = raw.match(/^([a-zA-Z]+):(.*)$/);
+
+  if (!fieldMatch) {
+    const { value, quoted } = unquote(raw);
+    if (!value.trim()) {
+      errors.push({ message: "Empty phrase", ...span });
+      return null;
+    }
+    return { type: "text", value, phrase: quoted, span };
+  }
+
+  const field = fieldMatch[1].toLowerCase();
+  const rawValue = fieldMatch[2];
+  const valueSpan = { start: span.start + fieldMatch[1].length + 1, end: span.end };
+
+  if (!KNOWN_FIELDS.includes(field)) {
+    errors.push({
+      message: `Unknown field "${fieldMatch[1]}". Use one of: ${KNOWN_FIELDS.filter((f) => f !== "desc").join(", ")}`,
+      start: span.start,
+      end: span.start + fieldMatch[1].length,
+    });
+    return null;
+  }
+
+  if (!rawValue) {
+    errors.push({ message: `Missing value for "${field}:"`, ...span });
+    return null;
+  }
+
+  if (field === "after" || field === "before") {
+    const seconds = parseTime(rawValue);
+    if (seconds === null) {
+      errors.push({ message: `Invalid time "${rawValue}". Use hh:mm:ss, mm:ss or seconds`, ...valueSpan });
+      return null;
+    }
+    return { type: "time", field, seconds, span };
+  }
+
+  if (field === "object") {
+    const objectMatch = rawValue.match(/^(?:"([^"]+)"|([\p{L}\p{N}_-]+))(?:(>=|<=|>|<|=)(\d+))?$/u);
+    if (!objectMatch) {
+      errors.push({ message: `Invalid object filter "${rawValue}". Use object:name or object:name>=count`, ...valueSpan });
+      return null;
+    }
+    const [, quotedName, name, comparator, count] = objectMatch;
+    return {
+      type: "object",
+      name: (quotedName ?? name).trim(),
+      comparator: (comparator as Comparator) || ">=",
+      count: count !== undefined ? Number(count) : 1,
+      span,
+    };
+  }
+
+  const { value, quoted } = unquote(rawValue);
+  const prefix = !quoted && value.endsWith("*");
+  const text = prefix ? value.slice(0, -1) : value;
+  if (!text.trim() || (prefix && !/^[\p{L}\p{N}]+$/u.test(text))) {
+    errors.push({ message: `Invalid value for "${field}:"`, ...valueSpan });
+    return null;
+  }
+  return { type: "match", field: TEXT_FIELDS[field], value: text, prefix, span };
+}
+
+function spanOf(nodes: QueryNode[]): Span {
+  return { start: nodes[0].span.start, end: nodes[nodes.length - 1].span.end };
+}
+
+export function parseQuery(query: string): ParsedQuery {
+  const errors: QuerySyntaxError[] = [];
+  const tokens = tokenize(query, errors);
+  let position = 0;
+
+  const peek = () => tokens[position];
+
+  function parseOr(): QueryNode | null {
+    const children: QueryNode[] = [];
+    const first = parseAnd();
+    if (first) children.push(first);
+
+    while (peek()?.kind === "or") {
+      const operator = tokens[position++];
+      const next = parseAnd();
+      if (!next) {
+        errors.push({ message: "OR must be followed by a term", ...operator.span });
+        break;
+      }
+      if (children.length === 0) {
+        errors.push({ message: "OR must be preceded by a term", ...operator.span });
+      }
+      children.push(next);
+    }
+
+    if (children.length <= 1) return children[0] || null;
+    return { type: "or", children, span: spanOf(children) };
+  }
+
+  function parseAnd(): QueryNode | null {
+    const children: QueryNode[] = [];
+
+    for (;;) {
+      const token = peek();
+      if (!token || token.kind === "or" || token.kind === "rparen") break;
+
+      if (token.kind === "and") {
+        position++;
+        if (children.length === 0 || !peek() || ["or", "rparen", "and"].includes(peek().kind)) {
+          errors.push({ message: "AND must join two terms", ...token.span });
+        }
+        continue;
+      }
+
+      const node = parseUnary();
+      if (node) children.push(node);
+    }
+
+    if (children.length <= 1) return children[0] || null;
+    return { type: "and", children, span: spanOf(children) };
+  }
+
+  function parseUnary(): QueryNode | null {
+    const token = tokens[position++];
+
+    if (token.kind === "not") {
+      const next = peek();
+      if (!next || next.kind === "or" || next.kind === "and" || next.kind === "rparen") {
+        errors.push({ message: "Nothing to negate", ...token.span });
+        return null;
+      }
+      const child = parseUnary();
+      return child ? { type: "not", child, span: { start: token.span.start, end: child.span.end } } : null;
+    }
+
+    if (token.kind === "lparen") {
+      const inner = parseOr();
+      const close = peek();
+      if (close?.kind !== "rparen") {
+        errors.push({ message: "Missing closing parenthesis", ...token.span });
+        return inner;
+      }
+      position++;
+      if (!inner) {
+        errors.push({ message: "Empty parentheses", start: token.span.start, end: close.span.end });
+        return null;
+      }
+      return { ...inner, span: { start: token.span.start, end: close.span.end } };
+    }
+
+    if (token.kind === "term") {
+      return parseTerm(token, errors);
+    }
+
+    return null;
+  }
+
+  const ast = parseOr();
+  while (position < tokens.length) {
+    const stray = tokens[position++];
+    errors.push({ message: stray.kind === "rparen" ? "Unmatched closing parenthesis" : "Unexpected operator", ...stray.span });
+    // Keep going so errors after the stray token are reported too
+    parseOr();
+  }
+
+  return { ast: errors.length > 0 ? null : ast, errors };
+}
+
+// Free-text subtrees without negation stay ranking text; everything else must
+// hold for a segment to be a candidate at all.
+function isRankingText(node: QueryNode): boolean {
+  if (node.type === "text") return true;
+  if (node.type === "and" || node.type === "or") return node.children.every(isRankingText);
+  return false;
+}
+
+// Compound children are parenthesized, so buildTsQuery in lexical.ts groups
+// the text as the parser did: (a b) OR c stays (a & b) | c
+function renderText(node: QueryNode): string {
+  switch (node.type) {
+    case "text":
+      return node.phrase ? `"${node.value}"` : node.value;
+    case "and":
+      return node.children.map(renderChild).join(" ");
+    case "or":
+      return node.children.map(renderChild).join(" OR ");
+    default:
+      return "";
+  }
+}
+
+function renderChild(node: QueryNode): string {
+  return node.type === "and" || node.type === "or" ? `(${renderText(node)})` : renderText(node);
+}
+
+function toFilter(node: QueryNode): FilterNode {
+  switch (node.type) {
+    case "and":
+    case "or":
+      return { type: node.type, children: node.children.map(toFilter) };
+    case "not":
+      return { type: "not", child: toFilter(node.child) };
+    case "text":
+      return { type: "match", field: "any", value: node.value, prefix: false };
+    case "match":
+      return { type: "match", field: node.field, value: node.value, prefix: node.prefix };
+    case "object":
+      return { type: "object", name: node.name, comparator: node.comparator, count: node.count };
+    case "time":
+      return { type: node.field, seconds: node.seconds };
+  }
+}
+
+export function compileQuery(ast: QueryNode | null, extraFilters: FilterNode[] = []): CompiledQuery {
+  const conjuncts = !ast ? [] : ast.type === "and" ? ast.children : [ast];
+  const textNodes: QueryNode[] = [];
+  const filters: FilterNode[] = [...extraFilters];
+
+  for (const node of conjuncts) {
+    if (isRankingText(node)) {
+      textNodes.push(node);
+    } else {
+      filters.push(toFilter(node));
+    }
+  }
+
+  return {
+    text: (textNodes.length === 1 ? renderText(textNodes[0]) : textNodes.map(renderChild).join(" ")).trim(),
+    filter: filters.length === 0 ? null : filters.length === 1 ? filters[0] : { type: "and", children: filters },
+  };
+}
+
+// Positive text and field-match terms; anything under NOT is left out since
+// it cannot appear in a matching segment
+export function highlightTerms(ast: QueryNode | null): HighlightTerm[] {
+  if (!ast) return [];
+
+  switch (ast.type) {
+    case "and":
+    case "or":
+      return ast.children.flatMap(highlightTerms);
+    case "text":
+    case "match": {
+      const words = ast.value.match(/[\p{L}\p{N}]+/gu) || [];
+      if (words.length === 0) return [];
+      if (ast.type === "match") {
+        return [{ field: ast.field, words, prefix: ast.prefix }];
+      }
+      return [{ field: "any", words, prefix: !ast.phrase && ast.value.endsWith("*") }];
+    }
+    default:
+      return [];
+  }
+}
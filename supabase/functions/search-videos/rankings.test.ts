@@ -0,0 +1,133 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { describe, expect, it } from "vitest";
+import { FusedCandidate } from "./fusion.ts";
+import { loadRankings, rankingScope, resolveRankings, saveRankings } from "./rankings.ts";
+
+function entry(id: string): FusedCandidate {
+  return {
+    candidate: {
+      id,
+      video_id: "video",
+      video_title: "Video",
+      video_path: "video.mp4",
+      timestamp_seconds: 0,
+      timestamp_display: "00:00:00",
+      description: null,
+      transcript: null,
+      ocr_text: null,
+      detected_objects: {},
+    },
+    score: 0,
+    ranks: {},
+    retrievers: ["lexical"],
+  };
+}
+
+interface Row {
+  ranking_key: string;
+  batch: number;
+  index_version: number;
+  rankings: unknown;
+}
+
+// Just the queries rankings.ts makes, over search_index_state and an
+// in-memory search_rankings table
+function storeClient(version: number, rows: Row[] = []): { client: SupabaseClient; rows: Row[] } {
+  const client = {
+    from: (table: string) => {
+      if (table === "search_index_state") {
+        return { select: () => ({ single: () => Promise.resolve({ data: { version }, error: null }) }) };
+      }
+      const filters: Partial<Row> = {};
+      const query = {
+        select: () => query,
+        eq: (column: keyof Row, value: never) => {
+          filters[column] = value;
+          return query;
+        },
+        maybeSingle: () => {
+          const row = rows.find((r) => r.ranking_key === filters.ranking_key && r.batch === filters.batch);
+          return Promise.resolve({ data: row ?? null, error: null });
+        },
+        upsert: (row: Row) => {
+          const index = rows.findIndex((r) => r.ranking_key === row.ranking_key && r.batch === row.batch);
+          rows.splice(index === -1 ? rows.length : index, index === -1 ? 0 : 1, row);
+          return Promise.resolve({ error: null });
+        },
+        delete: () => ({
+          lt: (_column: string, below: number) => {
+            rows.splice(0, rows.length, ...rows.filter((r) => r.index_version >= below));
+            return Promise.resolve({ error: null });
+          },
+        }),
+      };
+      return query;
+    },
+  };
+  return { client: client as unknown as SupabaseClient, rows };
+}
+
+const POOL = [entry("a"), entry("b"), entry("c")];
+const RETRIEVAL = { limit: 200 };
+
+describe("rankings store", () => {
+  it("reads back the ranking a batch was stored with", async () => {
+    const { client } = storeClient(4);
+    const scope = await rankingScope(client, "budget", RETRIEVAL);
+    const rankings = [
+      { index: 2, relevance_score: 0.9, reason: "Slides" },
+      { index: 0, relevance_score: 0.4, reason: "Mentioned" },
+    ];
+
+    expect(await loadRankings(client, scope, 0, POOL)).toBeNull();
+    await saveRankings(client, scope, 0, POOL, rankings);
+
+    expect(await loadRankings(client, scope, 0, POOL)).toEqual(rankings);
+    expect(await loadRankings(client, scope, 1, POOL)).toBeNull();
+  });
+
+  it("keys rankings by the text, the scope, the pool and the index version", async () => {
+    const { client } = storeClient(4);
+    const scope = await rankingScope(client, "budget", RETRIEVAL);
+
+    expect(await rankingScope(client, "budget", RETRIEVAL)).toEqual(scope);
+    expect((await rankingScope(client, "deck", RETRIEVAL))?.key).not.toBe(scope?.key);
+    expect((await rankingScope(client, "budget", { ...RETRIEVAL, videoId: "video" }))?.key).not.toBe(scope?.key);
+    expect((await rankingScope(client, "budget", RETRIEVAL, 1))?.key).not.toBe(scope?.key);
+    expect((await rankingScope(storeClient(5).client, "budget", RETRIEVAL))?.key).not.toBe(scope?.key);
+  });
+
+  it("prunes rankings of older index versions on write", async () => {
+    const stale = { ranking_key: "old", batch: 0, index_version: 3, rankings: [] };
+    const { client, rows } = storeClient(4, [stale]);
+    const scope = await rankingScope(client, "budget", RETRIEVAL);
+
+    await saveRankings(client, scope, 0, POOL, [{ index: 1, relevance_score: 0.5, reason: "" }]);
+
+    expect(rows).toEqual([
+      { ranking_key: scope?.key, batch: 0, index_version: 4, rankings: [{ segment_id: "b", relevance_score: 0.5, reason: "" }] },
+    ]);
+  });
+
+  it("skips the store when the index version cannot be read", async () => {
+    const client = { from: () => ({ select: () => ({ single: () => Promise.reject(new Error("down")) }) }) };
+    const scope = await rankingScope(client as unknown as SupabaseClient, "budget", RETRIEVAL);
+
+    expect(scope).toBeNull();
+    expect(await loadRankings(client as unknown as SupabaseClient, scope, 0, POOL)).toBeNull();
+  });
+});
+
+describe("resolveRankings", () => {
+  it("maps stored segment IDs to their place in the batch", () => {
+    const stored = [
+      { segment_id: "c", relevance_score: 0.8, reason: "" },
+      { segment_id: "a", relevance_score: 0.6, reason: "" },
+    ];
+    expect(resolveRankings(stored, POOL)?.map((rank) => rank.index)).toEqual([2, 0]);
+  });
+
+  it("gives up on a ranking that names a segment the batch no longer holds", () => {
+    expect(resolveRankings([{ segment_id: "gone", relevance_score: 1, reason: "" }], POOL)).toBeNull();
+  });
+});
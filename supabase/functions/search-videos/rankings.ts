@@ -0,0 +1,106 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { hashKey, indexVersion } from "./cache.ts";
+import { FusedCandidate } from "./fusion.ts";
+import { RetrievalOptions } from "./retrieval.ts";
+import { Ranking } from "./types.ts";
+
+// The reranker's output for each batch of fused candidates, stored so every
+// page of a query reads one ranking of a batch: a cursor counts results into
+// that ranking, and a second call to the reranker may order the batch
+// differently. Rankings are keyed by the ranking text, its scope, the
+// candidate pool and the index version, so a changed index ranks afresh. The store only helps
+// pagination; if it cannot be read or written, batches are reranked.
+
+// A ranking as stored; the segment ID ties it to the candidate, not to its
+// position in the batch
+export interface StoredRanking {
+  segment_id: string;
+  relevance_score: number;
+  reason: string;
+}
+
+export interface RankingScope {
+  key: string;
+  version: number;
+}
+
+export async function rankingScope(
+  supabase: SupabaseClient,
+  text: string,
+  retrieval: RetrievalOptions,
+  pool = 0
+): Promise<RankingScope | null> {
+  try {
+    const version = await indexVersion(supabase);
+    const key = await hashKey([version, text, retrieval.videoId || null, retrieval.filter || null, retrieval.limit, pool]);
+    return { key, version };
+  } catch (error) {
+    console.error("Ranking store read error:", error);
+    return null;
+  }
+}
+
+// The stored ranking of a batch, or null when there is none or it names a
+// segment the batch no longer holds
+export async function loadRankings(
+  supabase: SupabaseClient,
+  scope: RankingScope | null,
+  batch: number,
+  pool: FusedCandidate[]
+): Promise<Ranking[] | null> {
+  if (!scope) return null;
+
+  const { data, error } = await supabase
+    .from("search_rankings")
+    .select("rankings")
+    .eq("ranking_key", scope.key)
+    .eq("batch", batch)
+    .maybeSingle();
+  if (error) {
+    console.error("Ranking store read error:", error);
+    return null;
+  }
+  if (!data) return null;
+
+  return resolveRankings(data.rankings as StoredRanking[], pool);
+}
+
+export async function saveRankings(
+  supabase: SupabaseClient,
+  scope: RankingScope | null,
+  batch: number,
+  pool: FusedCandidate[],
+  rankings: Ranking[]
+): Promise<void> {
+  if (!scope) return;
+
+  const stored: StoredRanking[] = rankings.map((rank) => ({
+    segment_id: pool[rank.index].candidate.id,
+    relevance_score: rank.relevance_score,
+    reason: rank.reason,
+  }));
+  const { error } = await supabase.from("search_rankings").upsert({
+    ranking_key: scope.key,
+    batch,
+    index_version: scope.version,
+    rankings: stored,
+  });
+  if (error) {
+    console.error("Ranking store write error:", error);
+    return;
+  }
+
+  const { error: pruneError } = await supabase.from("search_rankings").delete().lt("index_version", scope.version);
+  if (pruneError) console.error("Ranking store prune error:", pruneError);
+}
+
+export function resolveRankings(stored: StoredRanking[], pool: FusedCandidate[]): Ranking[] | null {
+  const positions = new Map(pool.map((entry, index) => [entry.candidate.id, index]));
+  const rankings: Ranking[] = [];
+  for (const rank of stored) {
+    const index = positions.get(rank.segment_id);
+    if (index === undefined) return null;
+    rankings.push({ index, relevance_score: rank.relevance_score, reason: rank.reason });
+  }
+  return rankings;
+}
@@ -0,0 +1,56 @@
+import { chatCompletion } from "../_shared/ai-gateway.ts";
+import { Ranking, SegmentCandidate } from "./types.ts";
+
+// Use AI to score every segment against the query. Nothing is dropped here:
+// the caller applies its minimum score, so broad queries keep all their hits.
+export async function rerankCandidates(query: string, segments: SegmentCandidate[]): Promise<Ranking[]> {
+  const rankingPrompt = `You are a semantic search ranking system. Given a user query and a list of video segments, rank them by relevance.
+
+User Query: "${query}"
+
+Video Segments:
+${segments.map((seg, idx) => `
+[${idx}] Timestamp: ${seg.timestamp_display}
+Description: ${seg.description || "N/A"}
+Transcript: ${seg.transcript || "N/A"}
+OCR Text: ${seg.ocr_text || "N/A"}
+Objects: ${JSON.stringify(seg.detected_objects)}
+`).join("\n")}
+
+Analyze semantic relevance considering:
+1. Direct keyword matches in description, transcript, and OCR text
+2. Conceptual/semantic relevance to the query
+3. Object detection relevance
+
+Return a JSON array with one object per segment, sorted by score descending, with this exact structure:
+[
+  {
+    "index": 0,
+    "relevance_score": 0.95,
+    "reason": "Brief explanation of why this is relevant"
+  }
+]
+
+Scores range from 0 (unrelated) to 1 (exact match). Only respond with the JSON array.`;
+
+  const rankingContent = await chatCompletion([
+    { role: "system", content: "You are a semantic search ranking system. Always respond with valid JSON only." },
+    { role: "user", content: rankingPrompt },
+  ]);
+
+  const jsonMatch = rankingContent.match(/\[[\s\S]*\]/);
+  if (!jsonMatch) {
+    throw new Error("No JSON array found in ranking response");
+  }
+
+  const rankings: Ranking[] = JSON.parse(jsonMatch[0]);
+  const seen = new Set<number>();
+  return rankings
+    .filter((rank) => {
+      const valid = Number.isInteger(rank.index) && rank.index >= 0 && rank.index < segments.length && !seen.has(rank.index);
+      seen.add(rank.index);
+      return valid;
+    })
+    .sort((a, b) => b.relevance_score - a.relevance_score);
+}
+
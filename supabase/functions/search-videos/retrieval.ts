@@ -0,0 +1,110 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { embedText } from "../_shared/embeddings.ts";
+import { FilterNode } from "./query-language.ts";
+import { SegmentCandidate } from "./types.ts";
+
+export interface RetrievalOptions {
+  videoId?: string;
+  limit: number;
+  // Compiled field filters, evaluated by the database before ranking
+  filter?: FilterNode | null;
+}
+
+// Nearest segments to the query embedding, via the match_video_segments RPC
+export async function semanticCandidates(
+  supabase: SupabaseClient,
+  query: string,
+  options: RetrievalOptions
+): Promise<SegmentCandidate[]> {
+  const queryEmbedding = await embedText(query);
+
+  const { data, error } = await supabase.rpc("match_video_segments", {
+    query_embedding: queryEmbedding,
+    match_count: options.limit,
+    filter_video_id: options.videoId || null,
+    filter_status: "ready",
+    filter: options.filter || null,
+  });
+
+  if (error) {
+    console.error("Semantic retrieval error:", error);
+    throw error;
+  }
+
+  return (data || []).map(toCandidate);
+}
+
+// Segments matching a filter on its own, for queries made only of field terms
+export async function filteredCandidates(
+  supabase: SupabaseClient,
+  filter: FilterNode,
+  options: RetrievalOptions
+): Promise<SegmentCandidate[]> {
+  return (await filteredPage(supabase, filter, options, 0)).segments;
+}
+
+export interface FilteredPage {
+  segments: SegmentCandidate[];
+  // Segments matching the filter in all, 0 when the page is past the end
+  total: number;
+}
+
+// options.limit segments matching a filter, starting offset segments into
+// library order, via the filter_video_segments RPC
+export async function filteredPage(
+  supabase: SupabaseClient,
+  filter: FilterNode,
+  options: RetrievalOptions,
+  offset: number
+): Promise<FilteredPage> {
+  const { data, error } = await supabase.rpc("filter_video_segments", {
+    filter,
+    match_count: options.limit,
+    match_offset: offset,
+    filter_video_id: options.videoId || null,
+    filter_status: "ready",
+  });
+
+  if (error) {
+    console.error("Filter retrieval error:", error);
+    throw error;
+  }
+
+  const rows = data || [];
+  return {
+    segments: rows.map(({ total_count: _total, ...row }: SegmentCandidate & { total_count: number }) => toCandidate(row)),
+    total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+  };
+}
+
+// Where a segment ends and the segment after it in its video, null for the last
+export interface SegmentSpan {
+  nextSegmentId: string | null;
+  endSeconds: number;
+}
+
+// Spans of the given segments, via the segment_spans RPC
+export async function segmentSpans(supabase: SupabaseClient, segmentIds: string[]): Promise<Map<string, SegmentSpan>> {
+  const spans = new Map<string, SegmentSpan>();
+  if (segmentIds.length === 0) return spans;
+
+  const { data, error } = await supabase.rpc("segment_spans", { segment_ids: [...new Set(segmentIds)] });
+
+  if (error) {
+    console.error("Segment span error:", error);
+    throw error;
+  }
+
+  for (const row of data || []) {
+    spans.set(row.id, { nextSegmentId: row.next_segment_id, endSeconds: Number(row.end_seconds) });
+  }
+  return spans;
+}
+
+export function toCandidate(row: SegmentCandidate): SegmentCandidate {
+  return {
+    ...row,
+    timestamp_seconds: Number(row.timestamp_seconds),
+    detected_objects: row.detected_objects || {},
+  };
+}
@@ -0,0 +1,65 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { describe, expect, it, vi } from "vitest";
+import { lexicalCandidates } from "./lexical.ts";
+import { RetrievalOptions, semanticCandidates } from "./retrieval.ts";
+import { hybridCandidates } from "./search.ts";
+import { SegmentCandidate } from "./types.ts";
+
+// Each retriever returns the first options.limit of a fixed ranking
+vi.mock("./retrieval.ts", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./retrieval.ts")>()),
+  semanticCandidates: vi.fn(),
+}));
+vi.mock("./lexical.ts", () => ({ lexicalCandidates: vi.fn() }));
+
+function candidate(id: string): SegmentCandidate {
+  return {
+    id,
+    video_id: "video",
+    video_title: "Video",
+    video_path: "video.mp4",
+    timestamp_seconds: 0,
+    timestamp_display: "00:00:00",
+    description: null,
+    transcript: null,
+    ocr_text: null,
+    detected_objects: {},
+  };
+}
+
+function ranks(ids: string[]) {
+  return async (_supabase: SupabaseClient, _text: string, options: RetrievalOptions) =>
+    ids.slice(0, options.limit).map(candidate);
+}
+
+vi.mocked(semanticCandidates).mockImplementation(ranks(["a", "b", "d", "e", "g"]));
+vi.mocked(lexicalCandidates).mockImplementation(ranks(["c", "a", "b", "f"]));
+
+const supabase = {} as SupabaseClient;
+const RETRIEVAL = { limit: 2 };
+
+describe("hybridCandidates", () => {
+  it("fuses the top of each retriever into the first pool", async () => {
+    const { fused, offset, exhausted } = await hybridCandidates(supabase, "budget", RETRIEVAL);
+
+    expect(fused.map((entry) => entry.candidate.id)).toEqual(["a", "c", "b"]);
+    expect(offset).toBe(0);
+    expect(exhausted).toBe(false);
+  });
+
+  it("goes deeper into each retriever for a later pool, leaving out what earlier pools held", async () => {
+    const { fused, offset, exhausted } = await hybridCandidates(supabase, "budget", RETRIEVAL, 1);
+
+    expect(fused.map((entry) => entry.candidate.id)).toEqual(["d", "f", "e"]);
+    expect(fused[0].ranks).toEqual({ semantic: 3 });
+    expect(offset).toBe(3);
+    expect(exhausted).toBe(false);
+  });
+
+  it("is exhausted once every retriever runs out within the pool", async () => {
+    const { fused, exhausted } = await hybridCandidates(supabase, "budget", RETRIEVAL, 2);
+
+    expect(fused.map((entry) => entry.candidate.id)).toEqual(["g"]);
+    expect(exhausted).toBe(true);
+  });
+});
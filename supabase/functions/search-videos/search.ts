@@ -0,0 +1,318 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AiGatewayError } from "../_shared/ai-gateway.ts";
+import {
+  compileQuery,
+  FilterNode,
+  HighlightTerm,
+  highlightTerms,
+  parseQuery,
+  QuerySyntaxException,
+} from "./query-language.ts";
+import { filteredPage, RetrievalOptions, semanticCandidates } from "./retrieval.ts";
+import { lexicalCandidates } from "./lexical.ts";
+import { FusedCandidate, maxFusedScore, reciprocalRankFusion, RetrieverName } from "./fusion.ts";
+import { rerankCandidates } from "./rerank.ts";
+import { loadRankings, rankingScope, saveRankings } from "./rankings.ts";
+import { CursorPosition, cursorKey, decodeCursor, encodeCursor, pageOptions, PageOptions } from "./pagination.ts";
+import { computeFacets, filteredFacets } from "./facets.ts";
+import { highlightSegment } from "./highlight.ts";
+import { groupResults } from "./grouping.ts";
+import { normalizeQuery } from "./cache.ts";
+import { ExplainContext, explainResult, fusedSignals } from "./explain.ts";
+import {
+  Ranking,
+  SearchFilters,
+  SearchProgress,
+  SearchRequest,
+  SearchResponse,
+  SearchResult,
+  SegmentCandidate,
+} from "./types.ts";
+
+// Candidates each retriever adds to a pool, and how many of the fused pool
+// the LLM reranks per prompt. Pages go on into further pools as deep as the
+// retrievers have candidates; the first bounds the cost of fetching a pool,
+// the second the ranking prompt and the cost of each page.
+const CANDIDATE_POOL_SIZE = Number(Deno.env.get("SEARCH_CANDIDATES") || 200);
+const RERANK_TOP_K = Number(Deno.env.get("SEARCH_RERANK_TOP_K") || 20);
+const RRF_K = 60;
+
+// onProgress receives interim results for streamed searches, see index.ts
+export async function runSearch(
+  supabase: SupabaseClient,
+  request: SearchRequest,
+  onProgress?: (progress: SearchProgress) => void
+): Promise<SearchResponse> {
+  const { query, videoId, filters, group } = request;
+  const parsed = parseQuery(query);
+  if (parsed.errors.length > 0) {
+    throw new QuerySyntaxException(parsed.errors);
+  }
+
+  const page = pageOptions(request.pageSize, request.minScore);
+  const key = cursorKey([normalizeQuery(query), videoId || null, filters || null, page.minScore]);
+  const position = decodeCursor(request.cursor, key);
+
+  const { text, filter } = compileQuery(parsed.ast, requestFilters(filters));
+  const terms = highlightTerms(parsed.ast);
+  const retrieval: RetrievalOptions = { videoId, limit: CANDIDATE_POOL_SIZE, filter };
+
+  const explain = Boolean(request.explain);
+  const response = text
+    ? await rankedSearch(supabase, text, retrieval, terms, position, page, explain, onProgress)
+    : await filterOnlySearch(supabase, filter!, retrieval, terms, position, page, explain);
+
+  const { next, ...rest } = response;
+  return {
+    ...rest,
+    nextCursor: next ? encodeCursor(next, key) : null,
+    groups: group ? await groupResults(supabase, rest.results) : undefined,
+  };
+}
+
+type PagedResponse = SearchResponse & { next: CursorPosition | null };
+
+// Reranks the fused candidates one batch at a time, starting at the cursor,
+// until the page is full or the candidates run out, going on into the next
+// pool when a pool's batches are done. A batch an earlier page already
+// ranked is read back from the ranking store, see rankings.ts
+async function rankedSearch(
+  supabase: SupabaseClient,
+  text: string,
+  retrieval: RetrievalOptions,
+  terms: HighlightTerm[],
+  position: CursorPosition,
+  page: PageOptions,
+  explain: boolean,
+  onProgress?: (progress: SearchProgress) => void
+): Promise<PagedResponse> {
+  let { pool, batch, skip } = position;
+  let candidates = await hybridCandidates(supabase, text, retrieval, pool);
+
+  if (pool === 0 && candidates.fused.length === 0) {
+    return { results: [], total: 0, next: null, message: "No indexed content found" };
+  }
+
+  // Facets count every candidate of the first pool and come with the first page only
+  const firstPage = pool === 0 && batch === 0 && skip === 0;
+  const facets = firstPage ? computeFacets(candidates.fused.map((entry) => entry.candidate)) : undefined;
+
+  // Streamed searches show the fused order while the reranker works
+  if (onProgress) {
+    const { fused, retrieverCount } = candidates;
+    const start = batch * RERANK_TOP_K + skip;
+    const preview = fusedRankings(fused.slice(start, start + page.pageSize), retrieverCount).map((rank) => {
+      const entry = fused[start + rank.index];
+      return toResult(entry.candidate, rank.relevance_score, rank.reason, entry.retrievers, terms);
+    });
+    onProgress({ stage: "candidates", results: preview, facets });
+  }
+
+  let scope = await rankingScope(supabase, text, retrieval, pool);
+  const results: SearchResult[] = [];
+  // Passing results of the current batch that are left for later pages
+  let unreturned = 0;
+  let message: string | undefined;
+
+  while (results.length < page.pageSize) {
+    const { fused, retrieverCount, offset } = candidates;
+    if (batch * RERANK_TOP_K >= fused.length) {
+      if (candidates.exhausted) break;
+      pool++;
+      batch = 0;
+      skip = 0;
+      candidates = await hybridCandidates(supabase, text, retrieval, pool);
+      scope = await rankingScope(supabase, text, retrieval, pool);
+      continue;
+    }
+
+    const batchPool = fused.slice(batch * RERANK_TOP_K, (batch + 1) * RERANK_TOP_K);
+    const segments = batchPool.map((entry) => entry.candidate);
+    let rankings = await loadRankings(supabase, scope, batch, batchPool);
+    let reranked = true;
+
+    // A failing reranker degrades to the fused order rather than failing the
+    // search; the fused order is stable, so it is not stored
+    if (!rankings) {
+      try {
+        rankings = await rerankCandidates(text, segments);
+        await saveRankings(supabase, scope, batch, batchPool, rankings);
+      } catch (error) {
+        console.error("Rerank error, using fused order:", error);
+        rankings = fusedRankings(batchPool, retrieverCount);
+        reranked = false;
+        message = "AI ranking is unavailable right now; showing hybrid retrieval order";
+      }
+    }
+
+    const passing = rankings.filter((rank) => rank.relevance_score >= page.minScore);
+    const taken = passing.slice(skip, skip + page.pageSize - results.length);
+    const context: ExplainContext = { filter: retrieval.filter || null, candidatePoolSize: offset + fused.length };
+    for (const rank of taken) {
+      const entry = batchPool[rank.index];
+      const result = toResult(segments[rank.index], rank.relevance_score, rank.reason, entry.retrievers, terms);
+      if (explain) {
+        const fusedRank = offset + batch * RERANK_TOP_K + rank.index + 1;
+        const signals = fusedSignals(entry, fusedRank, normalizedFusedScore(entry, retrieverCount));
+        const finalRank = position.offset + results.length + 1;
+        result.explanation = explainResult(context, finalRank, signals, batch, reranked ? rank : null);
+      }
+      results.push(result);
+    }
+
+    skip += taken.length;
+    unreturned = passing.length - skip;
+    if (skip >= passing.length) {
+      batch++;
+      skip = 0;
+    }
+    onProgress?.({ stage: "reranked", results: [...results] });
+  }
+
+  // Results pass minScore only once their batch is ranked, so past the
+  // batches ranked so far the count can only grow
+  const remaining = batch * RERANK_TOP_K < candidates.fused.length || !candidates.exhausted;
+  const rankedThrough = skip > 0 ? batch + 1 : batch;
+  return {
+    results,
+    total: position.offset + results.length + unreturned,
+    totalIsLowerBound: rankedThrough * RERANK_TOP_K < candidates.fused.length || !candidates.exhausted,
+    next: remaining ? { pool, batch, skip, offset: position.offset + results.length } : null,
+    facets,
+    message,
+  };
+}
+
+export interface HybridCandidates {
+  fused: FusedCandidate[];
+  // Retrievers that contributed, for normalizing fused scores
+  retrieverCount: number;
+  // Candidates in earlier pools, which come before this one in fused order
+  offset: number;
+  // No retriever has candidates past this pool
+  exhausted: boolean;
+}
+
+// Semantic and lexical candidates for the free text, merged by RRF. Pool n
+// holds what each retriever ranks from n * limit to (n + 1) * limit, less
+// the segments an earlier pool already held, so pools can be walked one
+// after another as deep as the retrievers go. The lexical retriever matches
+// lexicalText, when the text itself is not a query, e.g. a question.
+export async function hybridCandidates(
+  supabase: SupabaseClient,
+  text: string,
+  retrieval: RetrievalOptions,
+  pool = 0,
+  lexicalText = text
+): Promise<HybridCandidates> {
+  const depth = { ...retrieval, limit: (pool + 1) * retrieval.limit };
+
+  // Semantic retrieval needs the gateway to embed the query; when it is out
+  // of quota the lexical list carries the search on its own
+  const [semantic, lexical] = await Promise.all([
+    semanticCandidates(supabase, text, depth).catch((error) => {
+      if (!isQuotaError(error)) throw error;
+      console.log(`AI gateway unavailable (${error.status}), skipping semantic retrieval`);
+      return null;
+    }),
+    lexicalCandidates(supabase, lexicalText, depth),
+  ]);
+
+  const lists: Partial<Record<RetrieverName, SegmentCandidate[]>> = { lexical };
+  if (semantic) lists.semantic = semantic;
+
+  const skipped = pool * retrieval.limit;
+  const earlier = new Set(Object.values(lists).flatMap((list) => list.slice(0, skipped).map((candidate) => candidate.id)));
+  const deeper = Object.fromEntries(Object.entries(lists).map(([name, list]) => [name, list.slice(skipped)]));
+  const fused = reciprocalRankFusion(deeper, RRF_K, skipped).filter((entry) => !earlier.has(entry.candidate.id));
+  const exhausted = Object.values(lists).every((list) => list.length < depth.limit);
+  console.log(
+    `Retrieved ${semantic?.length ?? "no"} semantic and ${lexical.length} lexical candidates, ${fused.length} fused into pool ${pool}`
+  );
+
+  return { fused, retrieverCount: Object.keys(lists).length, offset: earlier.size, exhausted };
+}
+
+// A query made only of field terms has nothing to rank by, so matching
+// segments are listed in library order
+async function filterOnlySearch(
+  supabase: SupabaseClient,
+  filter: FilterNode,
+  retrieval: RetrievalOptions,
+  terms: HighlightTerm[],
+  position: CursorPosition,
+  page: PageOptions,
+  explain: boolean
+): Promise<PagedResponse> {
+  const firstPage = position.skip === 0;
+  const [{ segments, total }, facets] = await Promise.all([
+    filteredPage(supabase, filter, { ...retrieval, limit: page.pageSize }, position.skip),
+    firstPage ? filteredFacets(supabase, filter, retrieval) : undefined,
+  ]);
+  console.log(`Filter matched ${total} segments`);
+
+  if (segments.length === 0) {
+    return { results: [], total, next: null, message: firstPage ? "No segments match these filters" : undefined };
+  }
+
+  const context: ExplainContext = { filter, candidatePoolSize: total };
+  const end = position.skip + segments.length;
+  return {
+    results: segments.map((seg, index) => {
+      const result = toResult(seg, 1, "Matches all filters", ["filter"], terms);
+      if (explain) result.explanation = explainResult(context, position.skip + index + 1, {});
+      return result;
+    }),
+    total,
+    next: end < total ? { pool: 0, batch: 0, skip: end, offset: end } : null,
+    facets,
+  };
+}
+
+// The legacy object filter fields are folded into the compiled filter tree
+function requestFilters(filters?: SearchFilters): FilterNode[] {
+  if (!filters?.objectName) return [];
+  return [{ type: "object", name: filters.objectName, comparator: ">=", count: filters.minCount || 1 }];
+}
+
+export function toResult(
+  seg: SegmentCandidate,
+  relevanceScore: number,
+  reason: string,
+  retrievers: SearchResult["retrievers"],
+  terms: HighlightTerm[]
+): SearchResult {
+  return {
+    id: seg.id,
+    video_id: seg.video_id,
+    video_title: seg.video_title,
+    video_path: seg.video_path,
+    timestamp_seconds: seg.timestamp_seconds,
+    timestamp_display: seg.timestamp_display,
+    description: seg.description,
+    transcript: seg.transcript,
+    ocr_text: seg.ocr_text,
+    detected_objects: seg.detected_objects,
+    relevance_score: relevanceScore,
+    relevance_reason: reason,
+    retrievers,
+    highlights: highlightSegment(seg, terms),
+  };
+}
+
+function isQuotaError(error: unknown): error is AiGatewayError {
+  return error instanceof AiGatewayError && (error.status === 429 || error.status === 402);
+}
+
+// Fused score relative to the best score the contributing retrievers allow
+export function normalizedFusedScore(entry: FusedCandidate, retrieverCount: number): number {
+  return Math.round((entry.score / maxFusedScore(retrieverCount, RRF_K)) * 100) / 100;
+}
+
+function fusedRankings(pool: FusedCandidate[], retrieverCount: number): Ranking[] {
+  return pool.map((entry, index) => ({
+    index,
+    relevance_score: normalizedFusedScore(entry, retrieverCount),
+    reason: `Matched by ${entry.retrievers.join(" and ")} retrieval`,
+  }));
+}
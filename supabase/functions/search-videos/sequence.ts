@@ -0,0 +1,167 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { CompiledQuery, compileQuery, parseQuery, QuerySyntaxError, QuerySyntaxException } from "./query-language.ts";
+import { pageOptions } from "./pagination.ts";
+import { filteredCandidates, segmentSpans, SegmentSpan } from "./retrieval.ts";
+import { hybridCandidates, normalizedFusedScore } from "./search.ts";
+import { SegmentCandidate, SequenceMatch, SequenceRequest, SequenceResponse } from "./types.ts";
+
+// Sequence search: "a person enters, then a car appears within 30 seconds".
+// Each step is retrieved on its own (without the LLM reranker, which would
+// cost one call per step), then hits are chained per video so that every step
+// lands strictly after the previous one and within that step's gap. Semantic
+// retrieval returns the nearest segments to any query, so a step hit needs a
+// lexical match or a fused score of at least minScore to count.
+const STEP_CANDIDATES = Number(Deno.env.get("SEQUENCE_STEP_CANDIDATES") || 200);
+const DEFAULT_GAP_SECONDS = 30;
+const MAX_STEPS = 5;
+const MAX_MATCHES = 20;
+
+interface StepHit {
+  candidate: SegmentCandidate;
+  score: number;
+}
+
+interface Chain {
+  hits: StepHit[];
+  score: number;
+}
+
+export async function runSequenceSearch(
+  supabase: SupabaseClient,
+  request: SequenceRequest
+): Promise<SequenceResponse> {
+  const { steps, videoId } = request;
+  const { minScore } = pageOptions(undefined, request.minScore);
+
+  if (!Array.isArray(steps) || steps.length < 2 || steps.length > MAX_STEPS) {
+    throw new Error(`A sequence search needs between 2 and ${MAX_STEPS} steps`);
+  }
+  for (const step of steps) {
+    if (!step?.query?.trim()) {
+      throw new Error("Every sequence step needs a query");
+    }
+    if (step.maxGapSeconds !== undefined && !(step.maxGapSeconds > 0)) {
+      throw new Error("Sequence gaps must be a positive number of seconds");
+    }
+  }
+
+  // Parse every step first so all syntax errors come back together
+  const errors: QuerySyntaxError[] = [];
+  const compiled = steps.map((step, index) => {
+    const parsed = parseQuery(step.query.trim());
+    errors.push(...parsed.errors.map((error) => ({ ...error, step: index })));
+    return compileQuery(parsed.ast);
+  });
+  if (errors.length > 0) {
+    throw new QuerySyntaxException(errors);
+  }
+
+  const hits = await Promise.all(compiled.map((query) => stepHits(supabase, query, minScore, videoId)));
+  console.log(`Sequence step hits: ${hits.map((list) => list.length).join(", ")}`);
+
+  let chains: Chain[] = hits[0].map((hit) => ({ hits: [hit], score: hit.score }));
+  for (let index = 1; index < steps.length && chains.length > 0; index++) {
+    const maxGap = steps[index].maxGapSeconds ?? DEFAULT_GAP_SECONDS;
+    chains = extendChains(chains, hits[index], maxGap);
+  }
+
+  if (chains.length === 0) {
+    return { matches: [], message: "No sequence found within the given gaps" };
+  }
+
+  const spans = await segmentSpans(supabase, chains.map((chain) => chain.hits[chain.hits.length - 1].candidate.id));
+  return { matches: selectMatches(chains, spans, steps.map((step) => step.query.trim())) };
+}
+
+async function stepHits(
+  supabase: SupabaseClient,
+  query: CompiledQuery,
+  minScore: number,
+  videoId?: string
+): Promise<StepHit[]> {
+  const retrieval = { videoId, limit: STEP_CANDIDATES, filter: query.filter };
+
+  if (!query.text) {
+    const segments = await filteredCandidates(supabase, query.filter!, retrieval);
+    return segments.map((candidate) => ({ candidate, score: 1 }));
+  }
+
+  const { fused, retrieverCount } = await hybridCandidates(supabase, query.text, retrieval);
+  return fused
+    .map((entry) => ({ entry, score: normalizedFusedScore(entry, retrieverCount) }))
+    .filter(({ entry, score }) => entry.retrievers.includes("lexical") || score >= minScore)
+    .map(({ entry, score }) => ({ candidate: entry.candidate, score }));
+}
+
+// Appends each hit to the best-scoring chain it can follow: same video, later
+// than the chain's last segment and no more than maxGap seconds after it
+function extendChains(chains: Chain[], hits: StepHit[], maxGap: number): Chain[] {
+  const byVideo = new Map<string, Chain[]>();
+  for (const chain of chains) {
+    const videoId = chain.hits[0].candidate.video_id;
+    byVideo.set(videoId, [...(byVideo.get(videoId) || []), chain]);
+  }
+
+  const extended: Chain[] = [];
+  for (const hit of hits) {
+    const time = hit.candidate.timestamp_seconds;
+    let best: Chain | null = null;
+
+    for (const chain of byVideo.get(hit.candidate.video_id) || []) {
+      const last = chain.hits[chain.hits.length - 1].candidate.timestamp_seconds;
+      if (time <= last || time - last > maxGap) continue;
+      // Prefer the higher score, then the tighter span
+      if (
+        !best ||
+        chain.score > best.score ||
+        (chain.score === best.score && chain.hits[0].candidate.timestamp_seconds > best.hits[0].candidate.timestamp_seconds)
+      ) {
+        best = chain;
+      }
+    }
+
+    if (best) {
+      extended.push({ hits: [...best.hits, hit], score: best.score + hit.score });
+    }
+  }
+  return extended;
+}
+
+// Best chains first, skipping any that overlap a better span of the same video.
+// A match ends where the segment of its last step ends.
+function selectMatches(chains: Chain[], spans: Map<string, SegmentSpan>, queries: string[]): SequenceMatch[] {
+  const sorted = [...chains].sort((a, b) => b.score - a.score);
+  const matches: SequenceMatch[] = [];
+
+  for (const chain of sorted) {
+    if (matches.length >= MAX_MATCHES) break;
+
+    const first = chain.hits[0].candidate;
+    const last = chain.hits[chain.hits.length - 1].candidate;
+    const start = first.timestamp_seconds;
+    const end = spans.get(last.id)?.endSeconds ?? last.timestamp_seconds;
+    const overlaps = matches.some(
+      (match) => match.video_id === first.video_id && start < match.end_seconds && end > match.start_seconds
+    );
+    if (overlaps) continue;
+
+    matches.push({
+      video_id: first.video_id,
+      video_title: first.video_title,
+      video_path: first.video_path,
+      start_seconds: start,
+      end_seconds: end,
+      relevance_score: Math.round((chain.score / chain.hits.length) * 100) / 100,
+      steps: chain.hits.map((hit, index) => ({
+        segment_id: hit.candidate.id,
+        query: queries[index],
+        timestamp_seconds: hit.candidate.timestamp_seconds,
+        timestamp_display: hit.candidate.timestamp_display,
+        description: hit.candidate.description,
+        score: hit.score,
+      })),
+    });
+  }
+
+  return matches;
+}
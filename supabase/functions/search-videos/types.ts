@@ -0,0 +1,255 @@
+// Shapes shared by the search-videos modules. SearchResult mirrors the
+// SearchResult interface in src/lib/api.ts.
+import { FilterNode } from "./query-language.ts";
+
+export interface SearchFilters {
+  objectName?: string;
+  minCount?: number;
+}
+
+export interface SearchRequest {
+  query: string;
+  videoId?: string;
+  filters?: SearchFilters;
+  // Also return results clustered per video, see grouping.ts
+  group?: boolean;
+  // nextCursor of the previous page; omitted for the first page
+  cursor?: string;
+  pageSize?: number;
+  // Results scoring below this are left out (default 0.3)
+  minScore?: number;
+  // Attach a score breakdown to every result, see explain.ts
+  explain?: boolean;
+}
+
+// One sub-query of a sequence search. maxGapSeconds bounds the time from the
+// previous step's segment to this one's and is ignored on the first step.
+export interface SequenceStep {
+  query: string;
+  maxGapSeconds?: number;
+}
+
+// Query-by-frame: either an uploaded image or a moment of an analyzed video
+export interface VisualSearchRequest {
+  image?: string;
+  frame?: { videoId: string; timestampSeconds: number };
+  videoId?: string;
+  group?: boolean;
+  explain?: boolean;
+  cursor?: string;
+  pageSize?: number;
+  // Frames with a cosine similarity below this are left out (default 0.3)
+  minScore?: number;
+}
+
+export interface SequenceRequest {
+  steps: SequenceStep[];
+  videoId?: string;
+  // Step hits scoring below this are left out unless matched lexically
+  // (default 0.3)
+  minScore?: number;
+}
+
+// Exact words spoken, matched against the word-level transcript timings
+export interface PhraseRequest {
+  phrase: string;
+  videoId?: string;
+}
+
+// A segment returned by a retriever, before reranking
+export interface SegmentCandidate {
+  id: string;
+  video_id: string;
+  video_title: string;
+  video_path: string;
+  timestamp_seconds: number;
+  timestamp_display: string;
+  description: string | null;
+  transcript: string | null;
+  ocr_text: string | null;
+  detected_objects: Record<string, number>;
+  // Cosine similarity from semantic retrieval
+  similarity?: number;
+  // Normalized full-text rank from lexical retrieval
+  rank?: number;
+}
+
+export interface Ranking {
+  index: number;
+  relevance_score: number;
+  reason: string;
+}
+
+export type HighlightedField = "description" | "transcript" | "ocr_text";
+
+// A trimmed excerpt of one field; ranges are offsets into the snippet
+export interface FieldHighlight {
+  snippet: string;
+  ranges: { start: number; end: number }[];
+}
+
+export interface SearchResult {
+  id: string;
+  video_id: string;
+  video_title: string;
+  video_path: string;
+  timestamp_seconds: number;
+  timestamp_display: string;
+  description: string | null;
+  transcript: string | null;
+  ocr_text: string | null;
+  detected_objects: Record<string, number>;
+  relevance_score: number;
+  relevance_reason: string;
+  // Retrievers that returned this segment before reranking; "filter" marks
+  // results of a query made only of field terms, "visual" query-by-frame hits
+  retrievers: ("semantic" | "lexical" | "filter" | "visual")[];
+  // Only fields with at least one match are present
+  highlights: Partial<Record<HighlightedField, FieldHighlight>>;
+  // Only with explain: true
+  explanation?: ResultExplanation;
+}
+
+// What each retriever saw of a result; ranks are 1-based
+export interface RetrievalSignals {
+  semantic?: { rank: number; similarity: number };
+  lexical?: { rank: number; ts_rank: number };
+  fused?: { rank: number; score: number; normalized_score: number };
+  visual?: { rank: number; similarity: number };
+}
+
+export interface ResultExplanation {
+  // 1-based position across all pages of the search
+  final_rank: number;
+  signals: RetrievalSignals;
+  // Compiled field filter the candidates had to match, null for none
+  filter: FilterNode | null;
+  // Candidates the result was ranked among
+  candidate_pool_size: number;
+  // Reranker batch the result was scored in, null when no reranking applies
+  rerank_batch: number | null;
+  // This segment's entry of the reranker reply exactly as parsed, or null
+  // when the reranker failed and the fused order was used
+  reranker_output: unknown | null;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface VideoFacetCount extends FacetCount {
+  video_id: string;
+}
+
+export interface TimeBucketFacet {
+  label: string;
+  start_seconds: number;
+  // null for the open-ended last bucket
+  end_seconds: number | null;
+  count: number;
+}
+
+// Counts over the candidates the results were drawn from, not just the
+// returned results
+export interface SearchFacets {
+  objects: FacetCount[];
+  videos: VideoFacetCount[];
+  time: TimeBucketFacet[];
+}
+
+// Consecutive matching segments of one video
+export interface ResultRange {
+  start_seconds: number;
+  end_seconds: number;
+  start_display: string;
+  end_display: string;
+  // The segment after the range's last one, null at the end of the video
+  next_segment_id: string | null;
+  relevance_score: number;
+  results: SearchResult[];
+}
+
+export interface VideoGroup {
+  video_id: string;
+  video_title: string;
+  video_path: string;
+  relevance_score: number;
+  hit_count: number;
+  // In timestamp order
+  ranges: ResultRange[];
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  // Results that pass minScore across every page. A ranked search only
+  // knows which pass in the batches it has ranked so far; with candidates
+  // still to rank, totalIsLowerBound is set and the total can grow on
+  // later pages.
+  total?: number;
+  totalIsLowerBound?: boolean;
+  // Pass back as cursor for the next page; null on the last page
+  nextCursor?: string | null;
+  // Served from search_cache, see cache.ts; cachedAt is when it was computed
+  cached?: boolean;
+  cachedAt?: string;
+  groups?: VideoGroup[];
+  // Counts over the whole candidate set, on the first page only; see facets.ts
+  facets?: SearchFacets;
+  message?: string;
+}
+
+// Interim state of a streamed search, sent before the final response: first
+// the fused candidates in retrieval order, then the reranked results so far
+export type SearchProgress =
+  | { stage: "candidates"; results: SearchResult[]; facets?: SearchFacets }
+  | { stage: "reranked"; results: SearchResult[] };
+
+export interface SequenceStepMatch {
+  segment_id: string;
+  query: string;
+  timestamp_seconds: number;
+  timestamp_display: string;
+  description: string | null;
+  score: number;
+}
+
+// A time span of one video in which every step matched, in order
+export interface SequenceMatch {
+  video_id: string;
+  video_title: string;
+  video_path: string;
+  start_seconds: number;
+  end_seconds: number;
+  relevance_score: number;
+  steps: SequenceStepMatch[];
+}
+
+export interface SequenceResponse {
+  matches: SequenceMatch[];
+  message?: string;
+}
+
+// One occurrence of a phrase: the exact span from the first word's start to
+// the last word's end, with the words spoken around it
+export interface PhraseMatch {
+  video_id: string;
+  video_title: string;
+  video_path: string;
+  segment_id: string;
+  start_seconds: number;
+  end_seconds: number;
+  start_display: string;
+  end_display: string;
+  // The matched words as transcribed, with their original case and punctuation
+  spoken: string;
+  context_before: string;
+  context_after: string;
+}
+
+export interface PhraseResponse {
+  matches: PhraseMatch[];
+  // More occurrences exist than were returned
+  truncated: boolean;
+  message?: string;
+}
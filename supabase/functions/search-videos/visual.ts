@@ -0,0 +1,114 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { embedImages } from "../_shared/visual-embeddings.ts";
+import { computeFacets } from "./facets.ts";
+import { ExplainContext, explainResult } from "./explain.ts";
+import { groupResults } from "./grouping.ts";
+import { cursorKey, decodeCursor, encodeCursor, pageOptions } from "./pagination.ts";
+import { toCandidate } from "./retrieval.ts";
+import { toResult } from "./search.ts";
+import { SearchResponse, SegmentCandidate, VisualSearchRequest } from "./types.ts";
+
+// Query-by-frame: the query is an uploaded image, embedded with the same model
+// as the analyzed frames, or a moment of an analyzed video, whose nearest
+// sampled frame is reused as the query without embedding anything. Pages are
+// read from the nearest VISUAL_SEARCH_CANDIDATES frames, and a frame query
+// skips VISUAL_NEIGHBOURHOOD_SECONDS either side of its own frame.
+const MAX_IMAGE_DATA_URL_LENGTH = 8 * 1024 * 1024;
+const VISUAL_CANDIDATES = Number(Deno.env.get("VISUAL_SEARCH_CANDIDATES") || 200);
+const NEIGHBOURHOOD_SECONDS = Number(Deno.env.get("VISUAL_NEIGHBOURHOOD_SECONDS") || 30);
+
+export async function runVisualSearch(supabase: SupabaseClient, request: VisualSearchRequest): Promise<SearchResponse> {
+  const { image, frame, videoId, group, explain } = request;
+  const page = pageOptions(request.pageSize, request.minScore);
+  const key = cursorKey(["visual", image || null, frame || null, videoId || null, page.minScore]);
+  const position = decodeCursor(request.cursor, key);
+  let queryEmbedding: number[] | null = null;
+  let sourceSegmentId: string | null = null;
+
+  if (image) {
+    if (!/^data:image\/[a-z+.-]+;base64,/.test(image)) {
+      throw new Error("Query image must be a base64 image data URL");
+    }
+    if (image.length > MAX_IMAGE_DATA_URL_LENGTH) {
+      throw new Error("Query image is too large");
+    }
+    [queryEmbedding] = await embedImages([image]);
+  } else if (frame) {
+    sourceSegmentId = await nearestFrameSegment(supabase, frame.videoId, Number(frame.timestampSeconds));
+  } else {
+    throw new Error("Missing query image or frame");
+  }
+
+  const end = position.skip + page.pageSize;
+  const { data, error } = await supabase.rpc("match_video_frames", {
+    query_embedding: queryEmbedding,
+    source_segment_id: sourceSegmentId,
+    // One more than the page, to tell whether another page follows
+    match_count: Math.min(end + 1, VISUAL_CANDIDATES),
+    filter_video_id: videoId || null,
+    filter_status: "ready",
+    neighbourhood_seconds: sourceSegmentId ? NEIGHBOURHOOD_SECONDS : 0,
+  });
+
+  if (error) {
+    console.error("Visual retrieval error:", error);
+    throw error;
+  }
+
+  // Frames come back nearest first, so those above minScore are a prefix
+  const passing: SegmentCandidate[] = (data || [])
+    .map(toCandidate)
+    .filter((candidate: SegmentCandidate) => (candidate.similarity ?? 0) >= page.minScore);
+  if (passing.length === 0) {
+    return { results: [], total: 0, nextCursor: null, message: "No visually similar frames found" };
+  }
+
+  const candidates = passing.slice(position.skip, end);
+  const context: ExplainContext = { filter: null, candidatePoolSize: passing.length };
+  const results = candidates.map((candidate, index) => {
+    const similarity = Math.round((candidate.similarity ?? 0) * 100) / 100;
+    const result = toResult(candidate, similarity, `Visually similar frame (${similarity.toFixed(2)} cosine similarity)`, ["visual"], []);
+    if (explain) {
+      const rank = position.skip + index + 1;
+      result.explanation = explainResult(context, rank, { visual: { rank, similarity: candidate.similarity ?? 0 } });
+    }
+    return result;
+  });
+
+  const more = passing.length > end && end < VISUAL_CANDIDATES;
+  return {
+    results,
+    // Frames are fetched one past the page, so only that far is counted
+    total: passing.length,
+    totalIsLowerBound: passing.length > end,
+    nextCursor: more ? encodeCursor({ pool: 0, batch: 0, skip: end, offset: end }, key) : null,
+    groups: group ? await groupResults(supabase, results) : undefined,
+    // Over every frame that passed, on the first page only
+    facets: position.skip === 0 ? computeFacets(passing) : undefined,
+  };
+}
+
+// The analyzed segment whose frame is closest in time to the given moment
+async function nearestFrameSegment(supabase: SupabaseClient, videoId: string, timestampSeconds: number): Promise<string> {
+  const { data, error } = await supabase
+    .from("video_segments")
+    .select("id, timestamp_seconds")
+    .eq("video_id", videoId)
+    .not("visual_embedding", "is", null);
+
+  if (error) {
+    console.error("Frame lookup error:", error);
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    throw new Error("This video has no frame embeddings; re-analyze it with visual search configured");
+  }
+
+  const nearest = data.reduce((best, segment) =>
+    Math.abs(Number(segment.timestamp_seconds) - timestampSeconds) < Math.abs(Number(best.timestamp_seconds) - timestampSeconds)
+      ? segment
+      : best
+  );
+  return nearest.id;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { formatAnswer, parseAnswer, splitAnswer, visibleLength } from "./answer.ts";
+
+const TRAILER = '{"citations": [{"segment": "S4", "quote": "travel budget"}]}';
+
+describe("visibleLength", () => {
+  it("shows prose with no trailer in sight", () => {
+    expect(visibleLength("The budget grows [1].")).toBe(21);
+  });
+
+  it("stops at the trailer", () => {
+    const prose = "The budget grows [1].\n\n";
+    expect(visibleLength(prose + TRAILER)).toBe(prose.length);
+    expect(visibleLength(prose + "```json\n" + TRAILER + "\n```")).toBe(prose.length);
+  });
+
+  it.each([
+    ["The budget grows [1].\n\n{", 23],
+    ['The budget grows [1].\n\n{"cit', 23],
+    ["The budget grows [1].\n\n``", 23],
+  ])("holds back what may open the trailer in %j", (text, expected) => {
+    expect(visibleLength(text)).toBe(expected);
+  });
+
+  it("shows a brace well before the end", () => {
+    const text = `Set {a, b} aside.${" and more".repeat(5)}`;
+    expect(visibleLength(text)).toBe(text.length);
+  });
+});
+
+describe("splitAnswer", () => {
+  it("splits the prose from the trailer", () => {
+    expect(splitAnswer(`The budget grows [1].\n\n${TRAILER}`)).toEqual({
+      answer: "The budget grows [1].",
+      trailer: { citations: [{ segment: "S4", quote: "travel budget" }] },
+    });
+  });
+
+  it("reads a fenced trailer", () => {
+    expect(splitAnswer("Yes [1].\n```json\n" + TRAILER + "\n```\n").trailer).toEqual(JSON.parse(TRAILER));
+  });
+
+  it("returns no trailer when there is none", () => {
+    expect(splitAnswer("  No citations here.  ")).toEqual({ answer: "No citations here.", trailer: null });
+  });
+
+  it("ends the answer at a malformed trailer", () => {
+    expect(splitAnswer('Yes [1].\n{"citations": [{"segment": "S4"')).toEqual({ answer: "Yes [1].", trailer: null });
+  });
+});
+
+describe("parseAnswer", () => {
+  it("reads each citation as a claim in marker order", () => {
+    const content = 'A [1], B [2].\n{"citations": [{"segment": "S4", "quote": "a"}, {"segment": "S9", "quote": "EXIT"}]}';
+    expect(parseAnswer(content)).toEqual({
+      answer: "A [1], B [2].",
+      claims: [
+        { segment: "S4", quote: "a" },
+        { segment: "S9", quote: "EXIT" },
+      ],
+    });
+  });
+
+  it("turns missing fields into empty strings", () => {
+    expect(parseAnswer('A [1].\n{"citations": [{"segment": 4}, null]}').claims).toEqual([
+      { segment: "4", quote: "" },
+      { segment: "", quote: "" },
+    ]);
+  });
+
+  it.each(['A.\n{"citations": "S4"}', "A.\n{\"citations\": [", "A."])("has no claims for %j", (content) => {
+    expect(parseAnswer(content)).toEqual({ answer: "A.", claims: [] });
+  });
+});
+
+describe("formatAnswer", () => {
+  it("replays a saved turn in the shape parseAnswer reads", () => {
+    const claims = [{ segment: "S4", quote: "travel budget" }];
+    const content = formatAnswer("The budget grows [1].", claims);
+
+    expect(parseAnswer(content)).toEqual({ answer: "The budget grows [1].", claims });
+  });
+});
@@ -0,0 +1,77 @@
+// The model answers in prose with numbered citation markers and ends with a
+// JSON trailer listing, in marker order, the segment each citation comes from
+// and a quote from it as evidence:
+//
+//   The speaker introduces the budget [1] ...
+//
+//   {"citations": [{"segment": "S4", "quote": "this year's travel budget"}]}
+//
+// Prose first means the answer can be streamed as it is written; the trailer
+// is held back from the stream and parsed once the completion ends. The
+// citations are checked against the segments in citations.ts. Library
+// answers take the same form, with labels across the library, see library.ts.
+export const ANSWER_FORMAT = `Write the answer as plain text. Back each statement about the video with a citation marker such as [1] right after it, numbering citations from 1 in the order they first appear. After the answer, on a line of its own, add a JSON object listing the citations in that order. Each names the label of the segment it comes from (like S4) and quotes a few words copied exactly from that segment's description, spoken words or on-screen text:
+{"citations": [{"segment": "S4", "quote": "this year's travel budget"}, {"segment": "S9", "quote": "EXIT"}]}`;
+
+const TRAILER = /(?:```(?:json)?\s*)?\{\s*"citations"[\s\S]*$/;
+// Longer than any opening of the trailer, fence included
+const HOLD_BACK = 40;
+
+// A citation as the model wrote it, before it is checked
+export interface CitationClaim {
+  segment: string;
+  quote: string;
+}
+
+export interface ParsedAnswer {
+  answer: string;
+  // Citation i backs the marker [i + 1] in the answer
+  claims: CitationClaim[];
+}
+
+// How much of the text so far can be shown: everything before the trailer,
+// less a short tail that might turn out to be its start
+export function visibleLength(text: string): number {
+  const trailer = text.match(TRAILER);
+  if (trailer) return trailer.index!;
+
+  const tailStart = Math.max(0, text.length - HOLD_BACK);
+  // A fence opens at the first of its backticks
+  let tick = text.lastIndexOf("`");
+  while (tick > 0 && text[tick - 1] === "`") tick--;
+  const opening = Math.max(text.lastIndexOf("{"), tick);
+  return opening >= tailStart ? opening : text.length;
+}
+
+// The prose of a finished answer and its parsed trailer, null when the
+// trailer is missing or malformed
+export function splitAnswer(content: string): { answer: string; trailer: Record<string, unknown> | null } {
+  const match = content.match(TRAILER);
+  if (!match) {
+    return { answer: content.trim(), trailer: null };
+  }
+
+  let trailer: Record<string, unknown> | null = null;
+  try {
+    const json = match[0].replace(/^```(?:json)?/, "").replace(/```\s*$/, "");
+    trailer = JSON.parse(json);
+  } catch {
+    // A malformed trailer still ends the answer
+  }
+
+  return { answer: content.slice(0, match.index).trim(), trailer };
+}
+
+export function parseAnswer(content: string): ParsedAnswer {
+  const { answer, trailer } = splitAnswer(content);
+  const entries = Array.isArray(trailer?.citations) ? trailer.citations : [];
+  return {
+    answer,
+    claims: entries.map((entry) => ({ segment: String(entry?.segment ?? ""), quote: String(entry?.quote ?? "") })),
+  };
+}
+
+// A saved turn in the shape the model is asked to answer in, for replaying
+export function formatAnswer(answer: string, claims: CitationClaim[]): string {
+  return `${answer}\n\n${JSON.stringify({ citations: claims })}`;
+}
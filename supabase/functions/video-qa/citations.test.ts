@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { CitationClaim, parseAnswer } from "./answer.ts";
+import { verifyCitations } from "./citations.ts";
+import { LabelledSegment } from "./context.ts";
+
+const SEGMENTS: LabelledSegment[] = [
+  {
+    id: "seg-1",
+    label: "S1",
+    timestamp_seconds: 0,
+    timestamp_display: "00:00:00",
+    description: "A speaker stands by a slide",
+    transcript: "This year's travel budget doubles.",
+    ocr_text: null,
+  },
+  {
+    id: "seg-2",
+    label: "S2",
+    timestamp_seconds: 10,
+    timestamp_display: "00:00:10",
+    description: "A green sign over a door",
+    transcript: null,
+    ocr_text: "EXIT",
+  },
+];
+
+function verify(answer: string, claims: CitationClaim[]) {
+  return verifyCitations({ answer, claims }, SEGMENTS);
+}
+
+describe("verifyCitations", () => {
+  it("verifies a quote found in the cited segment and locates it", () => {
+    const { answer, citations, relevantTimestamps } = verify("The budget doubles [1].", [
+      { segment: "S1", quote: "this years travel-budget" },
+    ]);
+
+    expect(answer).toBe("The budget doubles [1].");
+    expect(citations).toEqual([
+      {
+        number: 1,
+        segment_id: "seg-1",
+        timestamp_display: "00:00:00",
+        timestamp_seconds: 0,
+        quote: "this years travel-budget",
+        verified: true,
+        evidence: { field: "transcript", start: 0, end: 25 },
+      },
+    ]);
+    expect(relevantTimestamps).toEqual(["00:00:00"]);
+  });
+
+  it.each([
+    ["EXIT", "ocr_text", 0, 4],
+    ["green sign", "description", 2, 12],
+  ])("looks for %j in every text field", (quote, field, start, end) => {
+    const [citation] = verify("A sign [1].", [{ segment: "s2", quote }]).citations;
+    expect(citation.evidence).toEqual({ field, start, end });
+  });
+
+  it("flags a quote the segment does not contain, keeping its link", () => {
+    const { citations, relevantTimestamps } = verify("A door [1].", [{ segment: "S2", quote: "ENTRANCE" }]);
+
+    expect(citations[0]).toMatchObject({ segment_id: "seg-2", verified: false, evidence: null });
+    expect(relevantTimestamps).toEqual([]);
+  });
+
+  it("drops a citation of a segment that was not in the prompt and renumbers the rest", () => {
+    const { answer, citations } = verify("Budget [1], made up [2], exit [3].", [
+      { segment: "S1", quote: "travel budget" },
+      { segment: "S7", quote: "anything" },
+      { segment: "S2", quote: "EXIT" },
+    ]);
+
+    expect(answer).toBe("Budget [1], made up, exit [2].");
+    expect(citations.map((citation) => [citation.number, citation.segment_id])).toEqual([
+      [1, "seg-1"],
+      [2, "seg-2"],
+    ]);
+  });
+
+  it("rewrites runs of markers as a whole", () => {
+    const claims = [
+      { segment: "S9", quote: "" },
+      { segment: "S1", quote: "budget" },
+      { segment: "S2", quote: "EXIT" },
+    ];
+    expect(verify("Both [1][2][3] and [1, 3].", claims).answer).toBe("Both [1][2] and [2].");
+  });
+
+  it("strips markers no citation backs", () => {
+    expect(verify("Budget [1], see [4] and [2, 1].", [{ segment: "S1", quote: "budget" }]).answer).toBe(
+      "Budget [1], see and [1]."
+    );
+  });
+
+  it("strips every marker of an answer without a trailer", () => {
+    const { answer, citations, relevantTimestamps } = verifyCitations(
+      parseAnswer("The budget doubles [1], by the exit [2][3]."),
+      SEGMENTS
+    );
+
+    expect(answer).toBe("The budget doubles, by the exit.");
+    expect(citations).toEqual([]);
+    expect(relevantTimestamps).toEqual([]);
+  });
+});
@@ -0,0 +1,111 @@
+import { HighlightedField } from "../search-videos/types.ts";
+import { ParsedAnswer } from "./answer.ts";
+import { LabelledSegment } from "./context.ts";
+
+// Citations are checked against the segments the answer was written from. A
+// citation of a segment that was not in the prompt is dropped along with its
+// markers; one whose quote cannot be found in the segment's text keeps its
+// link to the segment but is flagged unverified. Markers no citation backs,
+// as when the trailer is missing or cut short, are dropped too. Markers are
+// renumbered to the citations that are left.
+const EVIDENCE_FIELDS: HighlightedField[] = ["transcript", "ocr_text", "description"];
+
+// Where a quote was found: offsets into one text field of the segment
+export interface Evidence {
+  field: HighlightedField;
+  start: number;
+  end: number;
+}
+
+export interface SegmentCitation {
+  // The marker [number] in the answer
+  number: number;
+  segment_id: string;
+  timestamp_display: string;
+  timestamp_seconds: number;
+  quote: string;
+  verified: boolean;
+  // Null when unverified
+  evidence: Evidence | null;
+}
+
+export interface VerifiedAnswer {
+  answer: string;
+  citations: SegmentCitation[];
+  // Timestamps of the segments with verified citations, in citation order
+  relevantTimestamps: string[];
+}
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// Words with apostrophes dropped, so "year's" and "years" match
+function tokenize(text: string): Token[] {
+  return [...text.matchAll(/[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu)].map((match) => ({
+    word: match[0].replace(/['’]/g, "").toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+// The first place the quote's words appear in a row, ignoring case,
+// punctuation and spacing
+function findEvidence(quote: string, segment: LabelledSegment): Evidence | null {
+  const words = tokenize(quote).map((token) => token.word);
+  if (words.length === 0) return null;
+
+  for (const field of EVIDENCE_FIELDS) {
+    const tokens = tokenize(segment[field] || "");
+    for (let start = 0; start + words.length <= tokens.length; start++) {
+      if (words.every((word, offset) => tokens[start + offset].word === word)) {
+        return { field, start: tokens[start].start, end: tokens[start + words.length - 1].end };
+      }
+    }
+  }
+  return null;
+}
+
+export function verifyCitations(parsed: ParsedAnswer, segments: LabelledSegment[]): VerifiedAnswer {
+  const byLabel = new Map(segments.map((segment) => [segment.label.toUpperCase(), segment]));
+  const citations: SegmentCitation[] = [];
+  // Marker numbers as written to the numbers they end up with
+  const numbers = new Map<number, number>();
+
+  parsed.claims.forEach((claim, index) => {
+    const segment = byLabel.get(claim.segment.trim().toUpperCase());
+    if (!segment) return;
+
+    const evidence = findEvidence(claim.quote, segment);
+    numbers.set(index + 1, citations.length + 1);
+    citations.push({
+      number: citations.length + 1,
+      segment_id: segment.id,
+      timestamp_display: segment.timestamp_display,
+      timestamp_seconds: Number(segment.timestamp_seconds),
+      quote: claim.quote,
+      verified: evidence !== null,
+      evidence,
+    });
+  });
+
+  // A run of markers like [2][3] or [2, 3] is rewritten as a whole
+  const answer = parsed.answer.replace(/(\s*)((?:\[\d+(?:\s*,\s*\d+)*\])+)/g, (_marker, space: string, run: string) => {
+    const written = (run.match(/\d+/g) || []).map(Number);
+    const kept = written.filter((number) => numbers.has(number)).map((number) => numbers.get(number));
+    return kept.length > 0 ? `${space}${kept.map((number) => `[${number}]`).join("")}` : "";
+  });
+
+  const unverified = citations.filter((citation) => !citation.verified).length;
+  const dropped = parsed.claims.length - citations.length;
+  if (unverified > 0 || dropped > 0) {
+    console.log(`Citations: ${citations.length - unverified} verified, ${unverified} unverified, ${dropped} dropped`);
+  }
+
+  const relevantTimestamps = [
+    ...new Set(citations.filter((citation) => citation.verified).map((citation) => citation.timestamp_display)),
+  ];
+  return { answer, citations, relevantTimestamps };
+}
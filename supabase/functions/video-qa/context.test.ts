@@ -0,0 +1,121 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { hybridCandidates } from "../search-videos/search.ts";
+import { ContextSegment, estimateTokens, questionContext, segmentLine } from "./context.ts";
+
+// Retrieval is search's business; these tests only choose what it returns
+vi.mock("../search-videos/search.ts", () => ({ hybridCandidates: vi.fn() }));
+
+function segment(index: number): ContextSegment {
+  return {
+    id: `seg-${index}`,
+    timestamp_seconds: index * 10,
+    timestamp_display: `00:00:${String(index * 10).padStart(2, "0")}`,
+    description: `Slide ${index}`,
+    transcript: null,
+    ocr_text: null,
+  };
+}
+
+const SEGMENTS = Array.from({ length: 10 }, (_, index) => segment(index));
+// Each line of SEGMENTS, labelled, costs this many tokens
+const LINE_COST = estimateTokens(segmentLine(SEGMENTS[0], "S1"));
+
+function segmentsClient(segments: ContextSegment[], error: Error | null = null): SupabaseClient {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    order: () => Promise.resolve({ data: error ? null : segments, error }),
+  };
+  return { from: () => query } as unknown as SupabaseClient;
+}
+
+function retrieves(ids: string[]) {
+  vi.mocked(hybridCandidates).mockResolvedValue({
+    fused: ids.map((id) => ({ candidate: { id }, score: 0, ranks: {}, retrievers: ["lexical"] })),
+    retrieverCount: 1,
+  } as unknown as Awaited<ReturnType<typeof hybridCandidates>>);
+}
+
+beforeEach(() => {
+  vi.mocked(hybridCandidates).mockReset();
+});
+
+describe("segmentLine", () => {
+  it("writes the label, timestamp and every field the segment has", () => {
+    const line = segmentLine({ ...segment(1), transcript: "hello", ocr_text: "EXIT" }, "S2");
+    expect(line).toBe('S2 [00:00:10] Slide 1 Spoken: "hello" On-screen text: "EXIT"');
+  });
+
+  it("leaves out the label when there is none", () => {
+    expect(segmentLine(segment(1))).toMatch(/^\[00:00:10\] Slide 1/);
+  });
+});
+
+describe("estimateTokens", () => {
+  it("counts about four characters per token", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abcd")).toBe(1);
+    expect(estimateTokens("abcde")).toBe(2);
+  });
+});
+
+describe("questionContext", () => {
+  it("sends a video that fits the budget whole, labelled by position", async () => {
+    const context = await questionContext(segmentsClient(SEGMENTS), "video", "budget?", 10 * LINE_COST);
+
+    expect(hybridCandidates).not.toHaveBeenCalled();
+    expect(context.retrieved).toBe(false);
+    expect(context.segmentIds).toEqual(SEGMENTS.map((seg) => seg.id));
+    expect(context.segments.map((seg) => seg.label)).toEqual(SEGMENTS.map((_, index) => `S${index + 1}`));
+    expect(context.text).not.toContain("[...]");
+  });
+
+  it("narrows a longer video to the hits and their neighbours, in time order", async () => {
+    retrieves(["seg-6", "seg-2"]);
+    const context = await questionContext(segmentsClient(SEGMENTS), "video", "budget?", 6 * LINE_COST);
+
+    expect(context.retrieved).toBe(true);
+    expect(context.segmentIds).toEqual(["seg-1", "seg-2", "seg-3", "seg-5", "seg-6", "seg-7"]);
+    expect(context.text.split("\n").map((line) => line.split(" ")[0])).toEqual(["[...]", "S2", "S3", "S4", "[...]", "S6", "S7", "S8", "[...]"]);
+    expect(context.labels.get("seg-9")).toBe("S10");
+  });
+
+  it("retrieves on the question's meaning and on any of its keywords", async () => {
+    retrieves([]);
+    await questionContext(segmentsClient(SEGMENTS), "video", "What did they decide about the budget?", 6 * LINE_COST);
+
+    expect(hybridCandidates).toHaveBeenCalledWith(
+      expect.anything(),
+      "What did they decide about the budget?",
+      { videoId: "video", limit: 8 },
+      0,
+      "decide OR budget"
+    );
+  });
+
+  it("adds segments in relevance order until the budget is spent", async () => {
+    retrieves(["seg-6", "seg-2"]);
+    const context = await questionContext(segmentsClient(SEGMENTS), "video", "budget?", 4 * LINE_COST);
+
+    expect(context.segmentIds).toEqual(["seg-2", "seg-5", "seg-6", "seg-7"]);
+  });
+
+  it("ignores hits outside the video and falls back to its start without any", async () => {
+    retrieves(["elsewhere"]);
+    const context = await questionContext(segmentsClient(SEGMENTS), "video", "budget?", 3 * LINE_COST);
+
+    expect(context.segmentIds).toEqual(["seg-0", "seg-1", "seg-2"]);
+    expect(context.text.endsWith("[...]")).toBe(true);
+  });
+
+  it("says so when the video has no segments", async () => {
+    const context = await questionContext(segmentsClient([]), "video", "budget?");
+    expect(context).toMatchObject({ text: "No segments available", segmentIds: [], segments: [], retrieved: false });
+  });
+
+  it("throws when the segments cannot be read", async () => {
+    const error = new Error("down");
+    await expect(questionContext(segmentsClient([], error), "video", "budget?")).rejects.toBe(error);
+  });
+});
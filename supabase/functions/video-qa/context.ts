@@ -0,0 +1,133 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { keywordQuery } from "../search-videos/lexical.ts";
+import { hybridCandidates } from "../search-videos/search.ts";
+
+// The analyzed segments a question is answered from. A video whose segments
+// all fit QA_CONTEXT_TOKEN_BUDGET is sent whole. Longer videos are narrowed to
+// the QA_TOP_K segments most relevant to the question (the same hybrid
+// retrieval search uses), each with QA_NEIGHBOUR_SEGMENTS segments on either
+// side so the model sees what led up to a moment and what followed. Segments
+// are added in relevance order until the budget is spent.
+//
+// Each segment is labelled by its position in the video (S1, S2, ...) for the
+// model to cite; labels stay the same from one question to the next.
+export const CONTEXT_TOKEN_BUDGET = Number(Deno.env.get("QA_CONTEXT_TOKEN_BUDGET") || 6000);
+const TOP_K = Number(Deno.env.get("QA_TOP_K") || 8);
+const NEIGHBOUR_SEGMENTS = Number(Deno.env.get("QA_NEIGHBOUR_SEGMENTS") || 1);
+
+export interface ContextSegment {
+  id: string;
+  timestamp_seconds: number;
+  timestamp_display: string;
+  description: string | null;
+  transcript: string | null;
+  ocr_text: string | null;
+}
+
+export interface LabelledSegment extends ContextSegment {
+  label: string;
+}
+
+export interface QuestionContext {
+  // Prompt text: one line per segment in time order, with a marker where
+  // segments were left out
+  text: string;
+  segmentIds: string[];
+  // The segments in the prompt, which answers may cite
+  segments: LabelledSegment[];
+  // Labels of every segment of the video by id, for replaying earlier answers
+  labels: Map<string, string>;
+  // Whether the video had to be narrowed down to fit the budget
+  retrieved: boolean;
+}
+
+// Rough token count for budgeting: about four characters per token for
+// English text, which is close enough to decide what to drop
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function segmentLine(seg: ContextSegment, label?: string): string {
+  return `${label ? `${label} ` : ""}[${seg.timestamp_display}] ${seg.description || ""} ${seg.transcript ? `Spoken: "${seg.transcript}"` : ""} ${seg.ocr_text ? `On-screen text: "${seg.ocr_text}"` : ""}`;
+}
+
+export async function questionContext(
+  supabase: SupabaseClient,
+  videoId: string,
+  question: string,
+  budget = CONTEXT_TOKEN_BUDGET
+): Promise<QuestionContext> {
+  const { data, error } = await supabase
+    .from("video_segments")
+    .select("id, timestamp_seconds, timestamp_display, description, transcript, ocr_text")
+    .eq("video_id", videoId)
+    .order("timestamp_seconds", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  const segments: LabelledSegment[] = (data || []).map((seg, index) => ({ ...seg, label: `S${index + 1}` }));
+  const labels = new Map(segments.map((seg) => [seg.id, seg.label]));
+  const costs = segments.map((seg) => estimateTokens(segmentLine(seg, seg.label)));
+  const total = costs.reduce((sum, cost) => sum + cost, 0);
+
+  if (total <= budget) {
+    return { ...render(segments, segments.map((_, index) => index)), labels, retrieved: false };
+  }
+
+  const positions = new Map(segments.map((seg, index) => [seg.id, index]));
+  // Questions are matched on any of their keywords, not on every word
+  const { fused } = await hybridCandidates(supabase, question, { videoId, limit: TOP_K }, 0, keywordQuery(question));
+  const hits = fused
+    .map((entry) => positions.get(entry.candidate.id))
+    .filter((index): index is number => index !== undefined)
+    .slice(0, TOP_K);
+
+  // Nothing relevant found: the start of the video is the best guess
+  const order = hits.length > 0 ? hits.flatMap(neighbourhood) : segments.map((_, index) => index);
+
+  const chosen = new Set<number>();
+  let used = 0;
+  for (const index of order) {
+    if (index < 0 || index >= segments.length || chosen.has(index)) continue;
+    if (used + costs[index] > budget) continue;
+    chosen.add(index);
+    used += costs[index];
+  }
+
+  console.log(`Q&A context: ${chosen.size} of ${segments.length} segments from ${hits.length} hits (${used} of ${budget} tokens)`);
+  return { ...render(segments, [...chosen].sort((a, b) => a - b)), labels, retrieved: true };
+}
+
+// A hit followed by its neighbours, nearest first
+function neighbourhood(index: number): number[] {
+  const indices = [index];
+  for (let distance = 1; distance <= NEIGHBOUR_SEGMENTS; distance++) {
+    indices.push(index - distance, index + distance);
+  }
+  return indices;
+}
+
+function render(
+  segments: LabelledSegment[],
+  indices: number[]
+): Omit<QuestionContext, "labels" | "retrieved"> {
+  if (indices.length === 0) {
+    return { text: "No segments available", segmentIds: [], segments: [] };
+  }
+
+  const lines: string[] = [];
+  indices.forEach((index, position) => {
+    if (index > 0 && (position === 0 || indices[position - 1] !== index - 1)) {
+      lines.push("[...]");
+    }
+    lines.push(segmentLine(segments[index], segments[index].label));
+  });
+  if (indices[indices.length - 1] < segments.length - 1) {
+    lines.push("[...]");
+  }
+
+  const chosen = indices.map((index) => segments[index]);
+  return { text: lines.join("\n"), segmentIds: chosen.map((seg) => seg.id), segments: chosen };
+}
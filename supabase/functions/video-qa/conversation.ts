@@ -0,0 +1,155 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ChatMessage } from "../_shared/ai-gateway.ts";
+import { formatAnswer } from "./answer.ts";
+import { SegmentCitation, VerifiedAnswer } from "./citations.ts";
+import { estimateTokens } from "./context.ts";
+
+// Earlier turns of a thread, replayed into the prompt so follow-ups like "what
+// happens after that?" keep their context. Only the most recent turns that
+// fit QA_HISTORY_TOKEN_BUDGET are sent; older ones stay in the thread but the
+// model no longer sees them.
+const HISTORY_TOKEN_BUDGET = Number(Deno.env.get("QA_HISTORY_TOKEN_BUDGET") || 4000);
+const MAX_TITLE_LENGTH = 80;
+
+export interface ConversationTurn {
+  question: string;
+  answer: string;
+  relevant_timestamps: string[] | null;
+  citations: SegmentCitation[] | null;
+}
+
+// Starts a thread titled after its first question
+async function startConversation(supabase: SupabaseClient, videoId: string, question: string): Promise<string> {
+  const title = question.length > MAX_TITLE_LENGTH ? `${question.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : question;
+
+  const { data, error } = await supabase
+    .from("qa_conversations")
+    .insert({ video_id: videoId, title })
+    .select("id")
+    .single();
+
+  if (error || !data) {
+    console.error("Conversation insert error:", error);
+    throw new Error("Failed to start conversation");
+  }
+
+  return data.id;
+}
+
+// The turns of a thread in the order they were asked. The thread must belong
+// to the video being asked about.
+export async function conversationTurns(
+  supabase: SupabaseClient,
+  conversationId: string,
+  videoId: string
+): Promise<ConversationTurn[]> {
+  const { data: conversation, error: conversationError } = await supabase
+    .from("qa_conversations")
+    .select("id")
+    .eq("id", conversationId)
+    .eq("video_id", videoId)
+    .maybeSingle();
+
+  if (conversationError) {
+    throw conversationError;
+  }
+  if (!conversation) {
+    throw new ConversationNotFoundError();
+  }
+
+  const { data, error } = await supabase
+    .from("video_qa_history")
+    .select("question, answer, relevant_timestamps, citations")
+    .eq("conversation_id", conversationId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+// The newest turns that fit the budget as alternating user and assistant
+// messages, oldest first. Answers are replayed in the format the model is
+// asked to reply in, so it keeps to that format, with their citations under
+// the segment labels of the current prompt.
+export function replayTurns(
+  turns: ConversationTurn[],
+  labels: Map<string, string>,
+  budget = HISTORY_TOKEN_BUDGET
+): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  let used = 0;
+  let kept = 0;
+
+  for (let index = turns.length - 1; index >= 0; index--) {
+    const { question, answer, citations } = turns[index];
+    const claims = (citations || [])
+      .filter((citation) => labels.has(citation.segment_id))
+      .map((citation) => ({ segment: labels.get(citation.segment_id)!, quote: citation.quote }));
+    const reply = formatAnswer(answer, claims);
+    const cost = estimateTokens(question) + estimateTokens(reply);
+    if (used + cost > budget) break;
+    used += cost;
+    kept++;
+    messages.unshift({ role: "user", content: question }, { role: "assistant", content: reply });
+  }
+
+  if (kept < turns.length) {
+    console.log(`Replaying ${kept} of ${turns.length} earlier turns (${used} of ${budget} tokens)`);
+  }
+
+  return messages;
+}
+
+// Saves an answered question, with its checked citations and the segments it
+// was answered from, to its thread, starting one for a first question, and
+// returns the thread's id
+export async function saveTurn(
+  supabase: SupabaseClient,
+  videoId: string,
+  conversationId: string | undefined,
+  question: string,
+  answer: VerifiedAnswer,
+  contextSegmentIds: string[]
+): Promise<string> {
+  const threadId = conversationId || await startConversation(supabase, videoId, question);
+
+  const { error: insertError } = await supabase
+    .from("video_qa_history")
+    .insert({
+      video_id: videoId,
+      conversation_id: threadId,
+      question,
+      answer: answer.answer,
+      relevant_timestamps: answer.relevantTimestamps,
+      citations: answer.citations,
+      context_segment_ids: contextSegmentIds,
+    });
+
+  if (insertError) {
+    console.error("Insert error:", insertError);
+  }
+
+  // Keep recently used threads at the top of the list
+  if (conversationId) {
+    const { error: touchError } = await supabase
+      .from("qa_conversations")
+      .update({ updated_at: new Date().toISOString() })
+      .eq("id", conversationId);
+
+    if (touchError) {
+      console.error("Conversation update error:", touchError);
+    }
+  }
+
+  return threadId;
+}
+
+export class ConversationNotFoundError extends Error {
+  constructor() {
+    super("Conversation not found for this video");
+    this.name = "ConversationNotFoundError";
+  }
+}
@@ -1,10 +1,127 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { AiGatewayError, ChatMessage, chatCompletion, chatCompletionStream } from "../_shared/ai-gateway.ts";
+import { eventStream } from "../_shared/event-stream.ts";
+import { ANSWER_FORMAT, parseAnswer, visibleLength } from "./answer.ts";
+import { ConversationNotFoundError, conversationTurns, replayTurns, saveTurn } from "./conversation.ts";
+import { verifyCitations } from "./citations.ts";
+import { QuestionContext, questionContext } from "./context.ts";
+import { libraryContext, libraryMessages, parseLibraryAnswer } from "./library.ts";
+
+// Status and body for a failed question, shared by the JSON and streamed replies
+function errorResult(error: unknown): { status: number; body: Record<string, unknown> } {
+  if (error instanceof ConversationNotFoundError) {
+    return { status: 404, body: { error: error.message } };
+  }
+  if (error instanceof AiGatewayError && (error.status === 429 || error.status === 402)) {
+    return { status: error.status, body: { error: error.message } };
+  }
+  return { status: 500, body: { error: error instanceof Error ? error.message : "Unknown error" } };
+}
+
+// The prompt for a question: the analyzed video, or the parts of it relevant
+// to the question, the thread so far, and the question. Also returns the
+// context the prompt was built from, to check the answer's citations against.
+async function questionMessages(
+  supabase: SupabaseClient,
+  videoId: string,
+  question: string,
+  conversationId?: string
+): Promise<{ messages: ChatMessage[]; context: QuestionContext }> {
+  // Fetch video info
+  const { data: video, error: videoError } = await supabase
+    .from("videos")
+    .select("*")
+    .eq("id", videoId)
+    .single();
+
+  if (videoError || !video) {
+    throw new Error("Video not found");
+  }
+
+  // Follow-ups replay the thread so far; a new question starts a thread
+  const turns = conversationId ? await conversationTurns(supabase, conversationId, videoId) : [];
+
+  // A follow-up like "what happens after that?" leans on the question before
+  // it, so both are used to find the relevant parts of the video
+  const previous = turns[turns.length - 1]?.question;
+  const context = await questionContext(supabase, videoId, previous ? `${previous}\n${question}` : question);
+  const history = replayTurns(turns, context.labels);
+
+  const qaPrompt = `You are an expert video content analyst. Answer questions about the video based on the analyzed content.
+
+Video Title: "${video.title}"
+
+Analyzed Video Content (one segment per line, with its label and timestamp):
+${context.text}
+${context.retrieved ? "\nThe video is long, so only the parts most relevant to the question are included; [...] marks parts left out.\n" : ""}
+Provide a detailed, accurate answer based ONLY on the video content above. If the question cannot be answered from the available content, say so clearly. Earlier questions and answers in this conversation may be referred to by follow-up questions.
+
+Cite the segments your answer draws on.
+
+${ANSWER_FORMAT}`;
+
+  return {
+    messages: [
+      { role: "system", content: qaPrompt },
+      ...history,
+      { role: "user", content: question },
+    ],
+    context,
+  };
+}
+
+// Replies with the finished answer: as JSON, or as a stream that sends the
+// prose as it is written. finish parses (and saves) the completed answer into
+// the reply body. Events of a streamed reply:
+//   token  { text } the next piece of the answer
+//   done   the reply body, once saved
+//   error  { error, status } in place of done
+// A client that disconnects stops the completion and nothing is saved.
+async function answerReply(
+  messages: ChatMessage[],
+  stream: boolean,
+  label: string,
+  finish: (content: string) => Promise<Record<string, unknown>>
+): Promise<Response> {
+  if (stream) {
+    return eventStream(async (send, signal) => {
+      try {
+        let content = "";
+        let shown = 0;
+        for await (const delta of chatCompletionStream(messages, undefined, signal)) {
+          content += delta;
+          const visible = visibleLength(content);
+          if (visible > shown) {
+            send("token", { text: content.slice(shown, visible) });
+            shown = visible;
+          }
+        }
+
+        const body = await finish(content);
+        console.log(`Streamed Q&A complete for ${label}`);
+        send("done", body);
+      } catch (error) {
+        if (signal.aborted) {
+          console.log(`Q&A for ${label} stopped by the client`);
+          return;
+        }
+        console.error("Error in streamed video-qa:", error);
+        const { status, body } = errorResult(error);
+        send("error", { ...body, status });
+      }
+    });
+  }
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+  const body = await finish(await chatCompletion(messages));
+  console.log(`Q&A complete for ${label}`);
+
+  return new Response(
+    JSON.stringify(body),
+    { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
 
 serve(async (req) => {
   if (req.method === "OPTIONS") {
@@ -12,147 +129,53 @@ serve(async (req) => {
   }
 
   try {
-    const { question, videoId } = await req.json();
-    
-    if (!question || !videoId) {
-      throw new Error("Missing question or videoId");
-    }
+    const { question, videoId, videoIds, conversationId, stream } = await req.json();
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
+    if (!question) {
+      throw new Error("Missing question");
     }
 
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    console.log(`Q&A for video ${videoId}: "${question}"`);
-
-    // Fetch video info and segments
-    const { data: video, error: videoError } = await supabase
-      .from("videos")
-      .select("*")
-      .eq("id", videoId)
-      .single();
-
-    if (videoError || !video) {
-      throw new Error("Video not found");
-    }
-
-    const { data: segments, error: segError } = await supabase
-      .from("video_segments")
-      .select("*")
-      .eq("video_id", videoId)
-      .order("timestamp_seconds", { ascending: true });
-
-    if (segError) {
-      throw segError;
+    // Without a videoId the question is asked of the library, or of the
+    // videos in videoIds. Library citations are checked like a video's and
+    // name the video of each segment; library answers are not saved.
+    if (!videoId) {
+      const scope = Array.isArray(videoIds) && videoIds.length > 0 ? videoIds.map(String) : undefined;
+      console.log(`Library Q&A across ${scope ? `${scope.length} videos` : "all videos"}: "${question}"`);
+
+      const context = await libraryContext(supabase, question, scope);
+      return await answerReply(libraryMessages(question, context), !!stream, "the library", async (content) => {
+        const { answer, citations } = parseLibraryAnswer(content, context);
+        return { answer, citations, context_segment_ids: context.segmentIds };
+      });
     }
 
-    // Build context from video segments
-    const videoContext = segments?.map(seg => 
-      `[${seg.timestamp_display}] ${seg.description || ""} ${seg.transcript ? `Spoken: "${seg.transcript}"` : ""} ${seg.ocr_text ? `On-screen text: "${seg.ocr_text}"` : ""}`
-    ).join("\n") || "No segments available";
-
-    const qaPrompt = `You are an expert video content analyst. Answer questions about the video based on the analyzed content.
-
-Video Title: "${video.title}"
+    console.log(`Q&A for video ${videoId}${conversationId ? ` in conversation ${conversationId}` : ""}: "${question}"`);
 
-Analyzed Video Content (with timestamps):
-${videoContext}
+    const { messages, context } = await questionMessages(supabase, videoId, question, conversationId);
 
-User Question: "${question}"
-
-Provide a detailed, accurate answer based ONLY on the video content above. If the question cannot be answered from the available content, say so clearly.
-
-Include relevant timestamps in your answer when referencing specific moments.
-
-Also return a JSON object with relevant timestamps like this:
-{"answer": "Your detailed answer here", "relevant_timestamps": ["00:00:30", "00:01:15"]}`;
-
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { role: "system", content: "You are a helpful video content analyst. Provide accurate answers based on video content." },
-          { role: "user", content: qaPrompt },
-        ],
-      }),
+    return await answerReply(messages, !!stream, `video ${videoId}`, async (content) => {
+      const verified = verifyCitations(parseAnswer(content), context.segments);
+      const threadId = await saveTurn(supabase, videoId, conversationId, question, verified, context.segmentIds);
+      return {
+        answer: verified.answer,
+        citations: verified.citations,
+        relevant_timestamps: verified.relevantTimestamps,
+        conversationId: threadId,
+        context_segment_ids: context.segmentIds,
+      };
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("AI API error:", response.status, errorText);
-      
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limited. Please try again later." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "Payment required. Please add funds." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      throw new Error(`AI gateway error: ${response.status}`);
-    }
-
-    const aiResult = await response.json();
-    const content = aiResult.choices?.[0]?.message?.content || "";
-
-    // Try to parse structured response
-    let answer = content;
-    let relevantTimestamps: string[] = [];
-
-    try {
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        answer = parsed.answer || content;
-        relevantTimestamps = parsed.relevant_timestamps || [];
-      }
-    } catch {
-      // Use raw content as answer
-      answer = content;
-    }
-
-    // Save Q&A to history
-    const { error: insertError } = await supabase
-      .from("video_qa_history")
-      .insert({
-        video_id: videoId,
-        question,
-        answer,
-        relevant_timestamps: relevantTimestamps,
-      });
-
-    if (insertError) {
-      console.error("Insert error:", insertError);
-    }
-
-    console.log(`Q&A complete for video ${videoId}`);
-
-    return new Response(
-      JSON.stringify({ 
-        answer, 
-        relevant_timestamps: relevantTimestamps 
-      }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
-
   } catch (error) {
     console.error("Error in video-qa:", error);
+
+    const { status, body } = errorResult(error);
     return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      JSON.stringify(body),
+      { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   }
 });
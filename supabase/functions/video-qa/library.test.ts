@@ -0,0 +1,80 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { describe, expect, it, vi } from "vitest";
+import { hybridCandidates } from "../search-videos/search.ts";
+import { libraryContext, LibrarySegment, parseLibraryAnswer } from "./library.ts";
+
+// Retrieval is search's business; these tests only choose what it returns
+vi.mock("../search-videos/search.ts", () => ({ hybridCandidates: vi.fn() }));
+
+function segment(id: string, label: string, videoId: string, transcript: string): LibrarySegment {
+  return {
+    id,
+    label,
+    video_id: videoId,
+    video_title: videoId === "v1" ? "Standup" : "Review",
+    video_path: `${videoId}.mp4`,
+    timestamp_seconds: 75,
+    timestamp_display: "00:01:15",
+    description: null,
+    transcript,
+    ocr_text: null,
+    detected_objects: {},
+  };
+}
+
+const CONTEXT = {
+  segments: [segment("a", "S1", "v1", "The budget is due Friday."), segment("b", "S2", "v2", "Budget approved.")],
+};
+
+function parse(answer: string, citations: unknown[]) {
+  return parseLibraryAnswer(`${answer}\n\n${JSON.stringify({ citations })}`, CONTEXT);
+}
+
+describe("parseLibraryAnswer", () => {
+  it("checks citations like a video's and names the video of each", () => {
+    const { answer, citations } = parse("Due Friday [1], then approved [2].", [
+      { segment: "S1", quote: "due Friday" },
+      { segment: "S2", quote: "rejected" },
+    ]);
+
+    expect(answer).toBe("Due Friday [1], then approved [2].");
+    expect(citations).toMatchObject([
+      { number: 1, segment_id: "a", video_id: "v1", video_title: "Standup", verified: true },
+      { number: 2, segment_id: "b", video_id: "v2", video_title: "Review", verified: false, evidence: null },
+    ]);
+  });
+
+  it("drops citations of segments that were not retrieved", () => {
+    const { answer, citations } = parse("Approved [1][2].", [
+      { segment: "S5", quote: "approved" },
+      { segment: "S2", quote: "approved" },
+    ]);
+
+    expect(answer).toBe("Approved [1].");
+    expect(citations.map((citation) => citation.segment_id)).toEqual(["b"]);
+  });
+
+  it("has no citations without a trailer", () => {
+    expect(parseLibraryAnswer("Nothing matched.", CONTEXT)).toEqual({ answer: "Nothing matched.", citations: [] });
+  });
+});
+
+describe("libraryContext", () => {
+  it("retrieves on the question's meaning and on any of its keywords, in the chosen videos", async () => {
+    vi.mocked(hybridCandidates).mockResolvedValue({
+      fused: CONTEXT.segments.map((candidate) => ({ candidate, score: 0, ranks: {}, retrievers: ["lexical"] })),
+      retrieverCount: 1,
+    } as unknown as Awaited<ReturnType<typeof hybridCandidates>>);
+
+    const context = await libraryContext({} as SupabaseClient, "Which meetings mentioned the budget?", ["v1", "v2"]);
+
+    expect(hybridCandidates).toHaveBeenCalledWith(
+      expect.anything(),
+      "Which meetings mentioned the budget?",
+      { limit: 20, filter: { type: "videos", ids: ["v1", "v2"] } },
+      0,
+      "meetings OR mentioned OR budget"
+    );
+    expect(context.segmentIds).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,126 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ChatMessage } from "../_shared/ai-gateway.ts";
+import { keywordQuery } from "../search-videos/lexical.ts";
+import { hybridCandidates } from "../search-videos/search.ts";
+import { SegmentCandidate } from "../search-videos/types.ts";
+import { ANSWER_FORMAT, parseAnswer } from "./answer.ts";
+import { SegmentCitation, verifyCitations } from "./citations.ts";
+import { CONTEXT_TOKEN_BUDGET, estimateTokens, segmentLine } from "./context.ts";
+
+// Library Q&A: a question answered across every ready video, or a chosen set
+// of them. The QA_LIBRARY_TOP_K segments most relevant to the question are
+// retrieved from the whole library with the hybrid retrieval search uses, and
+// added in relevance order until QA_CONTEXT_TOKEN_BUDGET is spent. The prompt
+// groups them under the videos they come from and labels them S1, S2, ...
+// across the library, so answers cite segments with quoted evidence as
+// single-video answers do, and are checked the same way, see citations.ts.
+const LIBRARY_TOP_K = Number(Deno.env.get("QA_LIBRARY_TOP_K") || 20);
+
+interface LibraryVideo {
+  id: string;
+  title: string;
+}
+
+export type LibrarySegment = SegmentCandidate & { label: string };
+
+export interface LibraryContext {
+  // Prompt text: the retrieved segments grouped under their numbered video
+  text: string;
+  // Videos in the order they are numbered in the prompt, from 1
+  videos: LibraryVideo[];
+  // The segments in the prompt, labelled in prompt order, which answers may cite
+  segments: LibrarySegment[];
+  segmentIds: string[];
+}
+
+// A checked citation and the video its segment belongs to
+export interface LibraryCitation extends SegmentCitation {
+  video_id: string;
+  video_title: string;
+}
+
+export interface LibraryAnswer {
+  answer: string;
+  citations: LibraryCitation[];
+}
+
+export async function libraryContext(
+  supabase: SupabaseClient,
+  question: string,
+  videoIds?: string[],
+  budget = CONTEXT_TOKEN_BUDGET
+): Promise<LibraryContext> {
+  const filter = videoIds?.length ? { type: "videos" as const, ids: videoIds } : null;
+  const { fused } = await hybridCandidates(supabase, question, { limit: LIBRARY_TOP_K, filter }, 0, keywordQuery(question));
+
+  const chosen: SegmentCandidate[] = [];
+  let used = 0;
+  for (const { candidate } of fused.slice(0, LIBRARY_TOP_K)) {
+    const cost = estimateTokens(segmentLine(candidate, `S${chosen.length + 1}`));
+    if (used + cost > budget) continue;
+    chosen.push(candidate);
+    used += cost;
+  }
+
+  // Videos are numbered by their most relevant segment
+  const byVideo = new Map<string, SegmentCandidate[]>();
+  for (const segment of chosen) {
+    byVideo.set(segment.video_id, [...(byVideo.get(segment.video_id) || []), segment]);
+  }
+
+  const videos: LibraryVideo[] = [];
+  const labelled: LibrarySegment[] = [];
+  const sections: string[] = [];
+  for (const [videoId, segments] of byVideo) {
+    videos.push({ id: videoId, title: segments[0].video_title });
+    const lines = segments
+      .sort((a, b) => a.timestamp_seconds - b.timestamp_seconds)
+      .map((segment) => {
+        const label = `S${labelled.length + 1}`;
+        labelled.push({ ...segment, label });
+        return segmentLine(segment, label);
+      });
+    sections.push(`Video ${videos.length}: "${segments[0].video_title}"\n${lines.join("\n")}`);
+  }
+
+  console.log(`Library Q&A context: ${chosen.length} segments from ${videos.length} videos (${used} of ${budget} tokens)`);
+  return {
+    text: sections.length > 0 ? sections.join("\n\n") : "No segments available",
+    videos,
+    segments: labelled,
+    segmentIds: labelled.map((segment) => segment.id),
+  };
+}
+
+export function libraryMessages(question: string, context: LibraryContext): ChatMessage[] {
+  const qaPrompt = `You are an expert video content analyst. Answer questions about a library of videos based on the analyzed content.
+
+Analyzed Video Content (the parts of the library most relevant to the question, grouped by video, one segment per line with its label and timestamp):
+${context.text}
+
+Provide a detailed, accurate answer based ONLY on the video content above. If the question cannot be answered from the available content, say so clearly.
+
+Name the videos you refer to, and cite the segments your answer draws on.
+
+${ANSWER_FORMAT}`;
+
+  return [
+    { role: "system", content: qaPrompt },
+    { role: "user", content: question },
+  ];
+}
+
+// The prose of a library answer and its checked citations, each with the
+// video of the segment it cites
+export function parseLibraryAnswer(content: string, context: Pick<LibraryContext, "segments">): LibraryAnswer {
+  const { answer, citations } = verifyCitations(parseAnswer(content), context.segments);
+  const byId = new Map(context.segments.map((segment) => [segment.id, segment]));
+
+  return {
+    answer,
+    citations: citations.map((citation) => {
+      const segment = byId.get(citation.segment_id)!;
+      return { ...citation, video_id: segment.video_id, video_title: segment.video_title };
+    }),
+  };
+}
@@ -0,0 +1,22 @@
+-- Word-level transcript timings produced by the transcription stage
+CREATE TABLE public.transcript_words (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  segment_id UUID NOT NULL REFERENCES public.video_segments(id) ON DELETE CASCADE,
+  word_index INTEGER NOT NULL,
+  word TEXT NOT NULL,
+  start_seconds NUMERIC NOT NULL,
+  end_seconds NUMERIC NOT NULL,
+  confidence NUMERIC,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (video_id, word_index)
+);
+
+CREATE INDEX idx_transcript_words_segment_id ON public.transcript_words(segment_id);
+CREATE INDEX idx_transcript_words_video_start ON public.transcript_words(video_id, start_seconds);
+
+ALTER TABLE public.transcript_words ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to transcript_words" ON public.transcript_words FOR SELECT USING (true);
+CREATE POLICY "Allow public insert access to transcript_words" ON public.transcript_words FOR INSERT WITH CHECK (true);
+CREATE POLICY "Allow public delete access to transcript_words" ON public.transcript_words FOR DELETE USING (true);
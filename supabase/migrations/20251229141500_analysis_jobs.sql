@@ -0,0 +1,82 @@
+-- Why a video failed analysis, shown in the library
+ALTER TABLE public.videos ADD COLUMN failure_reason TEXT;
+
+-- Persistent queue of analysis jobs, processed by the analysis-worker function
+CREATE TABLE public.analysis_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'succeeded', 'failed')),
+  stage TEXT NOT NULL DEFAULT 'queued' CHECK (stage IN ('queued', 'downloading', 'sampling_frames', 'describing_frames', 'transcribing', 'indexing', 'completed', 'failed')),
+  progress_percent INTEGER NOT NULL DEFAULT 0 CHECK (progress_percent BETWEEN 0 AND 100),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  last_error TEXT,
+  options JSONB NOT NULL DEFAULT '{}',
+  run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_analysis_jobs_video_id ON public.analysis_jobs(video_id);
+CREATE INDEX idx_analysis_jobs_pending ON public.analysis_jobs(run_after) WHERE status IN ('pending', 'running');
+
+ALTER TABLE public.analysis_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are written by the edge functions only; the UI just reads progress
+CREATE POLICY "Allow public read access to analysis_jobs" ON public.analysis_jobs FOR SELECT USING (true);
+
+CREATE TRIGGER update_analysis_jobs_updated_at
+BEFORE UPDATE ON public.analysis_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Atomically claims the next runnable job. Jobs left 'running' longer than
+-- stale_after_seconds belong to a crashed worker and are claimed again.
+CREATE OR REPLACE FUNCTION public.claim_analysis_job(stale_after_seconds INTEGER DEFAULT 900)
+RETURNS SETOF public.analysis_jobs
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.analysis_jobs AS j
+  SET status = 'running',
+      attempts = j.attempts + 1,
+      locked_at = now(),
+      started_at = COALESCE(j.started_at, now())
+  WHERE j.id = (
+    SELECT id FROM public.analysis_jobs
+    WHERE (status = 'pending' AND run_after <= now())
+       OR (status = 'running' AND locked_at < now() - make_interval(secs => stale_after_seconds))
+    ORDER BY run_after
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_analysis_job(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Run the worker every minute so retries fire once their backoff expires.
+-- Expects project_url and service_role_key secrets in Vault.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'analysis-worker',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/analysis-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
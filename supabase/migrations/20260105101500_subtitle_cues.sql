@@ -0,0 +1,20 @@
+-- Timed cues imported from a sidecar subtitle file (.srt / .vtt). When present
+-- they are the authoritative transcript and the transcription stage is skipped.
+CREATE TABLE public.subtitle_cues (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  cue_index INTEGER NOT NULL,
+  start_seconds NUMERIC NOT NULL,
+  end_seconds NUMERIC NOT NULL,
+  text TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (video_id, cue_index)
+);
+
+CREATE INDEX idx_subtitle_cues_video_id ON public.subtitle_cues(video_id);
+
+ALTER TABLE public.subtitle_cues ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to subtitle_cues" ON public.subtitle_cues FOR SELECT USING (true);
+CREATE POLICY "Allow public insert access to subtitle_cues" ON public.subtitle_cues FOR INSERT WITH CHECK (true);
+CREATE POLICY "Allow public delete access to subtitle_cues" ON public.subtitle_cues FOR DELETE USING (true);
@@ -0,0 +1,57 @@
+-- Vector embeddings of video_segments.embedding_text for semantic retrieval
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+ALTER TABLE public.video_segments ADD COLUMN embedding extensions.vector(1536);
+
+CREATE INDEX idx_video_segments_embedding ON public.video_segments
+USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- Analysis now has an embedding stage between transcription and indexing
+ALTER TABLE public.analysis_jobs DROP CONSTRAINT analysis_jobs_stage_check;
+ALTER TABLE public.analysis_jobs ADD CONSTRAINT analysis_jobs_stage_check
+CHECK (stage IN ('queued', 'downloading', 'sampling_frames', 'describing_frames', 'transcribing', 'embedding', 'indexing', 'completed', 'failed'));
+
+-- Nearest segments to a query embedding by cosine similarity, optionally
+-- scoped to one video, only from videos in the given status
+CREATE OR REPLACE FUNCTION public.match_video_segments(
+  query_embedding extensions.vector(1536),
+  match_count INTEGER DEFAULT 50,
+  filter_video_id UUID DEFAULT NULL,
+  filter_status TEXT DEFAULT 'ready'
+)
+RETURNS TABLE (
+  id UUID,
+  video_id UUID,
+  video_title TEXT,
+  video_path TEXT,
+  timestamp_seconds NUMERIC,
+  timestamp_display TEXT,
+  description TEXT,
+  transcript TEXT,
+  ocr_text TEXT,
+  detected_objects JSONB,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    s.id,
+    s.video_id,
+    v.title,
+    v.storage_path,
+    s.timestamp_seconds,
+    s.timestamp_display,
+    s.description,
+    s.transcript,
+    s.ocr_text,
+    s.detected_objects,
+    1 - (s.embedding <=> query_embedding) AS similarity
+  FROM public.video_segments s
+  JOIN public.videos v ON v.id = s.video_id
+  WHERE s.embedding IS NOT NULL
+    AND v.status = filter_status
+    AND (filter_video_id IS NULL OR s.video_id = filter_video_id)
+  ORDER BY s.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
@@ -0,0 +1,56 @@
+-- Weighted full-text document for lexical retrieval: what the frame shows
+-- ranks above what was said, which ranks above on-screen text
+ALTER TABLE public.video_segments ADD COLUMN search_document tsvector
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(description, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(transcript, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(ocr_text, '')), 'C')
+) STORED;
+
+CREATE INDEX idx_video_segments_search_document ON public.video_segments USING gin (search_document);
+
+-- Segments matching a to_tsquery expression (phrases via <->, prefixes via :*),
+-- ranked by cover density and normalized to [0, 1)
+CREATE OR REPLACE FUNCTION public.search_video_segments_fts(
+  search_query TEXT,
+  match_count INTEGER DEFAULT 50,
+  filter_video_id UUID DEFAULT NULL,
+  filter_status TEXT DEFAULT 'ready'
+)
+RETURNS TABLE (
+  id UUID,
+  video_id UUID,
+  video_title TEXT,
+  video_path TEXT,
+  timestamp_seconds NUMERIC,
+  timestamp_display TEXT,
+  description TEXT,
+  transcript TEXT,
+  ocr_text TEXT,
+  detected_objects JSONB,
+  rank DOUBLE PRECISION
+)
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.video_id,
+    v.title,
+    v.storage_path,
+    s.timestamp_seconds,
+    s.timestamp_display,
+    s.description,
+    s.transcript,
+    s.ocr_text,
+    s.detected_objects,
+    ts_rank_cd(s.search_document, q, 32)::double precision AS rank
+  FROM public.video_segments s
+  JOIN public.videos v ON v.id = s.video_id
+  CROSS JOIN to_tsquery('english', search_query) AS q
+  WHERE s.search_document @@ q
+    AND v.status = filter_status
+    AND (filter_video_id IS NULL OR s.video_id = filter_video_id)
+  ORDER BY rank DESC, s.timestamp_seconds
+  LIMIT match_count;
+$$;
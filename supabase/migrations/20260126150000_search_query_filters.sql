@@ -0,0 +1,222 @@
+-- Evaluates a filter tree compiled from the structured search syntax against
+-- one segment. Node shapes (see search-videos/query-language.ts):
+--   {"type": "and" | "or", "children": [...]}
+--   {"type": "not", "child": {...}}
+--   {"type": "match", "field": "ocr" | "transcript" | "description" | "video" | "any", "value": "...", "prefix": bool}
+--   {"type": "object", "name": "person", "comparator": ">=", "count": 2}
+--   {"type": "after" | "before", "seconds": 90}
+CREATE OR REPLACE FUNCTION public.segment_matches_filter(
+  seg public.video_segments,
+  video_title TEXT,
+  filter JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql STABLE
+SET search_path = public
+AS $$
+DECLARE
+  child JSONB;
+  field_document tsvector;
+  query tsquery;
+  object_count NUMERIC;
+  target_count NUMERIC;
+BEGIN
+  IF filter IS NULL THEN
+    RETURN TRUE;
+  END IF;
+
+  CASE filter->>'type'
+    WHEN 'and' THEN
+      FOR child IN SELECT * FROM jsonb_array_elements(filter->'children') LOOP
+        IF NOT public.segment_matches_filter(seg, video_title, child) THEN
+          RETURN FALSE;
+        END IF;
+      END LOOP;
+      RETURN TRUE;
+
+    WHEN 'or' THEN
+      FOR child IN SELECT * FROM jsonb_array_elements(filter->'children') LOOP
+        IF public.segment_matches_filter(seg, video_title, child) THEN
+          RETURN TRUE;
+        END IF;
+      END LOOP;
+      RETURN FALSE;
+
+    WHEN 'not' THEN
+      RETURN NOT public.segment_matches_filter(seg, video_title, filter->'child');
+
+    WHEN 'match' THEN
+      IF (filter->>'prefix')::boolean THEN
+        query := to_tsquery('english', (filter->>'value') || ':*');
+      ELSE
+        query := phraseto_tsquery('english', filter->>'value');
+      END IF;
+
+      field_document := CASE filter->>'field'
+        WHEN 'ocr' THEN to_tsvector('english', coalesce(seg.ocr_text, ''))
+        WHEN 'transcript' THEN to_tsvector('english', coalesce(seg.transcript, ''))
+        WHEN 'description' THEN to_tsvector('english', coalesce(seg.description, ''))
+        WHEN 'video' THEN to_tsvector('english', coalesce(video_title, ''))
+        ELSE seg.search_document
+      END;
+      RETURN field_document @@ query;
+
+    WHEN 'object' THEN
+      object_count := COALESCE((seg.detected_objects->>(filter->>'name'))::numeric, 0);
+      target_count := (filter->>'count')::numeric;
+      RETURN CASE filter->>'comparator'
+        WHEN '>' THEN object_count > target_count
+        WHEN '<=' THEN object_count <= target_count
+        WHEN '<' THEN object_count < target_count
+        WHEN '=' THEN object_count = target_count
+        ELSE object_count >= target_count
+      END;
+
+    WHEN 'after' THEN
+      RETURN seg.timestamp_seconds >= (filter->>'seconds')::numeric;
+
+    WHEN 'before' THEN
+      RETURN seg.timestamp_seconds <= (filter->>'seconds')::numeric;
+
+    ELSE
+      RAISE EXCEPTION 'Unknown search filter node type: %', filter->>'type';
+  END CASE;
+END;
+$$;
+
+-- Retrieval RPCs gain a filter argument, applied before ranking
+DROP FUNCTION public.match_video_segments(extensions.vector, INTEGER, UUID, TEXT);
+DROP FUNCTION public.search_video_segments_fts(TEXT, INTEGER, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.match_video_segments(
+  query_embedding extensions.vector(1536),
+  match_count INTEGER DEFAULT 50,
+  filter_video_id UUID DEFAULT NULL,
+  filter_status TEXT DEFAULT 'ready',
+  filter JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  video_id UUID,
+  video_title TEXT,
+  video_path TEXT,
+  timestamp_seconds NUMERIC,
+  timestamp_display TEXT,
+  description TEXT,
+  transcript TEXT,
+  ocr_text TEXT,
+  detected_objects JSONB,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    s.id,
+    s.video_id,
+    v.title,
+    v.storage_path,
+    s.timestamp_seconds,
+    s.timestamp_display,
+    s.description,
+    s.transcript,
+    s.ocr_text,
+    s.detected_objects,
+    1 - (s.embedding <=> query_embedding) AS similarity
+  FROM public.video_segments s
+  JOIN public.videos v ON v.id = s.video_id
+  WHERE s.embedding IS NOT NULL
+    AND v.status = filter_status
+    AND (filter_video_id IS NULL OR s.video_id = filter_video_id)
+    AND public.segment_matches_filter(s, v.title, filter)
+  ORDER BY s.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_video_segments_fts(
+  search_query TEXT,
+  match_count INTEGER DEFAULT 50,
+  filter_video_id UUID DEFAULT NULL,
+  filter_status TEXT DEFAULT 'ready',
+  filter JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  video_id UUID,
+  video_title TEXT,
+  video_path TEXT,
+  timestamp_seconds NUMERIC,
+  timestamp_display TEXT,
+  description TEXT,
+  transcript TEXT,
+  ocr_text TEXT,
+  detected_objects JSONB,
+  rank DOUBLE PRECISION
+)
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.video_id,
+    v.title,
+    v.storage_path,
+    s.timestamp_seconds,
+    s.timestamp_display,
+    s.description,
+    s.transcript,
+    s.ocr_text,
+    s.detected_objects,
+    ts_rank_cd(s.search_document, q, 32)::double precision AS rank
+  FROM public.video_segments s
+  JOIN public.videos v ON v.id = s.video_id
+  CROSS JOIN to_tsquery('english', search_query) AS q
+  WHERE s.search_document @@ q
+    AND v.status = filter_status
+    AND (filter_video_id IS NULL OR s.video_id = filter_video_id)
+    AND public.segment_matches_filter(s, v.title, filter)
+  ORDER BY rank DESC, s.timestamp_seconds
+  LIMIT match_count;
+$$;
+
+-- Segments matching a filter alone, for queries without free text
+CREATE OR REPLACE FUNCTION public.filter_video_segments(
+  filter JSONB,
+  match_count INTEGER DEFAULT 50,
+  filter_video_id UUID DEFAULT NULL,
+  filter_status TEXT DEFAULT 'ready'
+)
+RETURNS TABLE (
+  id UUID,
+  video_id UUID,
+  video_title TEXT,
+  video_path TEXT,
+  timestamp_seconds NUMERIC,
+  timestamp_display TEXT,
+  description TEXT,
+  transcript TEXT,
+  ocr_text TEXT,
+  detected_objects JSONB
+)
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.video_id,
+    v.title,
+    v.storage_path,
+    s.timestamp_seconds,
+    s.timestamp_display,
+    s.description,
+    s.transcript,
+    s.ocr_text,
+    s.detected_objects
+  FROM public.video_segments s
+  JOIN public.videos v ON v.id = s.video_id
+  WHERE v.status = filter_status
+    AND (filter_video_id IS NULL OR s.video_id = filter_video_id)
+    AND public.segment_matches_filter(s, v.title, filter)
+  ORDER BY v.created_at DESC, s.timestamp_seconds
+  LIMIT match_count;
+$$;
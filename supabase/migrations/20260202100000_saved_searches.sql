@@ -0,0 +1,48 @@
+-- Queries kept for re-running. Watched searches are re-evaluated against each
+-- newly analyzed video by analysis-worker, which records matches below.
+CREATE TABLE public.saved_searches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  query TEXT NOT NULL,
+  filters JSONB NOT NULL DEFAULT '{}',
+  watch BOOLEAN NOT NULL DEFAULT false,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_saved_searches_watch ON public.saved_searches(watch) WHERE watch;
+
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to saved_searches" ON public.saved_searches FOR SELECT USING (true);
+CREATE POLICY "Allow public insert access to saved_searches" ON public.saved_searches FOR INSERT WITH CHECK (true);
+CREATE POLICY "Allow public update access to saved_searches" ON public.saved_searches FOR UPDATE USING (true);
+CREATE POLICY "Allow public delete access to saved_searches" ON public.saved_searches FOR DELETE USING (true);
+
+CREATE TRIGGER update_saved_searches_updated_at
+BEFORE UPDATE ON public.saved_searches
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One notification per watched search and video; re-analyzing the video
+-- refreshes it and marks it unread again
+CREATE TABLE public.search_notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  saved_search_id UUID NOT NULL REFERENCES public.saved_searches(id) ON DELETE CASCADE,
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  match_count INTEGER NOT NULL,
+  top_timestamp_seconds NUMERIC NOT NULL,
+  top_relevance_score NUMERIC NOT NULL,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (saved_search_id, video_id)
+);
+
+CREATE INDEX idx_search_notifications_unread ON public.search_notifications(created_at DESC) WHERE read_at IS NULL;
+
+ALTER TABLE public.search_notifications ENABLE ROW LEVEL SECURITY;
+
+-- Notifications are written by analysis-worker; the UI reads them and marks them read
+CREATE POLICY "Allow public read access to search_notifications" ON public.search_notifications FOR SELECT USING (true);
+CREATE POLICY "Allow public update access to search_notifications" ON public.search_notifications FOR UPDATE USING (true);
@@ -0,0 +1,61 @@
+-- Image embeddings of each segment's sampled frame, for query-by-frame search.
+-- 512 dimensions fits CLIP ViT-B/32; it must match VISUAL_EMBEDDING_DIMENSIONS.
+ALTER TABLE public.video_segments ADD COLUMN visual_embedding extensions.vector(512);
+
+CREATE INDEX idx_video_segments_visual_embedding ON public.video_segments
+USING hnsw (visual_embedding extensions.vector_cosine_ops);
+
+-- Frames nearest to a query image embedding, or to the frame of an existing
+-- segment when source_segment_id is given (that segment is left out)
+CREATE OR REPLACE FUNCTION public.match_video_frames(
+  query_embedding extensions.vector(512) DEFAULT NULL,
+  source_segment_id UUID DEFAULT NULL,
+  match_count INTEGER DEFAULT 20,
+  filter_video_id UUID DEFAULT NULL,
+  filter_status TEXT DEFAULT 'ready'
+)
+RETURNS TABLE (
+  id UUID,
+  video_id UUID,
+  video_title TEXT,
+  video_path TEXT,
+  timestamp_seconds NUMERIC,
+  timestamp_display TEXT,
+  description TEXT,
+  transcript TEXT,
+  ocr_text TEXT,
+  detected_objects JSONB,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql STABLE
+SET search_path = public, extensions
+AS $$
+  WITH target AS (
+    SELECT COALESCE(
+      query_embedding,
+      (SELECT visual_embedding FROM public.video_segments WHERE video_segments.id = source_segment_id)
+    ) AS embedding
+  )
+  SELECT
+    s.id,
+    s.video_id,
+    v.title,
+    v.storage_path,
+    s.timestamp_seconds,
+    s.timestamp_display,
+    s.description,
+    s.transcript,
+    s.ocr_text,
+    s.detected_objects,
+    1 - (s.visual_embedding <=> target.embedding) AS similarity
+  FROM public.video_segments s
+  JOIN public.videos v ON v.id = s.video_id
+  CROSS JOIN target
+  WHERE s.visual_embedding IS NOT NULL
+    AND target.embedding IS NOT NULL
+    AND v.status = filter_status
+    AND (filter_video_id IS NULL OR s.video_id = filter_video_id)
+    AND (source_segment_id IS NULL OR s.id <> source_segment_id)
+  ORDER BY s.visual_embedding <=> target.embedding
+  LIMIT match_count;
+$$;
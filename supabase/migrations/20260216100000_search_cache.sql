@@ -0,0 +1,102 @@
+-- Version of the searchable index. Any write to video_segments, and any change
+-- to a video's status or title (both visible to search), bumps it, so cached
+-- results from before the change stop matching.
+CREATE TABLE public.search_index_state (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  version BIGINT NOT NULL DEFAULT 1,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.search_index_state (id) VALUES (true);
+
+ALTER TABLE public.search_index_state ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to search_index_state" ON public.search_index_state FOR SELECT USING (true);
+
+CREATE OR REPLACE FUNCTION public.bump_search_index_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.search_index_state SET version = version + 1, updated_at = now() WHERE id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER bump_search_index_on_segments
+AFTER INSERT OR UPDATE OR DELETE OR TRUNCATE ON public.video_segments
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.bump_search_index_version();
+
+CREATE TRIGGER bump_search_index_on_videos
+AFTER UPDATE OF status, title OR DELETE ON public.videos
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.bump_search_index_version();
+
+-- Search responses keyed by a hash of the normalized request and the index
+-- version they were computed at. Entries of older versions are never read
+-- again and are pruned when a newer entry is written.
+CREATE TABLE public.search_cache (
+  cache_key TEXT NOT NULL PRIMARY KEY,
+  index_version BIGINT NOT NULL,
+  query TEXT NOT NULL,
+  video_id UUID REFERENCES public.videos(id) ON DELETE CASCADE,
+  response JSONB NOT NULL,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_hit_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_search_cache_index_version ON public.search_cache(index_version);
+
+ALTER TABLE public.search_cache ENABLE ROW LEVEL SECURITY;
+
+-- Written by search-videos; the UI reads usage and clears it
+CREATE POLICY "Allow public read access to search_cache" ON public.search_cache FOR SELECT USING (true);
+CREATE POLICY "Allow public delete access to search_cache" ON public.search_cache FOR DELETE USING (true);
+
+-- Counts a cache hit without a read-modify-write round trip
+CREATE OR REPLACE FUNCTION public.record_search_cache_hit(hit_key TEXT)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.search_cache
+  SET hit_count = hit_count + 1, last_hit_at = now()
+  WHERE cache_key = hit_key;
+$$;
+
+-- Admin invalidation: drops every cached response, returning how many
+CREATE OR REPLACE FUNCTION public.invalidate_search_cache()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  removed INTEGER;
+BEGIN
+  DELETE FROM public.search_cache WHERE true;
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  RETURN removed;
+END;
+$$;
+
+-- Usage summary for the admin controls
+CREATE OR REPLACE FUNCTION public.search_cache_stats()
+RETURNS TABLE (
+  index_version BIGINT,
+  entries BIGINT,
+  hits BIGINT
+)
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (SELECT version FROM public.search_index_state WHERE id),
+    count(c.cache_key),
+    coalesce(sum(c.hit_count), 0)::bigint
+  FROM public.search_cache c;
+$$;
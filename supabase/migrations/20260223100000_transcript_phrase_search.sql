@@ -0,0 +1,74 @@
+-- Exact phrase lookup over word timings. Words are compared case-folded and
+-- stripped of punctuation, so "Budget," in the transcript matches "budget".
+-- The phrase words passed in must be normalized the same way.
+ALTER TABLE public.transcript_words ADD COLUMN normalized_word TEXT
+GENERATED ALWAYS AS (regexp_replace(lower(word), '[^[:alnum:]]+', '', 'g')) STORED;
+
+CREATE INDEX idx_transcript_words_normalized_word ON public.transcript_words(normalized_word);
+
+-- Every occurrence of the words in phrase_words as consecutive spoken words,
+-- with the exact time span they were spoken in and up to context_words words
+-- on either side
+CREATE OR REPLACE FUNCTION public.match_transcript_phrase(
+  phrase_words TEXT[],
+  filter_video_id UUID DEFAULT NULL,
+  context_words INTEGER DEFAULT 8,
+  match_count INTEGER DEFAULT 100,
+  filter_status TEXT DEFAULT 'ready'
+)
+RETURNS TABLE (
+  video_id UUID,
+  video_title TEXT,
+  video_path TEXT,
+  segment_id UUID,
+  start_seconds NUMERIC,
+  end_seconds NUMERIC,
+  spoken TEXT,
+  context_before TEXT,
+  context_after TEXT
+)
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  SELECT
+    start_word.video_id,
+    v.title,
+    v.storage_path,
+    start_word.segment_id,
+    start_word.start_seconds,
+    span.end_seconds,
+    span.spoken,
+    coalesce(lead_in.words, ''),
+    coalesce(lead_out.words, '')
+  FROM public.transcript_words start_word
+  JOIN public.videos v ON v.id = start_word.video_id
+  CROSS JOIN LATERAL (
+    SELECT
+      count(*) AS matched,
+      max(w.end_seconds) AS end_seconds,
+      string_agg(w.word, ' ' ORDER BY w.word_index) AS spoken
+    FROM public.transcript_words w
+    WHERE w.video_id = start_word.video_id
+      AND w.word_index BETWEEN start_word.word_index AND start_word.word_index + cardinality(phrase_words) - 1
+      AND w.normalized_word = phrase_words[w.word_index - start_word.word_index + 1]
+  ) span
+  CROSS JOIN LATERAL (
+    SELECT string_agg(w.word, ' ' ORDER BY w.word_index) AS words
+    FROM public.transcript_words w
+    WHERE w.video_id = start_word.video_id
+      AND w.word_index BETWEEN start_word.word_index - context_words AND start_word.word_index - 1
+  ) lead_in
+  CROSS JOIN LATERAL (
+    SELECT string_agg(w.word, ' ' ORDER BY w.word_index) AS words
+    FROM public.transcript_words w
+    WHERE w.video_id = start_word.video_id
+      AND w.word_index BETWEEN start_word.word_index + cardinality(phrase_words)
+        AND start_word.word_index + cardinality(phrase_words) + context_words - 1
+  ) lead_out
+  WHERE start_word.normalized_word = phrase_words[1]
+    AND span.matched = cardinality(phrase_words)
+    AND v.status = filter_status
+    AND (filter_video_id IS NULL OR start_word.video_id = filter_video_id)
+  ORDER BY v.title, start_word.video_id, start_word.start_seconds
+  LIMIT match_count;
+$$;
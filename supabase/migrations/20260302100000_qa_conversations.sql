@@ -0,0 +1,41 @@
+-- Q&A threads: every question and answer in video_qa_history belongs to one,
+-- and video-qa replays a thread's earlier turns when answering a follow-up
+CREATE TABLE public.qa_conversations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_qa_conversations_video_updated ON public.qa_conversations(video_id, updated_at DESC);
+
+ALTER TABLE public.qa_conversations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to qa_conversations" ON public.qa_conversations FOR SELECT USING (true);
+CREATE POLICY "Allow public insert access to qa_conversations" ON public.qa_conversations FOR INSERT WITH CHECK (true);
+CREATE POLICY "Allow public update access to qa_conversations" ON public.qa_conversations FOR UPDATE USING (true);
+CREATE POLICY "Allow public delete access to qa_conversations" ON public.qa_conversations FOR DELETE USING (true);
+
+CREATE TRIGGER update_qa_conversations_updated_at
+BEFORE UPDATE ON public.qa_conversations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.video_qa_history
+ADD COLUMN conversation_id UUID REFERENCES public.qa_conversations(id) ON DELETE CASCADE;
+
+-- Questions asked before threads existed become one thread per video
+INSERT INTO public.qa_conversations (video_id, title, created_at, updated_at)
+SELECT video_id, 'Earlier questions', min(created_at), max(created_at)
+FROM public.video_qa_history
+GROUP BY video_id;
+
+UPDATE public.video_qa_history h
+SET conversation_id = c.id
+FROM public.qa_conversations c
+WHERE c.video_id = h.video_id;
+
+ALTER TABLE public.video_qa_history ALTER COLUMN conversation_id SET NOT NULL;
+
+CREATE INDEX idx_video_qa_history_conversation ON public.video_qa_history(conversation_id, created_at);
@@ -0,0 +1,5 @@
+-- The segments an answer was built from. Long videos are answered from the
+-- segments retrieved for the question rather than the whole video, and the
+-- Q&A panel lists them under each answer.
+ALTER TABLE public.video_qa_history
+ADD COLUMN context_segment_ids UUID[] NOT NULL DEFAULT '{}';
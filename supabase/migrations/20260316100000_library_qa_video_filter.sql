@@ -0,0 +1,84 @@
+-- Library Q&A can be limited to a chosen set of videos. The filter tree gains
+-- a node for that, which the structured search syntax never produces:
+--   {"type": "videos", "ids": ["<video id>", ...]}
+CREATE OR REPLACE FUNCTION public.segment_matches_filter(
+  seg public.video_segments,
+  video_title TEXT,
+  filter JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql STABLE
+SET search_path = public
+AS $$
+DECLARE
+  child JSONB;
+  field_document tsvector;
+  query tsquery;
+  object_count NUMERIC;
+  target_count NUMERIC;
+BEGIN
+  IF filter IS NULL THEN
+    RETURN TRUE;
+  END IF;
+
+  CASE filter->>'type'
+    WHEN 'and' THEN
+      FOR child IN SELECT * FROM jsonb_array_elements(filter->'children') LOOP
+        IF NOT public.segment_matches_filter(seg, video_title, child) THEN
+          RETURN FALSE;
+        END IF;
+      END LOOP;
+      RETURN TRUE;
+
+    WHEN 'or' THEN
+      FOR child IN SELECT * FROM jsonb_array_elements(filter->'children') LOOP
+        IF public.segment_matches_filter(seg, video_title, child) THEN
+          RETURN TRUE;
+        END IF;
+      END LOOP;
+      RETURN FALSE;
+
+    WHEN 'not' THEN
+      RETURN NOT public.segment_matches_filter(seg, video_title, filter->'child');
+
+    WHEN 'match' THEN
+      IF (filter->>'prefix')::boolean THEN
+        query := to_tsquery('english', (filter->>'value') || ':*');
+      ELSE
+        query := phraseto_tsquery('english', filter->>'value');
+      END IF;
+
+      field_document := CASE filter->>'field'
+        WHEN 'ocr' THEN to_tsvector('english', coalesce(seg.ocr_text, ''))
+        WHEN 'transcript' THEN to_tsvector('english', coalesce(seg.transcript, ''))
+        WHEN 'description' THEN to_tsvector('english', coalesce(seg.description, ''))
+        WHEN 'video' THEN to_tsvector('english', coalesce(video_title, ''))
+        ELSE seg.search_document
+      END;
+      RETURN field_document @@ query;
+
+    WHEN 'object' THEN
+      object_count := COALESCE((seg.detected_objects->>(filter->>'name'))::numeric, 0);
+      target_count := (filter->>'count')::numeric;
+      RETURN CASE filter->>'comparator'
+        WHEN '>' THEN object_count > target_count
+        WHEN '<=' THEN object_count <= target_count
+        WHEN '<' THEN object_count < target_count
+        WHEN '=' THEN object_count = target_count
+        ELSE object_count >= target_count
+      END;
+
+    WHEN 'after' THEN
+      RETURN seg.timestamp_seconds >= (filter->>'seconds')::numeric;
+
+    WHEN 'before' THEN
+      RETURN seg.timestamp_seconds <= (filter->>'seconds')::numeric;
+
+    WHEN 'videos' THEN
+      RETURN seg.video_id::text IN (SELECT jsonb_array_elements_text(filter->'ids'));
+
+    ELSE
+      RAISE EXCEPTION 'Unknown search filter node type: %', filter->>'type';
+  END CASE;
+END;
+$$;
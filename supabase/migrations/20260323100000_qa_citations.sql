@@ -0,0 +1,5 @@
+-- Checked citations of an answer: the segment each one cites, the quoted
+-- evidence and where it was found, see video-qa/citations.ts. Answers saved
+-- before citations keep only relevant_timestamps.
+ALTER TABLE public.video_qa_history
+ADD COLUMN citations JSONB NOT NULL DEFAULT '[]'::jsonb;
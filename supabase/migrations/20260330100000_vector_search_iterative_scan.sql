@@ -0,0 +1,20 @@
+-- Nearest-neighbour RPCs apply their video, status and query filters after the
+-- HNSW scan. With the default ef_search of 40 the index hands back at most 40
+-- candidates, so a query scoped to one video or a narrow filter could return
+-- few or no rows. Iterative scans (pgvector 0.8+) keep walking the index until
+-- match_count rows pass the filters; strict ordering keeps results sorted by
+-- distance, and the larger ef_search covers the search candidate pool.
+ALTER FUNCTION public.match_video_segments(extensions.vector, INTEGER, UUID, TEXT, JSONB)
+  SET hnsw.iterative_scan = 'strict_order';
+ALTER FUNCTION public.match_video_segments(extensions.vector, INTEGER, UUID, TEXT, JSONB)
+  SET hnsw.ef_search = 200;
+
+ALTER FUNCTION public.match_video_frames(extensions.vector, UUID, INTEGER, UUID, TEXT)
+  SET hnsw.iterative_scan = 'strict_order';
+ALTER FUNCTION public.match_video_frames(extensions.vector, UUID, INTEGER, UUID, TEXT)
+  SET hnsw.ef_search = 200;
+
+-- Segments analyzed before embeddings existed, found by the analysis worker's
+-- backfill when the job queue is empty
+CREATE INDEX idx_video_segments_missing_embedding ON public.video_segments (created_at)
+WHERE embedding IS NULL AND embedding_text IS NOT NULL AND embedding_text <> '';
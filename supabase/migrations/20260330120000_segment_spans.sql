@@ -0,0 +1,34 @@
+-- Where each segment ends and which segment follows it in its video. A
+-- segment lasts until the next one starts; the last one runs to the end of
+-- the video. Sequence matches and grouped ranges end where their last segment
+-- ends, and grouping merges hits on segments that follow one another.
+CREATE OR REPLACE FUNCTION public.segment_spans(segment_ids UUID[])
+RETURNS TABLE (
+  id UUID,
+  next_segment_id UUID,
+  end_seconds NUMERIC
+)
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  WITH ordered AS (
+    SELECT
+      s.id,
+      s.video_id,
+      s.timestamp_seconds,
+      LEAD(s.id) OVER w AS next_id,
+      LEAD(s.timestamp_seconds) OVER w AS next_start
+    FROM public.video_segments s
+    WHERE s.video_id IN (
+      SELECT video_segments.video_id FROM public.video_segments WHERE video_segments.id = ANY(segment_ids)
+    )
+    WINDOW w AS (PARTITION BY s.video_id ORDER BY s.timestamp_seconds, s.id)
+  )
+  SELECT
+    o.id,
+    o.next_id,
+    COALESCE(o.next_start, GREATEST(v.duration_seconds, o.timestamp_seconds), o.timestamp_seconds)
+  FROM ordered o
+  JOIN public.videos v ON v.id = o.video_id
+  WHERE o.id = ANY(segment_ids);
+$$;
@@ -0,0 +1,78 @@
+-- Query-by-frame leaves out the frames around the source frame: neighbouring
+-- frames of the same shot are near-duplicates of it and would fill the first
+-- page. neighbourhood_seconds is how far either side of the source frame's
+-- timestamp its own video is skipped. The query embedding is resolved before
+-- ranking so the HNSW index orders by a constant.
+DROP FUNCTION public.match_video_frames(extensions.vector, UUID, INTEGER, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.match_video_frames(
+  query_embedding extensions.vector(512) DEFAULT NULL,
+  source_segment_id UUID DEFAULT NULL,
+  match_count INTEGER DEFAULT 20,
+  filter_video_id UUID DEFAULT NULL,
+  filter_status TEXT DEFAULT 'ready',
+  neighbourhood_seconds NUMERIC DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  video_id UUID,
+  video_title TEXT,
+  video_path TEXT,
+  timestamp_seconds NUMERIC,
+  timestamp_display TEXT,
+  description TEXT,
+  transcript TEXT,
+  ocr_text TEXT,
+  detected_objects JSONB,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE plpgsql STABLE
+SET search_path = public, extensions
+SET hnsw.iterative_scan = 'strict_order'
+SET hnsw.ef_search = 200
+AS $$
+#variable_conflict use_column
+DECLARE
+  target extensions.vector(512) := query_embedding;
+  source_video_id UUID;
+  source_seconds NUMERIC;
+BEGIN
+  IF source_segment_id IS NOT NULL THEN
+    SELECT src.video_id, src.timestamp_seconds, COALESCE(target, src.visual_embedding)
+    INTO source_video_id, source_seconds, target
+    FROM public.video_segments src
+    WHERE src.id = source_segment_id;
+  END IF;
+
+  IF target IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.video_id,
+    v.title,
+    v.storage_path,
+    s.timestamp_seconds,
+    s.timestamp_display,
+    s.description,
+    s.transcript,
+    s.ocr_text,
+    s.detected_objects,
+    1 - (s.visual_embedding <=> target) AS similarity
+  FROM public.video_segments s
+  JOIN public.videos v ON v.id = s.video_id
+  WHERE s.visual_embedding IS NOT NULL
+    AND v.status = filter_status
+    AND (filter_video_id IS NULL OR s.video_id = filter_video_id)
+    AND (source_segment_id IS NULL OR s.id <> source_segment_id)
+    AND (
+      source_video_id IS NULL
+      OR s.video_id <> source_video_id
+      OR abs(s.timestamp_seconds - source_seconds) > neighbourhood_seconds
+    )
+  ORDER BY s.visual_embedding <=> target
+  LIMIT match_count;
+END;
+$$;
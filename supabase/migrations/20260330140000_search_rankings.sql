@@ -0,0 +1,36 @@
+-- Reranker output for each batch of a ranked search, keyed by a hash of the
+-- query, its scope and the index version. Pages after the first read the
+-- batches their cursor points into from here instead of reranking them again,
+-- so the reranker cannot reorder a batch between two pages. Entries of older
+-- versions are pruned when a newer one is written.
+CREATE TABLE public.search_rankings (
+  ranking_key TEXT NOT NULL,
+  batch INTEGER NOT NULL,
+  index_version BIGINT NOT NULL,
+  rankings JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (ranking_key, batch)
+);
+
+CREATE INDEX idx_search_rankings_index_version ON public.search_rankings(index_version);
+
+-- Written and read by search-videos only
+ALTER TABLE public.search_rankings ENABLE ROW LEVEL SECURITY;
+
+-- Clearing the cache also drops the stored rankings, so a changed reranking
+-- prompt or model applies to the next page too
+CREATE OR REPLACE FUNCTION public.invalidate_search_cache()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  removed INTEGER;
+BEGIN
+  DELETE FROM public.search_cache WHERE true;
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  DELETE FROM public.search_rankings WHERE true;
+  RETURN removed;
+END;
+$$;
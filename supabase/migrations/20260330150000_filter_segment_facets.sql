@@ -0,0 +1,52 @@
+-- Facet counts over every segment a filter matches, for queries without free
+-- text: the segments showing each object, the segments of each video, and
+-- the segments starting in each time bucket. Buckets are given by their
+-- starts, each running to the next. Counted here rather than over the rows
+-- of a page, so the counts describe the whole result set.
+CREATE OR REPLACE FUNCTION public.filter_segment_facets(
+  filter JSONB,
+  bucket_starts NUMERIC[],
+  filter_video_id UUID DEFAULT NULL,
+  filter_status TEXT DEFAULT 'ready'
+)
+RETURNS TABLE (
+  facet TEXT,
+  value TEXT,
+  video_id UUID,
+  bucket_start NUMERIC,
+  count BIGINT
+)
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  WITH matched AS (
+    SELECT s.video_id, v.title, s.timestamp_seconds, s.detected_objects
+    FROM public.video_segments s
+    JOIN public.videos v ON v.id = s.video_id
+    WHERE v.status = filter_status
+      AND (filter_video_id IS NULL OR s.video_id = filter_video_id)
+      AND public.segment_matches_filter(s, v.title, filter)
+  )
+  -- A segment counts once per object, however many instances it shows
+  SELECT 'object', o.key, NULL::UUID, NULL::NUMERIC, count(*)
+  FROM matched m
+  CROSS JOIN LATERAL jsonb_each(
+    CASE WHEN jsonb_typeof(m.detected_objects) = 'object' THEN m.detected_objects ELSE '{}'::jsonb END
+  ) o
+  WHERE jsonb_typeof(o.value) = 'number' AND (o.value)::numeric > 0
+  GROUP BY o.key
+  UNION ALL
+  SELECT 'video', m.title, m.video_id, NULL, count(*)
+  FROM matched m
+  GROUP BY m.video_id, m.title
+  UNION ALL
+  SELECT 'time', NULL, NULL, b.start, count(*)
+  FROM matched m
+  CROSS JOIN LATERAL (
+    SELECT max(starts.start) AS start
+    FROM unnest(bucket_starts) AS starts(start)
+    WHERE starts.start <= m.timestamp_seconds
+  ) b
+  WHERE b.start IS NOT NULL
+  GROUP BY b.start;
+$$;
@@ -0,0 +1,50 @@
+-- Field-only queries page through every matching segment instead of a
+-- fixed number of them: match_offset skips the rows earlier pages returned,
+-- and total_count is how many segments match in all, the same on every row.
+-- Segment IDs break ties so consecutive pages never overlap.
+DROP FUNCTION public.filter_video_segments(JSONB, INTEGER, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.filter_video_segments(
+  filter JSONB,
+  match_count INTEGER DEFAULT 50,
+  filter_video_id UUID DEFAULT NULL,
+  filter_status TEXT DEFAULT 'ready',
+  match_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  video_id UUID,
+  video_title TEXT,
+  video_path TEXT,
+  timestamp_seconds NUMERIC,
+  timestamp_display TEXT,
+  description TEXT,
+  transcript TEXT,
+  ocr_text TEXT,
+  detected_objects JSONB,
+  total_count BIGINT
+)
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.video_id,
+    v.title,
+    v.storage_path,
+    s.timestamp_seconds,
+    s.timestamp_display,
+    s.description,
+    s.transcript,
+    s.ocr_text,
+    s.detected_objects,
+    count(*) OVER ()
+  FROM public.video_segments s
+  JOIN public.videos v ON v.id = s.video_id
+  WHERE v.status = filter_status
+    AND (filter_video_id IS NULL OR s.video_id = filter_video_id)
+    AND public.segment_matches_filter(s, v.title, filter)
+  ORDER BY v.created_at DESC, s.timestamp_seconds, s.id
+  LIMIT match_count
+  OFFSET match_offset;
+$$;
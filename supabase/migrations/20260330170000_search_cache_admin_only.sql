@@ -0,0 +1,7 @@
+-- Clients read the search cache but no longer clear it: the public delete
+-- policy and the public EXECUTE on invalidate_search_cache let any anonymous
+-- caller wipe it. search-videos clears it instead, calling
+-- invalidate_search_cache with the service role.
+DROP POLICY "Allow public delete access to search_cache" ON public.search_cache;
+
+REVOKE EXECUTE ON FUNCTION public.invalidate_search_cache() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,81 @@
+-- Words that normalize to nothing (a lone "—" or "…") are left out of phrase
+-- matching, as the search function leaves them out of the phrase: the phrase
+-- words are matched against the next spoken words that normalize to
+-- something, so "budget — cuts" in a transcript matches "budget cuts". The
+-- spoken text and the context around it still show every word.
+CREATE OR REPLACE FUNCTION public.match_transcript_phrase(
+  phrase_words TEXT[],
+  filter_video_id UUID DEFAULT NULL,
+  context_words INTEGER DEFAULT 8,
+  match_count INTEGER DEFAULT 100,
+  filter_status TEXT DEFAULT 'ready'
+)
+RETURNS TABLE (
+  video_id UUID,
+  video_title TEXT,
+  video_path TEXT,
+  segment_id UUID,
+  start_seconds NUMERIC,
+  end_seconds NUMERIC,
+  spoken TEXT,
+  context_before TEXT,
+  context_after TEXT
+)
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  SELECT
+    start_word.video_id,
+    v.title,
+    v.storage_path,
+    start_word.segment_id,
+    start_word.start_seconds,
+    span.end_seconds,
+    said.words,
+    coalesce(lead_in.words, ''),
+    coalesce(lead_out.words, '')
+  FROM public.transcript_words start_word
+  JOIN public.videos v ON v.id = start_word.video_id
+  CROSS JOIN LATERAL (
+    SELECT
+      count(*) FILTER (WHERE next.normalized_word = phrase_words[next.position]) AS matched,
+      max(next.word_index) AS end_index,
+      max(next.end_seconds) AS end_seconds
+    FROM (
+      SELECT w.normalized_word, w.word_index, w.end_seconds, row_number() OVER (ORDER BY w.word_index) AS position
+      FROM (
+        SELECT w.normalized_word, w.word_index, w.end_seconds
+        FROM public.transcript_words w
+        WHERE w.video_id = start_word.video_id
+          AND w.word_index >= start_word.word_index
+          AND w.normalized_word <> ''
+        ORDER BY w.word_index
+        LIMIT cardinality(phrase_words)
+      ) w
+    ) next
+  ) span
+  CROSS JOIN LATERAL (
+    SELECT string_agg(w.word, ' ' ORDER BY w.word_index) AS words
+    FROM public.transcript_words w
+    WHERE w.video_id = start_word.video_id
+      AND w.word_index BETWEEN start_word.word_index AND span.end_index
+  ) said
+  CROSS JOIN LATERAL (
+    SELECT string_agg(w.word, ' ' ORDER BY w.word_index) AS words
+    FROM public.transcript_words w
+    WHERE w.video_id = start_word.video_id
+      AND w.word_index BETWEEN start_word.word_index - context_words AND start_word.word_index - 1
+  ) lead_in
+  CROSS JOIN LATERAL (
+    SELECT string_agg(w.word, ' ' ORDER BY w.word_index) AS words
+    FROM public.transcript_words w
+    WHERE w.video_id = start_word.video_id
+      AND w.word_index BETWEEN span.end_index + 1 AND span.end_index + context_words
+  ) lead_out
+  WHERE start_word.normalized_word = phrase_words[1]
+    AND span.matched = cardinality(phrase_words)
+    AND v.status = filter_status
+    AND (filter_video_id IS NULL OR start_word.video_id = filter_video_id)
+  ORDER BY v.title, start_word.video_id, start_word.start_seconds
+  LIMIT match_count;
+$$;
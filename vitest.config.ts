@@ -0,0 +1,19 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Unit tests for the app (src/) and for the pure modules of the edge functions
+// (supabase/functions/), which are Deno code: vitest.setup.ts provides the
+// Deno globals they read on load, and URL imports of npm packages resolve to
+// the copies installed for the app.
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+      "https://esm.sh/@supabase/supabase-js@2": "@supabase/supabase-js",
+    },
+  },
+  test: {
+    include: ["src/**/*.test.ts", "supabase/functions/**/*.test.ts"],
+    setupFiles: ["./vitest.setup.ts"],
+  },
+});
@@ -0,0 +1,6 @@
+// The edge functions read their configuration through Deno.env when loaded
+Object.assign(globalThis, {
+  Deno: {
+    env: { get: (name: string) => process.env[name] },
+  },
+});